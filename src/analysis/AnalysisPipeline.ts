@@ -0,0 +1,111 @@
+/**
+ * Analysis pipeline
+ * Single entry point from a decoded buffer to an AnalysisResult:
+ * prep (downmix + resample) → preprocessing → denoise → features → scores → insight.
+ * The configuration used is recorded in the result so scores are reproducible.
+ */
+
+import { AudioBuffer, AnalysisResult, AcousticFeatures } from './types';
+import {
+  extractFeatures,
+  estimateBufferNoise,
+  FeatureExtractionOptions,
+  DEFAULT_FEATURE_OPTIONS,
+} from './FeatureExtractor';
+import { prepareAudioForAnalysis, AudioPrepOptions, DEFAULT_AUDIO_PREP_OPTIONS } from '@/audio/AudioPrep';
+import { ChannelReport } from '@/audio/ChannelMixer';
+import {
+  preprocessAudio,
+  PreprocessorConfig,
+  DEFAULT_PREPROCESSOR_CONFIG,
+} from '@/audio/AudioPreprocessor';
+import { denoiseAudio, DenoiseConfig, DEFAULT_DENOISE_CONFIG } from '@/audio/Denoiser';
+import { detectClipping } from '@/audio/ClippingDetector';
+import { calculateScores, calculateConfidence } from '@/scoring/ScoreCalculator';
+import { generateInsight, matchInsightRule } from '@/scoring/InsightEngine';
+
+/**
+ * Version of the analysis algorithms; bump when outputs for the same audio change
+ */
+export const ANALYSIS_VERSION = '1.12.0';
+
+/**
+ * Full pipeline configuration
+ */
+export interface AnalysisConfig {
+  readonly prep: AudioPrepOptions;
+  readonly preprocessing: PreprocessorConfig;
+  readonly denoise: DenoiseConfig;
+  readonly features: FeatureExtractionOptions;
+}
+
+export const DEFAULT_ANALYSIS_CONFIG: AnalysisConfig = {
+  prep: DEFAULT_AUDIO_PREP_OPTIONS,
+  preprocessing: DEFAULT_PREPROCESSOR_CONFIG,
+  denoise: DEFAULT_DENOISE_CONFIG,
+  features: DEFAULT_FEATURE_OPTIONS,
+};
+
+/**
+ * Pipeline output: the user-facing result plus diagnostics
+ */
+export interface AnalysisOutput {
+  readonly result: AnalysisResult;
+  readonly channelReport: ChannelReport;
+}
+
+/**
+ * Run the full analysis on a decoded buffer
+ * Pure function - same buffer and config always give the same result
+ */
+export function analyzeAudio(
+  buffer: AudioBuffer,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): AnalysisOutput {
+  // Step 1: Downmix to mono and convert to the analysis sample rate
+  const { buffer: prepared, channelReport } = prepareAudioForAnalysis(buffer, config.prep);
+
+  // Step 2: DC removal, high-pass and any optional stages
+  const preprocessed = preprocessAudio(prepared, config.preprocessing);
+
+  // Clipping is judged on the source samples: resampling and filtering smear flat tops
+  const clipping = detectClipping(buffer);
+
+  // Step 3: Optional noise reduction, then feature extraction
+  let features: AcousticFeatures;
+  if (config.denoise.method === 'none') {
+    features = extractFeatures(preprocessed, config.features, clipping);
+  } else {
+    const denoised = denoiseAudio(preprocessed, config.denoise);
+    // The noise fields describe the room, so report the input's noise, not the residual
+    const inputNoise = estimateBufferNoise(preprocessed, config.features);
+    features = {
+      ...extractFeatures(denoised, config.features, clipping),
+      noiseFloorDb: inputNoise.noiseFloorDb,
+      snrDb: inputNoise.snrDb,
+    };
+  }
+
+  // Step 4: Calculate scores
+  const scores = calculateScores(features);
+
+  // Step 5: Generate insight
+  const insight = generateInsight(features, scores);
+  const insightId = matchInsightRule(features, scores)?.id ?? 'none';
+  const confidence = calculateConfidence(features);
+
+  return {
+    result: {
+      scores,
+      insight,
+      insightId,
+      confidence,
+      features,
+      analysisVersion: ANALYSIS_VERSION,
+      config,
+    },
+    channelReport,
+  };
+}
+
+export default analyzeAudio;
@@ -0,0 +1,135 @@
+/**
+ * Cepstral peak prominence
+ * The power cepstrum of a voiced frame has a peak at the pitch period; CPP
+ * is the height of that peak above a straight line fitted to the cepstrum
+ * (Hillenbrand et al. 1994, as in Praat's "Get CPPS"). Breathy and
+ * dysphonic voices have weak harmonics, so their peak sinks into the trend.
+ * Unlike jitter and HNR it needs no period marking, so it holds up on
+ * connected speech.
+ * Pure functions - operates on raw frame samples
+ */
+
+import { fft, ifft, nextPowerOfTwo } from './FFT';
+
+/** Pitch range searched for the cepstral peak (Hz, Praat's defaults) */
+const MIN_PITCH = 60;
+const MAX_PITCH = 330;
+/** The trend line is fitted from this quefrency (s) up to half the frame */
+const TREND_START = 0.001;
+/** Quefrency smoothing window for CPPS (s, Praat's default) */
+const SMOOTHING_WINDOW = 0.0005;
+/** Spectrum floor relative to its peak, so log(0) never occurs (-100 dB) */
+const SPECTRUM_FLOOR = 1e-10;
+
+/**
+ * Prominence of the cepstral peak, unsmoothed and smoothed (dB)
+ */
+export interface CepstralPeak {
+  /** Cepstral peak prominence */
+  readonly cpp: number;
+  /** Smoothed cepstral peak prominence (cepstrum averaged over quefrency first) */
+  readonly cpps: number;
+}
+
+/**
+ * Power cepstrum of a frame in dB, for quefrencies 0..n/2 (in samples)
+ * The mean-removed frame is Hann-windowed; the inverse FFT of its log power
+ * spectrum (dB) is squared and converted to dB. Null for silence.
+ */
+export function powerCepstrum(samples: Float32Array): Float64Array | null {
+  const n = samples.length;
+  const size = nextPowerOfTwo(n);
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+
+  const mean = samples.reduce((a, b) => a + b, 0) / n;
+  for (let i = 0; i < n; i++) {
+    real[i] = (samples[i] - mean) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+
+  fft(real, imag);
+  let peakPower = 0;
+  for (let k = 0; k < size; k++) {
+    real[k] = real[k] * real[k] + imag[k] * imag[k];
+    imag[k] = 0;
+    peakPower = Math.max(peakPower, real[k]);
+  }
+  if (peakPower === 0) return null;
+
+  const floor = peakPower * SPECTRUM_FLOOR;
+  for (let k = 0; k < size; k++) real[k] = 10 * Math.log10(real[k] + floor);
+  ifft(real, imag);
+
+  const cepstrum = new Float64Array(size / 2 + 1);
+  for (let q = 0; q < cepstrum.length; q++) {
+    cepstrum[q] = 10 * Math.log10(real[q] * real[q] + imag[q] * imag[q] + 1e-30);
+  }
+  return cepstrum;
+}
+
+/**
+ * Moving average over quefrency, with the window shrinking at the ends
+ * Averages power rather than dB, so a single deep dip cannot pull the
+ * peak neighbourhood down.
+ */
+function smoothCepstrum(cepstrum: Float64Array, radius: number): Float64Array {
+  const power = cepstrum.map(v => Math.pow(10, v / 10));
+  const smoothed = new Float64Array(cepstrum.length);
+  for (let q = 0; q < cepstrum.length; q++) {
+    const from = Math.max(0, q - radius);
+    const to = Math.min(cepstrum.length - 1, q + radius);
+    let sum = 0;
+    for (let k = from; k <= to; k++) sum += power[k];
+    smoothed[q] = 10 * Math.log10(sum / (to - from + 1));
+  }
+  return smoothed;
+}
+
+/**
+ * Height of the highest peak in [minQ, maxQ] above the least-squares line
+ * through the cepstrum from fitStart to its end
+ */
+function peakProminence(cepstrum: Float64Array, minQ: number, maxQ: number, fitStart: number): number {
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  let count = 0;
+  for (let q = fitStart; q < cepstrum.length; q++) {
+    sumX += q;
+    sumY += cepstrum[q];
+    sumXY += q * cepstrum[q];
+    sumXX += q * q;
+    count++;
+  }
+  const slope = (count * sumXY - sumX * sumY) / (count * sumXX - sumX * sumX);
+  const intercept = (sumY - slope * sumX) / count;
+
+  let peak = minQ;
+  for (let q = minQ; q <= maxQ; q++) {
+    if (cepstrum[q] > cepstrum[peak]) peak = q;
+  }
+  return cepstrum[peak] - (intercept + slope * peak);
+}
+
+/**
+ * CPP and CPPS of one frame in dB; zeros for silence or frames too short
+ * to hold a 60 Hz period
+ * Smoothing is over quefrency only: a 32 ms hop is already coarser than
+ * the time averaging window CPPS normally uses.
+ */
+export function frameCepstralPeak(samples: Float32Array, sampleRate: number): CepstralPeak {
+  const minQ = Math.floor(sampleRate / MAX_PITCH);
+  const maxQ = Math.ceil(sampleRate / MIN_PITCH);
+  const fitStart = Math.round(TREND_START * sampleRate);
+  const cepstrum = powerCepstrum(samples);
+  if (!cepstrum || maxQ >= cepstrum.length - 1) return { cpp: 0, cpps: 0 };
+
+  const radius = Math.max(1, Math.round((SMOOTHING_WINDOW * sampleRate) / 2));
+  return {
+    cpp: peakProminence(cepstrum, minQ, maxQ, fitStart),
+    cpps: peakProminence(smoothCepstrum(cepstrum, radius), minQ, maxQ, fitStart),
+  };
+}
+
+export default frameCepstralPeak;
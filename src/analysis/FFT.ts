@@ -0,0 +1,91 @@
+/**
+ * Fast Fourier transform
+ * Shared by feature extraction and STFT-based processing
+ * Pure TypeScript - no native dependencies
+ */
+
+/**
+ * Sample buffers the transforms accept; Float64Array where precision matters
+ */
+export type FloatArray = Float32Array | Float64Array;
+
+/**
+ * Simple in-place FFT for spectral analysis
+ * Cooley-Tukey radix-2 algorithm
+ */
+export function fft(real: FloatArray, imag: FloatArray): void {
+  const n = real.length;
+  if (n <= 1) return;
+
+  // Bit-reversal permutation
+  let j = 0;
+  for (let i = 0; i < n; i++) {
+    if (i < j) {
+      const tempReal = real[i];
+      real[i] = real[j];
+      real[j] = tempReal;
+      const tempImag = imag[i];
+      imag[i] = imag[j];
+      imag[j] = tempImag;
+    }
+    let k = n >> 1;
+    while (k & j) {
+      j &= ~k;
+      k >>= 1;
+    }
+    j |= k;
+  }
+
+  // Butterfly operations
+  for (let length = 2; length <= n; length <<= 1) {
+    const angle = -2 * Math.PI / length;
+    const wlenReal = Math.cos(angle);
+    const wlenImag = Math.sin(angle);
+
+    const half = length >> 1;
+
+    for (let i = 0; i < n; i += length) {
+      let wReal = 1;
+      let wImag = 0;
+
+      for (let j = 0; j < half; j++) {
+        const a = i + j;
+        const b = a + half;
+        const uReal = real[a];
+        const uImag = imag[a];
+        const vReal = real[b] * wReal - imag[b] * wImag;
+        const vImag = real[b] * wImag + imag[b] * wReal;
+
+        real[a] = uReal + vReal;
+        imag[a] = uImag + vImag;
+        real[b] = uReal - vReal;
+        imag[b] = uImag - vImag;
+
+        const nextWReal = wReal * wlenReal - wImag * wlenImag;
+        wImag = wReal * wlenImag + wImag * wlenReal;
+        wReal = nextWReal;
+      }
+    }
+  }
+}
+
+/**
+ * In-place inverse FFT (scaled by 1/n)
+ * Uses the conjugate trick so it shares the forward implementation
+ */
+export function ifft(real: FloatArray, imag: FloatArray): void {
+  const n = real.length;
+  for (let i = 0; i < n; i++) imag[i] = -imag[i];
+  fft(real, imag);
+  for (let i = 0; i < n; i++) {
+    real[i] /= n;
+    imag[i] = -imag[i] / n;
+  }
+}
+
+/**
+ * Smallest power of two >= n
+ */
+export function nextPowerOfTwo(n: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(Math.max(1, n))));
+}
@@ -4,87 +4,52 @@
  * All processing is on-device, no network calls
  */
 
-import { AudioBuffer, AcousticFeatures } from './types';
-import { detectPitchFrames } from './PitchDetector';
+import { AudioBuffer, AcousticFeatures, FrameFeatures, GlottalCycleMark } from './types';
+import { PitchTracker, PitchTrackingConfig, resolvePitchTracker } from './PitchTracking';
+import {
+  describeSpectrum,
+  frameSpectrum,
+  spectralEntropy,
+  spectralFlux,
+  SpectralDescriptors,
+} from './SpectralDescriptors';
+import { detectVoiceActivity, VadConfig } from './VoiceActivityDetector';
+import { estimateNoise, NoiseEstimate } from './NoiseEstimator';
+import { cleanPitchContour, PitchContourConfig } from './PitchContour';
+import { computeJitter, computeShimmer, detectGlottalCycles } from './GlottalPeriods';
+import { frameHnr, summarizeHnr } from './Harmonicity';
+import { frameCepstralPeak } from './CepstralPeak';
+import { frameFormants, summarizeFormants } from './Formants';
+import { addFrameToSums, summarizeFrameSums, FrameSums, EMPTY_FRAME_SUMS } from './FrameSums';
+import { detectClipping, ClippingReport } from '@/audio/ClippingDetector';
+
+/** Analysis frame length in samples (64 ms at 16 kHz) */
+export const FRAME_SIZE = 1024;
+/** Hop between frames in samples (50% overlap) */
+export const HOP_SIZE = 512;
+/** Largest relative difference between a frame's glottal periods and its pitch */
+const PERIOD_AGREEMENT = 0.2;
 
 /**
- * Simple in-place FFT for spectral analysis
- * Cooley-Tukey radix-2 algorithm
+ * Feature extraction options
  */
-function fft(real: Float32Array, imag: Float32Array): void {
-  const n = real.length;
-  if (n <= 1) return;
-
-  // Bit-reversal permutation
-  let j = 0;
-  for (let i = 0; i < n; i++) {
-    if (i < j) {
-      [real[i], real[j]] = [real[j], real[i]];
-      [imag[i], imag[j]] = [imag[j], imag[i]];
-    }
-    let k = n >> 1;
-    while (k & j) {
-      j &= ~k;
-      k >>= 1;
-    }
-    j |= k;
-  }
-
-  // Butterfly operations
-  for (let length = 2; length <= n; length <<= 1) {
-    const angle = -2 * Math.PI / length;
-    const wlenReal = Math.cos(angle);
-    const wlenImag = Math.sin(angle);
-
-    for (let i = 0; i < n; i += length) {
-      let wReal = 1;
-      let wImag = 0;
-
-      for (let j = 0; j < length / 2; j++) {
-        const uReal = real[i + j];
-        const uImag = imag[i + j];
-        const vReal = real[i + j + length / 2] * wReal - imag[i + j + length / 2] * wImag;
-        const vImag = real[i + j + length / 2] * wImag + imag[i + j + length / 2] * wReal;
-
-        real[i + j] = uReal + vReal;
-        imag[i + j] = uImag + vImag;
-        real[i + j + length / 2] = uReal - vReal;
-        imag[i + j + length / 2] = uImag - vImag;
-
-        const nextWReal = wReal * wlenReal - wImag * wlenImag;
-        wImag = wReal * wlenImag + wImag * wlenReal;
-        wReal = nextWReal;
-      }
-    }
-  }
-}
-
-/**
- * Calculate magnitude spectrum from FFT result
- */
-function magnitudeSpectrum(real: Float32Array, imag: Float32Array): Float32Array {
-  const mag = new Float32Array(real.length / 2);
-  for (let i = 0; i < mag.length; i++) {
-    mag[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]);
-  }
-  return mag;
+export interface FeatureExtractionOptions {
+  /** Trim edge silence and compute energy/spectral statistics over speech frames only */
+  speechOnly: boolean;
+  /** Voice activity detector overrides */
+  vad: Partial<VadConfig>;
+  /** Pitch tracker selection and fallback (defaults to YIN alone) */
+  pitch: Partial<PitchTrackingConfig>;
+  /** Pitch contour cleanup overrides */
+  contour: Partial<PitchContourConfig>;
 }
 
-/**
- * Calculate spectral centroid from magnitude spectrum
- */
-function spectralCentroid(magSpectrum: Float32Array, sampleRate: number, frameSize: number): number {
-  let numerator = 0;
-  let denominator = 0;
-
-  for (let i = 0; i < magSpectrum.length; i++) {
-    const freq = (i * sampleRate) / frameSize;
-    numerator += freq * magSpectrum[i];
-    denominator += magSpectrum[i];
-  }
-
-  return denominator === 0 ? 0 : numerator / denominator;
-}
+export const DEFAULT_FEATURE_OPTIONS: FeatureExtractionOptions = {
+  speechOnly: true,
+  vad: {},
+  pitch: {},
+  contour: {},
+};
 
 /**
  * Calculate zero-crossing rate
@@ -109,45 +74,100 @@ function rmsEnergy(samples: Float32Array): number {
 }
 
 /**
- * Apply Hann window to samples
+ * A frame's features plus its magnitude spectrum, which the next frame's
+ * spectral flux is measured against
  */
-function applyHannWindow(samples: Float32Array): Float32Array {
-  const windowed = new Float32Array(samples.length);
-  for (let i = 0; i < samples.length; i++) {
-    const windowVal = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (samples.length - 1)));
-    windowed[i] = samples[i] * windowVal;
-  }
-  return windowed;
+export interface AnalyzedFrame {
+  readonly features: FrameFeatures;
+  readonly spectrum: Float32Array;
 }
 
 /**
  * Calculate spectral features for a frame
  */
-function analyzeFrame(
+function analyzeSpectrum(
   samples: Float32Array,
   sampleRate: number
-): { centroid: number; zcr: number; rms: number } {
-  // Apply window
-  const windowed = applyHannWindow(samples);
-
-  // Prepare for FFT (pad to power of 2)
-  const fftSize = Math.pow(2, Math.ceil(Math.log2(samples.length)));
-  const real = new Float32Array(fftSize);
-  const imag = new Float32Array(fftSize);
-  real.set(windowed);
-
-  // Compute FFT
-  fft(real, imag);
-
-  // Get magnitude spectrum
-  const magSpectrum = magnitudeSpectrum(real, imag);
-
-  // Calculate features
+): SpectralDescriptors & { zcr: number; rms: number; magnitude: Float32Array } {
+  const spectrum = frameSpectrum(samples);
   return {
-    centroid: spectralCentroid(magSpectrum, sampleRate, fftSize),
+    ...describeSpectrum(spectrum, sampleRate),
     zcr: zeroCrossingRate(samples),
     rms: rmsEnergy(samples),
+    magnitude: spectrum.magnitude,
+  };
+}
+
+/**
+ * Analyze a single frame: spectral features plus pitch
+ * Flux is left out for the first frame (no previous spectrum).
+ */
+export function analyzeFrame(
+  frame: Float32Array,
+  sampleRate: number,
+  tracker: PitchTracker = resolvePitchTracker(),
+  previousSpectrum: Float32Array | null = null
+): AnalyzedFrame {
+  const spectral = analyzeSpectrum(frame, sampleRate);
+  const pitch = tracker.detect(frame, sampleRate);
+  const cepstralPeak = frameCepstralPeak(frame, sampleRate);
+
+  const features: FrameFeatures = {
+    centroid: spectral.centroid,
+    spectralEntropy: spectral.entropy,
+    spectralBandwidth: spectral.bandwidth,
+    spectralRolloff: spectral.rolloff,
+    spectralFlatness: spectral.flatness,
+    spectralSlope: spectral.slope,
+    spectralFlux: previousSpectrum ? spectralFlux(previousSpectrum, spectral.magnitude) : undefined,
+    alphaRatio: spectral.alphaRatio,
+    hammarbergIndex: spectral.hammarbergIndex,
+    zcr: spectral.zcr,
+    rms: spectral.rms,
+    pitch: pitch.pitch,
+    pitchConfidence: pitch.confidence,
+    isVoiced: pitch.isVoiced,
+    pitchCandidates: pitch.candidates,
+    glottalCycles: detectGlottalCycles(frame, sampleRate, pitch.pitch, HOP_SIZE),
+    hnrDb: frameHnr(frame, sampleRate),
+    cppDb: cepstralPeak.cpp,
+    cppsDb: cepstralPeak.cpps,
+    formants: frameFormants(frame, sampleRate),
   };
+  return { features, spectrum: spectral.magnitude };
+}
+
+/**
+ * Let a sequence tracker (e.g. pYIN) revise the pitch of every frame
+ * Frame-only trackers leave the frames untouched.
+ */
+export function smoothPitchTrack(
+  frames: readonly FrameFeatures[],
+  tracker: PitchTracker
+): readonly FrameFeatures[] {
+  if (!tracker.smooth || frames.length === 0) return frames;
+
+  const smoothed = tracker.smooth(
+    frames.map(f => ({
+      pitch: f.pitch,
+      confidence: f.pitchConfidence,
+      isVoiced: f.isVoiced,
+      candidates: f.pitchCandidates,
+    }))
+  );
+  return frames.map((f, i) => ({
+    ...f,
+    pitch: smoothed[i].pitch,
+    pitchConfidence: smoothed[i].confidence,
+    isVoiced: smoothed[i].isVoiced,
+  }));
+}
+
+/**
+ * Mean of an array (0 if empty)
+ */
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
 }
 
 /**
@@ -172,55 +192,56 @@ function coefficientOfVariation(values: number[]): number {
 }
 
 /**
- * Extract all acoustic features from audio buffer
+ * Reduce per-frame analysis to clip-level features
+ * Shared by the batch and streaming extractors so both give identical output.
+ * With speechOnly, leading/trailing silence is trimmed before pitch and
+ * voicing statistics, and energy/spectral statistics use speech frames only.
+ * If the VAD finds no speech at all, every frame is used.
+ * Clipping is scanned on raw samples, so the caller supplies its report.
+ * @param sums Running sums over the same frames, if the caller kept them
  */
-export function extractFeatures(audioBuffer: AudioBuffer): AcousticFeatures {
-  const { samples, sampleRate } = audioBuffer;
-
-  // Frame parameters
-  const frameSize = 1024;
-  const hopSize = 512;
-
-  // Process frames
-  const frameCentroids: number[] = [];
-  const frameZCRs: number[] = [];
-  const frameRMSs: number[] = [];
-
-  const numFrames = Math.floor((samples.length - frameSize) / hopSize) + 1;
-
-  for (let i = 0; i < numFrames; i++) {
-    const start = i * hopSize;
-    const frame = samples.subarray(start, start + frameSize);
-
-    const features = analyzeFrame(frame, sampleRate);
-    frameCentroids.push(features.centroid);
-    frameZCRs.push(features.zcr);
-    frameRMSs.push(features.rms);
-  }
-
-  // Calculate pitch features
-  const { pitches, voicedFrames, totalFrames } = detectPitchFrames(
-    samples,
-    sampleRate,
-    frameSize,
-    hopSize
+export function summarizeFrames(
+  frames: readonly FrameFeatures[],
+  sampleRate: number,
+  durationMs: number,
+  clipping: ClippingReport,
+  options: Partial<FeatureExtractionOptions> = {},
+  sums: FrameSums = frames.reduce(addFrameToSums, EMPTY_FRAME_SUMS)
+): AcousticFeatures {
+  const opts = { ...DEFAULT_FEATURE_OPTIONS, ...options };
+  const vad = detectVoiceActivity(frames, opts.vad);
+  const gated = opts.speechOnly && vad.speechFrameCount > 0;
+
+  // Speech region (edges trimmed) for pitch/voicing, speech frames for spectra
+  const regionStart = gated ? vad.speechStart : 0;
+  const region = gated ? frames.slice(vad.speechStart, vad.speechEnd + 1) : frames;
+
+  // Octave errors and spurious blips are repaired before any pitch statistic
+  const contour = cleanPitchContour(
+    region.map(f => (f.isVoiced ? f.pitch : 0)),
+    opts.contour
   );
+  const pitches = contour.pitches;
+  const voicedFrames = pitches.filter(p => p > 0).length;
+  const totalFrames = region.length;
 
   // Filter out unvoiced frames (pitch = 0) for statistics
   const validPitches = pitches.filter(p => p > 0);
 
   // Calculate statistics
-  const pitchMean = validPitches.length > 0
-    ? validPitches.reduce((a, b) => a + b, 0) / validPitches.length
-    : 0;
+  const pitchMean = mean(validPitches);
 
   const pitchVariance = coefficientOfVariation(validPitches);
 
-  const centroidMean = frameCentroids.reduce((a, b) => a + b, 0) / frameCentroids.length;
-
-  const zcrMean = frameZCRs.reduce((a, b) => a + b, 0) / frameZCRs.length;
-
-  const rmsMean = frameRMSs.reduce((a, b) => a + b, 0) / frameRMSs.length;
+  // Energy and spectral means and the shimmer proxy cover the speech frames;
+  // timbre stability covers the frames the cleaned contour calls voiced
+  // (pauses and breaths would dominate over all speech frames)
+  const linear = summarizeFrameSums(
+    sums,
+    frames,
+    gated ? vad.isSpeech : null,
+    frames.map((_, i) => i >= regionStart && i - regionStart < pitches.length && pitches[i - regionStart] > 0)
+  );
 
   const voicedRatio = totalFrames > 0 ? voicedFrames / totalFrames : 0;
 
@@ -237,28 +258,161 @@ export function extractFeatures(audioBuffer: AudioBuffer): AcousticFeatures {
   }
   const jitterProxy = jitterCount > 0 ? jitterSum / jitterCount : 0;
 
-  // Calculate shimmer proxy (frame-to-frame amplitude variation)
-  let shimmerSum = 0;
-  for (let i = 1; i < frameRMSs.length; i++) {
-    const diff = Math.abs(frameRMSs[i] - frameRMSs[i - 1]);
-    const avg = (frameRMSs[i] + frameRMSs[i - 1]) / 2;
-    if (avg > 0) {
-      shimmerSum += diff / avg;
+  // Cycle-level jitter and shimmer over runs of frames whose periods agree
+  // with the cleaned contour (octave-confused frames break the run)
+  const cycleRuns: GlottalCycleMark[][] = [[]];
+  region.forEach((frame, i) => {
+    const cycles = frame.glottalCycles ?? [];
+    const meanPeriod = cycles.reduce((sum, c) => sum + c.period, 0) / cycles.length;
+    const consistent =
+      pitches[i] > 0 &&
+      cycles.length > 0 &&
+      Math.abs(meanPeriod * pitches[i] - 1) <= PERIOD_AGREEMENT;
+
+    if (consistent) {
+      cycleRuns[cycleRuns.length - 1].push(...cycles);
+    } else if (cycleRuns[cycleRuns.length - 1].length > 0) {
+      cycleRuns.push([]);
     }
-  }
-  const shimmerProxy = frameRMSs.length > 1 ? shimmerSum / (frameRMSs.length - 1) : 0;
+  });
+  const jitter = computeJitter(cycleRuns);
+  const shimmer = computeShimmer(cycleRuns);
+
+  // Harmonicity and cepstral peak prominence of the frames the cleaned contour calls voiced
+  const hnr = summarizeHnr(
+    region.flatMap((f, i) => (pitches[i] > 0 && f.hnrDb !== undefined ? [f.hnrDb] : []))
+  );
+  const voicedMean = (values: (number | undefined)[]): number => {
+    const present = values.filter((v, i): v is number => pitches[i] > 0 && v !== undefined);
+    return present.length > 0 ? present.reduce((a, b) => a + b, 0) / present.length : 0;
+  };
+
+  // Formants of the same frames
+  const [f1, f2, f3] = summarizeFormants(
+    region.flatMap((f, i) => (pitches[i] > 0 && f.formants !== undefined ? [f.formants] : []))
+  );
+
+  // Background noise from the whole clip, using the VAD's pauses
+  const noise = estimateNoise(frames.map(f => f.rms), vad.isSpeech);
 
   return {
-    rms: rmsMean,
+    rms: linear.means.rms,
     pitchMean,
     pitchVariance,
-    spectralCentroid: centroidMean,
-    zeroCrossingRate: zcrMean,
+    correctedPitchFrames: contour.correctedFrames,
+    spectralCentroid: linear.means.centroid,
+    spectralCentroidCv: linear.centroidCv,
+    spectralBandwidth: linear.means.spectralBandwidth,
+    spectralRolloff: linear.means.spectralRolloff,
+    spectralFlatness: linear.means.spectralFlatness,
+    spectralEntropy: linear.means.spectralEntropy,
+    spectralSlope: linear.means.spectralSlope,
+    spectralFlux: linear.means.spectralFlux,
+    alphaRatio: linear.means.alphaRatio,
+    hammarbergIndex: linear.means.hammarbergIndex,
+    zeroCrossingRate: linear.means.zcr,
     voicedRatio,
     jitterProxy: Math.min(jitterProxy, 1),
-    shimmerProxy: Math.min(shimmerProxy, 1),
-    durationSeconds: audioBuffer.durationMs / 1000,
+    jitterLocal: jitter.local,
+    jitterLocalAbsolute: jitter.localAbsolute,
+    jitterRap: jitter.rap,
+    jitterPpq5: jitter.ppq5,
+    jitterDdp: jitter.ddp,
+    shimmerProxy: Math.min(linear.rmsChange, 1),
+    shimmerLocal: shimmer.local,
+    shimmerDb: shimmer.db,
+    shimmerApq3: shimmer.apq3,
+    shimmerApq5: shimmer.apq5,
+    shimmerApq11: shimmer.apq11,
+    shimmerDda: shimmer.dda,
+    hnrDb: hnr.mean,
+    hnrP10Db: hnr.p10,
+    hnrMedianDb: hnr.median,
+    hnrP90Db: hnr.p90,
+    cppDb: voicedMean(region.map(f => f.cppDb)),
+    cppsDb: voicedMean(region.map(f => f.cppsDb)),
+    f1Mean: f1.mean,
+    f1Std: f1.std,
+    f1Bandwidth: f1.bandwidth,
+    f2Mean: f2.mean,
+    f2Std: f2.std,
+    f2Bandwidth: f2.bandwidth,
+    f3Mean: f3.mean,
+    f3Std: f3.std,
+    f3Bandwidth: f3.bandwidth,
+    durationSeconds: durationMs / 1000,
+    speechDurationSeconds: (vad.speechFrameCount * HOP_SIZE) / sampleRate,
+    noiseFloorDb: noise.noiseFloorDb,
+    snrDb: noise.snrDb,
+    clippedRunCount: clipping.clippedRunCount,
+    distortedFrameRatio: clipping.distortedFrameRatio,
+    isHardLimited: clipping.isHardLimited,
   };
 }
 
+/**
+ * Noise floor and SNR of a buffer, as extractFeatures() would report them
+ * Same frames, VAD and estimator, but only the frame energy and spectral
+ * entropy the VAD reads are computed, so it is cheap to run on audio that
+ * is analyzed in another form (e.g. before denoising).
+ */
+export function estimateBufferNoise(
+  audioBuffer: AudioBuffer,
+  options: Partial<FeatureExtractionOptions> = {}
+): NoiseEstimate {
+  const { samples } = audioBuffer;
+  const opts = { ...DEFAULT_FEATURE_OPTIONS, ...options };
+
+  const frames: Pick<FrameFeatures, 'rms' | 'spectralEntropy'>[] = [];
+  const numFrames = Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  for (let i = 0; i < numFrames; i++) {
+    const frame = samples.subarray(i * HOP_SIZE, i * HOP_SIZE + FRAME_SIZE);
+    frames.push({
+      rms: rmsEnergy(frame),
+      spectralEntropy: spectralEntropy(frameSpectrum(frame).magnitude),
+    });
+  }
+
+  const vad = detectVoiceActivity(frames, opts.vad);
+  return estimateNoise(frames.map(f => f.rms), vad.isSpeech);
+}
+
+/**
+ * Extract all acoustic features from audio buffer
+ * @param clipping Clipping report to use instead of scanning this buffer
+ *   (e.g. one taken from the source samples before resampling)
+ */
+export function extractFeatures(
+  audioBuffer: AudioBuffer,
+  options: Partial<FeatureExtractionOptions> = {},
+  clipping: ClippingReport = detectClipping(audioBuffer)
+): AcousticFeatures {
+  const { samples, sampleRate } = audioBuffer;
+  const tracker = resolvePitchTracker(options.pitch);
+
+  const frames: FrameFeatures[] = [];
+  const numFrames = Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1;
+  let previousSpectrum: Float32Array | null = null;
+
+  for (let i = 0; i < numFrames; i++) {
+    const start = i * HOP_SIZE;
+    const { features, spectrum } = analyzeFrame(
+      samples.subarray(start, start + FRAME_SIZE),
+      sampleRate,
+      tracker,
+      previousSpectrum
+    );
+    frames.push(features);
+    previousSpectrum = spectrum;
+  }
+
+  return summarizeFrames(
+    smoothPitchTrack(frames, tracker),
+    sampleRate,
+    audioBuffer.durationMs,
+    clipping,
+    options
+  );
+}
+
 export default extractFeatures;
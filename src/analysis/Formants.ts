@@ -0,0 +1,196 @@
+/**
+ * LPC formant estimation
+ * Linear prediction (autocorrelation method, Levinson-Durbin recursion)
+ * models a frame as an all-pole vocal tract filter; the roots of the
+ * prediction polynomial are its resonances. Each complex root pair gives a
+ * formant frequency from its angle and a bandwidth from its distance to the
+ * unit circle.
+ * Pure functions - operates on raw frame samples
+ */
+
+import { FormantEstimate } from './types';
+
+/** Pre-emphasis corner (Hz, Praat's default), flattening the glottal tilt */
+const PRE_EMPHASIS_FROM = 50;
+/** Accepted formant range (Hz); Praat's default ceiling for adult voices */
+const MIN_FORMANT = 90;
+const MAX_FORMANT = 5500;
+/** Expected spacing of resonances (Hz): Praat's 5 formants below 5.5 kHz */
+const FORMANT_SPACING = 1100;
+/** Resonances broader than this (Hz) are spectral shaping, not formants */
+const MAX_BANDWIDTH = 400;
+/** Root-finding limits */
+const MAX_ITERATIONS = 500;
+const ROOT_TOLERANCE = 1e-12;
+
+/**
+ * Complex number as [real, imaginary]
+ */
+export type Complex = readonly [number, number];
+
+/**
+ * Prediction polynomial of a linear predictor
+ */
+export interface LpcResult {
+  /** a[0] = 1, a[1..order]: x[n] ≈ -Σ a[k]·x[n-k] */
+  readonly coefficients: Float64Array;
+  /** Prediction error power relative to the signal power (0-1) */
+  readonly residual: number;
+}
+
+/**
+ * LPC coefficients by the autocorrelation method (Levinson-Durbin)
+ * Null for silence.
+ */
+export function lpcCoefficients(samples: ArrayLike<number>, order: number): LpcResult | null {
+  const n = samples.length;
+  const r = new Float64Array(order + 1);
+  for (let lag = 0; lag <= order; lag++) {
+    for (let i = lag; i < n; i++) r[lag] += samples[i] * samples[i - lag];
+  }
+  if (r[0] <= 0) return null;
+
+  const a = new Float64Array(order + 1);
+  a[0] = 1;
+  let error = r[0];
+  for (let m = 1; m <= order; m++) {
+    let acc = r[m];
+    for (let k = 1; k < m; k++) acc += a[k] * r[m - k];
+    const reflection = -acc / error;
+
+    const previous = a.slice();
+    for (let k = 1; k < m; k++) a[k] = previous[k] + reflection * previous[m - k];
+    a[m] = reflection;
+    error *= 1 - reflection * reflection;
+    if (error <= 0) break;
+  }
+
+  return { coefficients: a, residual: Math.max(0, error) / r[0] };
+}
+
+/**
+ * Roots of the monic polynomial z^p + c[1]·z^(p-1) + ... + c[p]
+ * Durand-Kerner iteration: every root estimate is refined at once against
+ * the others, from distinct starting points on a spiral.
+ */
+export function polynomialRoots(coefficients: ArrayLike<number>): Complex[] {
+  const degree = coefficients.length - 1;
+  if (degree < 1) return [];
+
+  const re = new Float64Array(degree);
+  const im = new Float64Array(degree);
+  for (let k = 0; k < degree; k++) {
+    // (0.4 + 0.9i)^k, a standard non-symmetric start
+    const radius = Math.pow(Math.hypot(0.4, 0.9), k);
+    const angle = k * Math.atan2(0.9, 0.4);
+    re[k] = radius * Math.cos(angle);
+    im[k] = radius * Math.sin(angle);
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let largestStep = 0;
+    for (let k = 0; k < degree; k++) {
+      // Horner evaluation of the polynomial at root k
+      let pr = 1;
+      let pi = 0;
+      for (let j = 1; j <= degree; j++) {
+        const nr = pr * re[k] - pi * im[k] + coefficients[j];
+        pi = pr * im[k] + pi * re[k];
+        pr = nr;
+      }
+      // Product of differences to the other roots
+      let dr = 1;
+      let di = 0;
+      for (let j = 0; j < degree; j++) {
+        if (j === k) continue;
+        const xr = re[k] - re[j];
+        const xi = im[k] - im[j];
+        const nr = dr * xr - di * xi;
+        di = dr * xi + di * xr;
+        dr = nr;
+      }
+      const norm = dr * dr + di * di;
+      if (norm === 0) continue;
+      const stepR = (pr * dr + pi * di) / norm;
+      const stepI = (pi * dr - pr * di) / norm;
+      re[k] -= stepR;
+      im[k] -= stepI;
+      largestStep = Math.max(largestStep, Math.hypot(stepR, stepI));
+    }
+    if (largestStep < ROOT_TOLERANCE) break;
+  }
+
+  return Array.from(re, (r, k): Complex => [r, im[k]]);
+}
+
+/**
+ * Formants of one frame, sorted by frequency; empty for silence
+ * The frame is pre-emphasized and Hamming-windowed. The prediction order
+ * allows two poles per resonance expected below Nyquist; higher orders
+ * start fitting individual harmonics of high voices.
+ */
+export function frameFormants(samples: Float32Array, sampleRate: number): FormantEstimate[] {
+  const n = samples.length;
+  const order = 2 * Math.round(sampleRate / 2 / FORMANT_SPACING);
+  if (n <= order) return [];
+
+  const emphasis = Math.exp((-2 * Math.PI * PRE_EMPHASIS_FROM) / sampleRate);
+  const windowed = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const emphasized = samples[i] - (i > 0 ? emphasis * samples[i - 1] : 0);
+    windowed[i] = emphasized * (0.54 - 0.46 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+
+  const lpc = lpcCoefficients(windowed, order);
+  if (!lpc) return [];
+
+  return polynomialRoots(lpc.coefficients)
+    .filter(([, im]) => im > 0)
+    .map(([re, im]) => ({
+      frequency: (Math.atan2(im, re) * sampleRate) / (2 * Math.PI),
+      bandwidth: (-Math.log(Math.hypot(re, im)) * sampleRate) / Math.PI,
+    }))
+    .filter(
+      f =>
+        f.frequency >= MIN_FORMANT &&
+        f.frequency <= Math.min(MAX_FORMANT, sampleRate / 2) &&
+        f.bandwidth > 0 &&
+        f.bandwidth <= MAX_BANDWIDTH
+    )
+    .sort((a, b) => a.frequency - b.frequency);
+}
+
+/**
+ * Clip-level statistics of one formant (Hz)
+ */
+export interface FormantSummary {
+  readonly mean: number;
+  /** Standard deviation of the frequency across frames (dispersion) */
+  readonly std: number;
+  readonly bandwidth: number;
+}
+
+/**
+ * Mean, standard deviation and mean bandwidth of F1..F(count) over frames
+ * The k-th lowest formant of each frame counts as Fk; frames with fewer
+ * formants only contribute to the lower ones. Zeros without any.
+ */
+export function summarizeFormants(
+  frames: readonly (readonly FormantEstimate[])[],
+  count = 3
+): FormantSummary[] {
+  return Array.from({ length: count }, (_, k) => {
+    const values = frames.flatMap(f => (f.length > k ? [f[k]] : []));
+    if (values.length === 0) return { mean: 0, std: 0, bandwidth: 0 };
+
+    const mean = values.reduce((sum, f) => sum + f.frequency, 0) / values.length;
+    const variance = values.reduce((sum, f) => sum + (f.frequency - mean) ** 2, 0) / values.length;
+    return {
+      mean,
+      std: Math.sqrt(variance),
+      bandwidth: values.reduce((sum, f) => sum + f.bandwidth, 0) / values.length,
+    };
+  });
+}
+
+export default frameFormants;
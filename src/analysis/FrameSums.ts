@@ -0,0 +1,173 @@
+/**
+ * Running frame sums
+ * The clip-level statistics that are linear in per-frame values (energy and
+ * spectral means, centroid spread, frame-to-frame RMS change) are kept as
+ * sums over every frame, updated as frames arrive. Which frames count
+ * (speech, voiced) is only known once the VAD and pitch contour cleanup have
+ * seen the whole track, so a summary subtracts the frames left out rather
+ * than re-summing the ones kept.
+ * Pure functions - state in, state out
+ */
+
+import { FrameFeatures } from './types';
+
+/** Per-frame values averaged over speech frames */
+export const AVERAGED_FIELDS = [
+  'rms',
+  'centroid',
+  'zcr',
+  'spectralBandwidth',
+  'spectralRolloff',
+  'spectralFlatness',
+  'spectralEntropy',
+  'spectralSlope',
+  'spectralFlux',
+  'alphaRatio',
+  'hammarbergIndex',
+] as const;
+
+export type AveragedField = (typeof AVERAGED_FIELDS)[number];
+
+/**
+ * Sum of one field and the number of frames that have it
+ */
+interface FieldSum {
+  readonly sum: number;
+  readonly count: number;
+}
+
+/**
+ * Running sums over every frame added so far
+ */
+export interface FrameSums {
+  readonly frameCount: number;
+  readonly fields: Readonly<Record<AveragedField, FieldSum>>;
+  /** Sum of squared centroids, for the centroid's spread */
+  readonly centroidSquares: number;
+  /** Sum of relative RMS change over every pair of adjacent frames */
+  readonly rmsChange: number;
+  /** RMS of the last frame added, paired with the next one */
+  readonly lastRms: number;
+}
+
+/**
+ * Linear statistics over the frames a summary keeps
+ */
+export interface LinearFrameStats {
+  /** Mean of each field over the included frames (0 if none have it) */
+  readonly means: Readonly<Record<AveragedField, number>>;
+  /** Mean relative RMS change between consecutive included frames */
+  readonly rmsChange: number;
+  /** Coefficient of variation of the centroid over the voiced frames */
+  readonly centroidCv: number;
+}
+
+export const EMPTY_FRAME_SUMS: FrameSums = {
+  frameCount: 0,
+  fields: Object.fromEntries(
+    AVERAGED_FIELDS.map(field => [field, { sum: 0, count: 0 }])
+  ) as Record<AveragedField, FieldSum>,
+  centroidSquares: 0,
+  rmsChange: 0,
+  lastRms: 0,
+};
+
+/**
+ * |b - a| relative to their mean (0 when both are silent)
+ */
+function relativeChange(a: number, b: number): number {
+  const avg = (b + a) / 2;
+  return avg > 0 ? Math.abs(b - a) / avg : 0;
+}
+
+/**
+ * Add the next frame of the track
+ */
+export function addFrameToSums(sums: FrameSums, frame: FrameFeatures): FrameSums {
+  const fields: Record<AveragedField, FieldSum> = { ...sums.fields };
+  for (const field of AVERAGED_FIELDS) {
+    const value = frame[field];
+    if (value !== undefined) {
+      fields[field] = { sum: fields[field].sum + value, count: fields[field].count + 1 };
+    }
+  }
+
+  return {
+    frameCount: sums.frameCount + 1,
+    fields,
+    centroidSquares: sums.centroidSquares + frame.centroid * frame.centroid,
+    rmsChange: sums.frameCount > 0 ? sums.rmsChange + relativeChange(sums.lastRms, frame.rms) : 0,
+    lastRms: frame.rms,
+  };
+}
+
+/**
+ * Statistics over a subset of the summed frames
+ * @param frames The frames the sums were built from, in order
+ * @param included Frames the means and RMS change cover (null = all)
+ * @param voiced Frames the centroid spread covers
+ */
+export function summarizeFrameSums(
+  sums: FrameSums,
+  frames: readonly FrameFeatures[],
+  included: readonly boolean[] | null,
+  voiced: readonly boolean[]
+): LinearFrameStats {
+  const excluded: number[] = [];
+  if (included) {
+    frames.forEach((_, i) => {
+      if (!included[i]) excluded.push(i);
+    });
+  }
+
+  const means = {} as Record<AveragedField, number>;
+  for (const field of AVERAGED_FIELDS) {
+    let { sum, count } = sums.fields[field];
+    for (const i of excluded) {
+      const value = frames[i][field];
+      if (value !== undefined) {
+        sum -= value;
+        count--;
+      }
+    }
+    means[field] = count > 0 ? sum / count : 0;
+  }
+
+  // Drop the pairs touching each run of excluded frames and bridge the run
+  let rmsChange = sums.rmsChange;
+  let runStart = -1;
+  for (let k = 0; k < excluded.length; k++) {
+    const i = excluded[k];
+    if (k === 0 || excluded[k - 1] !== i - 1) runStart = i;
+    if (i > 0) rmsChange -= relativeChange(frames[i - 1].rms, frames[i].rms);
+
+    const runEnds = k + 1 === excluded.length || excluded[k + 1] !== i + 1;
+    if (runEnds && i + 1 < frames.length) {
+      rmsChange -= relativeChange(frames[i].rms, frames[i + 1].rms);
+      if (runStart > 0) rmsChange += relativeChange(frames[runStart - 1].rms, frames[i + 1].rms);
+    }
+  }
+  const keptCount = frames.length - excluded.length;
+
+  let voicedCount = 0;
+  let centroidSum = sums.fields.centroid.sum;
+  let centroidSquares = sums.centroidSquares;
+  frames.forEach((frame, i) => {
+    if (voiced[i]) {
+      voicedCount++;
+    } else {
+      centroidSum -= frame.centroid;
+      centroidSquares -= frame.centroid * frame.centroid;
+    }
+  });
+  const centroidMean = voicedCount > 0 ? centroidSum / voicedCount : 0;
+  const centroidVariance = voicedCount > 0 ? Math.max(0, centroidSquares / voicedCount - centroidMean ** 2) : 0;
+
+  return {
+    means,
+    rmsChange: keptCount > 1 ? rmsChange / (keptCount - 1) : 0,
+    centroidCv: voicedCount >= 2 && centroidMean !== 0 ? Math.sqrt(centroidVariance) / centroidMean : 0,
+  };
+}
+
+export default summarizeFrameSums;
@@ -0,0 +1,276 @@
+/**
+ * Glottal period detection and cycle-level perturbation
+ * Marks individual pitch periods in voiced frames by waveform
+ * cross-correlation, guided by the frame's pitch estimate, and computes the
+ * jitter (local, local absolute, RAP, PPQ5, DDP) and shimmer (local, dB,
+ * APQ3, APQ5, APQ11, DDA) measures Praat reports.
+ * Pure functions - operates on raw samples and cycle sequences
+ */
+
+import { GlottalCycleMark } from './types';
+
+/**
+ * Cycle-to-cycle period perturbation, as defined by Praat
+ * Relative measures are fractions (0.01 = 1%).
+ */
+export interface JitterMeasures {
+  /** Mean absolute difference of consecutive periods / mean period */
+  readonly local: number;
+  /** Mean absolute difference of consecutive periods, in seconds */
+  readonly localAbsolute: number;
+  /** Relative average perturbation: deviation from the 3-period average / mean period */
+  readonly rap: number;
+  /** Five-point period perturbation quotient: deviation from the 5-period average / mean period */
+  readonly ppq5: number;
+  /** Mean absolute difference of consecutive differences / mean period (3 × RAP) */
+  readonly ddp: number;
+}
+
+export const NO_JITTER: JitterMeasures = { local: 0, localAbsolute: 0, rap: 0, ppq5: 0, ddp: 0 };
+
+/**
+ * Cycle-to-cycle peak amplitude perturbation, as defined by Praat
+ * Relative measures are fractions (0.01 = 1%).
+ */
+export interface ShimmerMeasures {
+  /** Mean absolute difference of consecutive amplitudes / mean amplitude */
+  readonly local: number;
+  /** Mean absolute base-10 log ratio of consecutive amplitudes, in dB */
+  readonly db: number;
+  /** Three-point amplitude perturbation quotient */
+  readonly apq3: number;
+  /** Five-point amplitude perturbation quotient */
+  readonly apq5: number;
+  /** Eleven-point amplitude perturbation quotient */
+  readonly apq11: number;
+  /** Mean absolute difference of consecutive differences / mean amplitude (3 × APQ3) */
+  readonly dda: number;
+}
+
+export const NO_SHIMMER: ShimmerMeasures = { local: 0, db: 0, apq3: 0, apq5: 0, apq11: 0, dda: 0 };
+
+/** Shortest and longest accepted period in seconds (Praat's defaults) */
+const MIN_PERIOD = 0.0001;
+const MAX_PERIOD = 0.02;
+/** Consecutive periods differing by more than this factor are not compared (Praat's default) */
+const MAX_PERIOD_FACTOR = 1.3;
+/** Consecutive amplitudes differing by more than this factor are not compared (Praat's default) */
+const MAX_AMPLITUDE_FACTOR = 1.6;
+/** Search range for the next period, relative to the current one */
+const MIN_STEP = 0.8;
+const MAX_STEP = 1.25;
+/** Correlation below this ends the chain (the voice is no longer periodic) */
+const MIN_CORRELATION = 0.5;
+/** Peak search around the correlation's prediction, relative to the period */
+const PEAK_SEARCH = 0.1;
+
+/**
+ * Normalized cross-correlation of two windows of a signal
+ */
+function windowCorrelation(samples: Float32Array, a: number, b: number, length: number): number {
+  let cross = 0;
+  let energyA = 0;
+  let energyB = 0;
+  for (let i = 0; i < length; i++) {
+    cross += samples[a + i] * samples[b + i];
+    energyA += samples[a + i] * samples[a + i];
+    energyB += samples[b + i] * samples[b + i];
+  }
+  const norm = Math.sqrt(energyA * energyB);
+  return norm > 0 ? cross / norm : 0;
+}
+
+/**
+ * Sub-sample position and height of a peak by parabolic interpolation
+ */
+function interpolatePeak(samples: Float32Array, index: number): { time: number; height: number } {
+  const curr = samples[index];
+  if (index <= 0 || index >= samples.length - 1) return { time: index, height: curr };
+  const prev = samples[index - 1];
+  const next = samples[index + 1];
+  const denominator = prev - 2 * curr + next;
+  const offset = denominator !== 0 ? (prev - next) / (2 * denominator) : 0;
+  return { time: index + offset, height: curr - ((prev - next) * offset) / 4 };
+}
+
+/**
+ * Glottal cycles starting in the first `span` samples of a voiced frame
+ * The chain starts at the largest peak of the first period. The shift
+ * (0.8-1.25 periods) at which one period of waveform best matches the
+ * current one predicts the next cycle, which starts at the nearest peak of
+ * the same polarity, located to sub-sample precision. Empty when the pitch
+ * is 0 or the waveform is not periodic.
+ */
+export function detectGlottalCycles(
+  samples: Float32Array,
+  sampleRate: number,
+  pitchHz: number,
+  span: number = samples.length
+): GlottalCycleMark[] {
+  if (pitchHz <= 0) return [];
+
+  let period = sampleRate / pitchHz;
+  let mark = 0;
+  for (let i = 1; i < Math.min(samples.length, Math.ceil(period)); i++) {
+    if (Math.abs(samples[i]) > Math.abs(samples[mark])) mark = i;
+  }
+  // Follow peaks of the same polarity as the first one
+  const polarity = samples[mark] < 0 ? -1 : 1;
+  let markPeak = interpolatePeak(samples, mark);
+
+  const cycles: GlottalCycleMark[] = [];
+  while (mark < span) {
+    const length = Math.round(period);
+    const minLag = Math.max(1, Math.floor(period * MIN_STEP));
+    const maxLag = Math.ceil(period * MAX_STEP);
+    const reach = Math.ceil(period * PEAK_SEARCH);
+    if (mark + maxLag + reach + length > samples.length) break;
+
+    // Shift at which the next period of waveform best matches this one
+    let bestLag = minLag;
+    let bestCorrelation = -Infinity;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const correlation = windowCorrelation(samples, mark, mark + lag, length);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        bestLag = lag;
+      }
+    }
+    if (bestCorrelation < MIN_CORRELATION) break;
+
+    // The cycle starts at the matching peak near the predicted position
+    let next = mark + bestLag;
+    for (let i = mark + bestLag - reach; i <= mark + bestLag + reach; i++) {
+      if (polarity * samples[i] > polarity * samples[next]) next = i;
+    }
+    const nextPeak = interpolatePeak(samples, next);
+
+    period = nextPeak.time - markPeak.time;
+    cycles.push({ period: period / sampleRate, amplitude: polarity * markPeak.height });
+    mark = next;
+    markPeak = nextPeak;
+  }
+
+  return cycles;
+}
+
+/**
+ * Split cycle sequences wherever a period is out of range or a period or
+ * amplitude differs from its predecessor by more than Praat's factors
+ */
+function comparableRuns(
+  sequences: readonly (readonly GlottalCycleMark[])[],
+  maxAmplitudeFactor: number
+): GlottalCycleMark[][] {
+  const runs: GlottalCycleMark[][] = [];
+  for (const sequence of sequences) {
+    let run: GlottalCycleMark[] = [];
+    for (const cycle of sequence) {
+      const previous = run[run.length - 1];
+      const inRange = cycle.period >= MIN_PERIOD && cycle.period <= MAX_PERIOD && cycle.amplitude > 0;
+      const comparable =
+        previous === undefined ||
+        (ratio(cycle.period, previous.period) <= MAX_PERIOD_FACTOR &&
+          ratio(cycle.amplitude, previous.amplitude) <= maxAmplitudeFactor);
+
+      if (!inRange || !comparable) {
+        if (run.length > 0) runs.push(run);
+        run = inRange ? [cycle] : [];
+      } else {
+        run.push(cycle);
+      }
+    }
+    if (run.length > 0) runs.push(run);
+  }
+  return runs;
+}
+
+function ratio(a: number, b: number): number {
+  return Math.max(a, b) / Math.min(a, b);
+}
+
+/**
+ * Mean absolute deviation of each value from the average of the values
+ * within `radius` on both sides (RAP/APQ3 for radius 1, PPQ5/APQ5 for 2,
+ * APQ11 for 5)
+ */
+function perturbation(runs: readonly number[][], radius: number): { sum: number; count: number } {
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (let i = radius; i < run.length - radius; i++) {
+      let local = 0;
+      for (let k = i - radius; k <= i + radius; k++) local += run[k];
+      sum += Math.abs(run[i] - local / (2 * radius + 1));
+      count++;
+    }
+  }
+  return { sum, count };
+}
+
+/**
+ * Mean absolute difference of consecutive values within runs
+ */
+function meanDifference(runs: readonly number[][]): { sum: number; count: number } {
+  let sum = 0;
+  let count = 0;
+  for (const run of runs) {
+    for (let i = 1; i < run.length; i++) {
+      sum += Math.abs(run[i] - run[i - 1]);
+      count++;
+    }
+  }
+  return { sum, count };
+}
+
+function quotient(part: { sum: number; count: number }, mean: number): number {
+  return part.count > 0 ? part.sum / part.count / mean : 0;
+}
+
+/**
+ * Jitter measures over sequences of consecutive cycles
+ * Periods are only compared within a sequence, so separate voiced
+ * segments are passed as separate sequences.
+ */
+export function computeJitter(sequences: readonly (readonly GlottalCycleMark[])[]): JitterMeasures {
+  const runs = comparableRuns(sequences, Infinity).map(run => run.map(c => c.period));
+  const all = runs.flat();
+  const differences = meanDifference(runs);
+  if (differences.count === 0) return NO_JITTER;
+
+  const meanPeriod = all.reduce((a, b) => a + b, 0) / all.length;
+  const rap = quotient(perturbation(runs, 1), meanPeriod);
+
+  return {
+    local: quotient(differences, meanPeriod),
+    localAbsolute: differences.sum / differences.count,
+    rap,
+    ppq5: quotient(perturbation(runs, 2), meanPeriod),
+    ddp: 3 * rap,
+  };
+}
+
+/**
+ * Shimmer measures over sequences of consecutive cycles
+ */
+export function computeShimmer(sequences: readonly (readonly GlottalCycleMark[])[]): ShimmerMeasures {
+  const runs = comparableRuns(sequences, MAX_AMPLITUDE_FACTOR).map(run => run.map(c => c.amplitude));
+  const all = runs.flat();
+  const differences = meanDifference(runs);
+  if (differences.count === 0) return NO_SHIMMER;
+
+  const meanAmplitude = all.reduce((a, b) => a + b, 0) / all.length;
+  const db = meanDifference(runs.map(run => run.map(a => 20 * Math.log10(a))));
+  const apq3 = quotient(perturbation(runs, 1), meanAmplitude);
+
+  return {
+    local: quotient(differences, meanAmplitude),
+    db: db.sum / db.count,
+    apq3,
+    apq5: quotient(perturbation(runs, 2), meanAmplitude),
+    apq11: quotient(perturbation(runs, 5), meanAmplitude),
+    dda: 3 * apq3,
+  };
+}
+
+export default computeJitter;
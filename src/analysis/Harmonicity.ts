@@ -0,0 +1,129 @@
+/**
+ * Harmonics-to-noise ratio
+ * Autocorrelation method (Boersma 1993, as in Praat's "To Harmonicity (ac)"):
+ * the normalized autocorrelation peak r at the pitch period splits frame
+ * energy into a periodic part r and an aperiodic part 1 - r.
+ * Pure functions - operates on raw frame samples
+ */
+
+import { fft, ifft, nextPowerOfTwo } from './FFT';
+
+/** Pitch range searched for the period peak (Hz) */
+const MIN_PITCH = 50;
+const MAX_PITCH = 600;
+/** Bounds on r, so HNR stays within [-20, 60] dB */
+const MIN_PERIODICITY = 0.01;
+const MAX_PERIODICITY = 0.999999;
+
+export const MIN_HNR_DB = 10 * Math.log10(MIN_PERIODICITY / (1 - MIN_PERIODICITY));
+export const MAX_HNR_DB = 10 * Math.log10(MAX_PERIODICITY / (1 - MAX_PERIODICITY));
+
+/**
+ * Autocorrelation of a frame (lags 0..n-1) via FFT, zero-padded against wrap-around
+ */
+function autocorrelation(samples: ArrayLike<number>, n: number): Float64Array {
+  const size = nextPowerOfTwo(2 * n);
+  const real = new Float64Array(size);
+  const imag = new Float64Array(size);
+  for (let i = 0; i < n; i++) real[i] = samples[i];
+
+  fft(real, imag);
+  for (let k = 0; k < size; k++) {
+    real[k] = real[k] * real[k] + imag[k] * imag[k];
+    imag[k] = 0;
+  }
+  ifft(real, imag);
+  return real.subarray(0, n);
+}
+
+const windowCorrelationCache = new Map<number, Float64Array>();
+
+/**
+ * Normalized autocorrelation of the Hann window, to undo its taper
+ */
+function windowCorrelation(n: number): Float64Array {
+  let cached = windowCorrelationCache.get(n);
+  if (!cached) {
+    const window = Array.from({ length: n }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    cached = autocorrelation(window, n);
+    const zero = cached[0];
+    cached = cached.map(v => v / zero);
+    windowCorrelationCache.set(n, cached);
+  }
+  return cached;
+}
+
+/**
+ * Harmonics-to-noise ratio of one frame in dB
+ * The mean-removed frame is Hann-windowed; its normalized autocorrelation,
+ * divided by the window's own, peaks near 1 at the period of a clean voice.
+ * Silence and aperiodic frames give MIN_HNR_DB.
+ */
+export function frameHnr(samples: Float32Array, sampleRate: number): number {
+  const n = samples.length;
+  const minLag = Math.max(2, Math.floor(sampleRate / MAX_PITCH));
+  // The window correction becomes unreliable beyond half the frame
+  const maxLag = Math.min(Math.ceil(sampleRate / MIN_PITCH), Math.floor(n / 2));
+  if (maxLag <= minLag) return MIN_HNR_DB;
+
+  const mean = samples.reduce((a, b) => a + b, 0) / n;
+  const windowed = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    windowed[i] = (samples[i] - mean) * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+
+  const r = autocorrelation(windowed, n);
+  if (r[0] <= 0) return MIN_HNR_DB;
+  const rw = windowCorrelation(n);
+  const normalized = (lag: number) => r[lag] / r[0] / rw[lag];
+
+  // Highest local maximum in the pitch range, refined by parabolic interpolation
+  let best = 0;
+  for (let lag = minLag; lag < maxLag; lag++) {
+    const value = normalized(lag);
+    if (value > best && value >= normalized(lag - 1) && value >= normalized(lag + 1)) {
+      const prev = normalized(lag - 1);
+      const next = normalized(lag + 1);
+      const denominator = prev - 2 * value + next;
+      best = denominator < 0 ? value - ((prev - next) * (prev - next)) / (8 * denominator) : value;
+    }
+  }
+
+  const periodicity = Math.min(MAX_PERIODICITY, Math.max(MIN_PERIODICITY, best));
+  return 10 * Math.log10(periodicity / (1 - periodicity));
+}
+
+/**
+ * Clip-level HNR statistics over voiced frames (dB)
+ */
+export interface HnrSummary {
+  readonly mean: number;
+  readonly p10: number;
+  readonly median: number;
+  readonly p90: number;
+}
+
+/**
+ * Mean and percentiles of per-frame HNR values; zeros when there are none
+ * Percentiles interpolate linearly between ranks.
+ */
+export function summarizeHnr(values: readonly number[]): HnrSummary {
+  if (values.length === 0) return { mean: 0, p10: 0, median: 0, p90: 0 };
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const percentile = (p: number): number => {
+    const rank = p * (sorted.length - 1);
+    const low = Math.floor(rank);
+    const high = Math.min(sorted.length - 1, low + 1);
+    return sorted[low] + (sorted[high] - sorted[low]) * (rank - low);
+  };
+
+  return {
+    mean: sorted.reduce((a, b) => a + b, 0) / sorted.length,
+    p10: percentile(0.1),
+    median: percentile(0.5),
+    p90: percentile(0.9),
+  };
+}
+
+export default frameHnr;
@@ -0,0 +1,244 @@
+/**
+ * Mel filterbank, log-mel energies and MFCCs
+ * Standard short-term spectral features for classifiers and similarity
+ * measures: a triangular mel filterbank over the power spectrum, log-mel
+ * energies, DCT-II cepstral coefficients and their deltas, per frame and
+ * summarized over the clip.
+ * Pure functions - operates on raw samples
+ */
+
+import { AudioBuffer } from './types';
+import { fft, nextPowerOfTwo } from './FFT';
+
+/**
+ * Mel feature configuration
+ */
+export interface MelConfig {
+  /** Analysis frame length in seconds */
+  frameSeconds: number;
+  /** Hop between frames in seconds */
+  hopSeconds: number;
+  /** Pre-emphasis coefficient (0 = off) */
+  preEmphasis: number;
+  /** Number of triangular mel filters */
+  melBands: number;
+  /** Lower edge of the first filter (Hz) */
+  minFreq: number;
+  /** Upper edge of the last filter (Hz), capped at Nyquist */
+  maxFreq: number;
+  /** Cepstral coefficients kept, including c0 */
+  coefficientCount: number;
+  /** Frames on each side used by the delta regression */
+  deltaRadius: number;
+}
+
+export const DEFAULT_MEL_CONFIG: MelConfig = {
+  frameSeconds: 0.025,
+  hopSeconds: 0.01,
+  preEmphasis: 0.97,
+  melBands: 40,
+  minFreq: 20,
+  maxFreq: 8000,
+  coefficientCount: 13,
+  deltaRadius: 2,
+};
+
+/** Floor on filter energies, so silent frames stay finite in the log domain */
+const ENERGY_FLOOR = 1e-10;
+
+/**
+ * Per-column mean and standard deviation of a frames × values matrix
+ */
+export interface MatrixSummary {
+  readonly mean: number[];
+  readonly std: number[];
+}
+
+/**
+ * Per-frame mel features (rows are frames) and clip-level summaries
+ */
+export interface MelFeatures {
+  /** Frame start times in seconds */
+  readonly times: number[];
+  /** Natural-log mel filter energies (frames × melBands) */
+  readonly logMel: number[][];
+  /** Cepstral coefficients c0..c(n-1) (frames × coefficientCount) */
+  readonly mfcc: number[][];
+  /** First-order deltas of the MFCCs */
+  readonly deltas: number[][];
+  /** Second-order deltas (deltas of the deltas) */
+  readonly deltaDeltas: number[][];
+  readonly summary: {
+    readonly logMel: MatrixSummary;
+    readonly mfcc: MatrixSummary;
+    readonly deltas: MatrixSummary;
+    readonly deltaDeltas: MatrixSummary;
+  };
+}
+
+/**
+ * Hz to mel (HTK formula)
+ */
+export function hzToMel(hz: number): number {
+  return 2595 * Math.log10(1 + hz / 700);
+}
+
+/**
+ * Mel to Hz (HTK formula)
+ */
+export function melToHz(mel: number): number {
+  return 700 * (Math.pow(10, mel / 2595) - 1);
+}
+
+/**
+ * Triangular filters equally spaced on the mel scale
+ * Each filter holds one weight per FFT bin 0..fftSize/2 and peaks at 1
+ * at its center frequency; neighbours overlap by half.
+ */
+export function melFilterbank(
+  sampleRate: number,
+  fftSize: number,
+  config: Partial<MelConfig> = {}
+): Float64Array[] {
+  const cfg = { ...DEFAULT_MEL_CONFIG, ...config };
+  const maxFreq = Math.min(cfg.maxFreq, sampleRate / 2);
+  const minMel = hzToMel(cfg.minFreq);
+  const maxMel = hzToMel(maxFreq);
+  const edges = Array.from({ length: cfg.melBands + 2 }, (_, i) =>
+    melToHz(minMel + ((maxMel - minMel) * i) / (cfg.melBands + 1))
+  );
+
+  const binCount = fftSize / 2 + 1;
+  return Array.from({ length: cfg.melBands }, (_, band) => {
+    const [low, center, high] = [edges[band], edges[band + 1], edges[band + 2]];
+    const weights = new Float64Array(binCount);
+    for (let k = 0; k < binCount; k++) {
+      const freq = (k * sampleRate) / fftSize;
+      if (freq > low && freq < high) {
+        weights[k] = freq <= center ? (freq - low) / (center - low) : (high - freq) / (high - center);
+      }
+    }
+    return weights;
+  });
+}
+
+/**
+ * Power spectrum (bins 0..fftSize/2) of a pre-emphasized, Hann-windowed frame
+ */
+function powerSpectrum(frame: Float32Array, fftSize: number, preEmphasis: number): Float64Array {
+  const n = frame.length;
+  const real = new Float64Array(fftSize);
+  const imag = new Float64Array(fftSize);
+  for (let i = 0; i < n; i++) {
+    const emphasized = frame[i] - (i > 0 ? preEmphasis * frame[i - 1] : 0);
+    real[i] = emphasized * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+  }
+
+  fft(real, imag);
+  const power = new Float64Array(fftSize / 2 + 1);
+  for (let k = 0; k < power.length; k++) {
+    power[k] = real[k] * real[k] + imag[k] * imag[k];
+  }
+  return power;
+}
+
+/**
+ * Natural-log energies of a power spectrum through a filterbank
+ */
+export function logMelEnergies(power: Float64Array, filterbank: readonly Float64Array[]): number[] {
+  return filterbank.map(weights => {
+    let energy = 0;
+    for (let k = 0; k < weights.length; k++) energy += weights[k] * power[k];
+    return Math.log(Math.max(energy, ENERGY_FLOOR));
+  });
+}
+
+/**
+ * First `count` coefficients of the orthonormal DCT-II
+ */
+export function dct(values: readonly number[], count: number): number[] {
+  const n = values.length;
+  return Array.from({ length: Math.min(count, n) }, (_, k) => {
+    let sum = 0;
+    for (let i = 0; i < n; i++) {
+      sum += values[i] * Math.cos((Math.PI * k * (2 * i + 1)) / (2 * n));
+    }
+    return sum * Math.sqrt((k === 0 ? 1 : 2) / n);
+  });
+}
+
+/**
+ * Delta features by linear regression over `radius` frames on each side
+ * d[t] = Σ n·(c[t+n] - c[t-n]) / (2·Σ n²); edge frames are repeated.
+ */
+export function computeDeltas(matrix: readonly (readonly number[])[], radius: number): number[][] {
+  const frameCount = matrix.length;
+  if (frameCount === 0 || radius < 1) return matrix.map(row => row.map(() => 0));
+
+  let denominator = 0;
+  for (let n = 1; n <= radius; n++) denominator += 2 * n * n;
+  const at = (t: number) => matrix[Math.max(0, Math.min(frameCount - 1, t))];
+
+  return matrix.map((row, t) =>
+    row.map((_, j) => {
+      let sum = 0;
+      for (let n = 1; n <= radius; n++) sum += n * (at(t + n)[j] - at(t - n)[j]);
+      return sum / denominator;
+    })
+  );
+}
+
+/**
+ * Column means and (population) standard deviations; zeros without frames
+ */
+export function summarizeMatrix(matrix: readonly (readonly number[])[], columns: number): MatrixSummary {
+  const mean = new Array<number>(columns).fill(0);
+  const std = new Array<number>(columns).fill(0);
+  if (matrix.length === 0) return { mean, std };
+
+  for (const row of matrix) row.forEach((v, j) => (mean[j] += v / matrix.length));
+  for (const row of matrix) row.forEach((v, j) => (std[j] += (v - mean[j]) ** 2 / matrix.length));
+  return { mean, std: std.map(Math.sqrt) };
+}
+
+/**
+ * Log-mel energies, MFCCs and deltas for every frame of a mono buffer
+ * No frames (and zero summaries) when the buffer is shorter than one frame.
+ */
+export function extractMelFeatures(audioBuffer: AudioBuffer, config: Partial<MelConfig> = {}): MelFeatures {
+  const cfg = { ...DEFAULT_MEL_CONFIG, ...config };
+  const { samples, sampleRate } = audioBuffer;
+  const frameSize = Math.round(cfg.frameSeconds * sampleRate);
+  const hopSize = Math.max(1, Math.round(cfg.hopSeconds * sampleRate));
+  const fftSize = nextPowerOfTwo(frameSize);
+  const filterbank = melFilterbank(sampleRate, fftSize, cfg);
+  const coefficientCount = Math.min(cfg.coefficientCount, cfg.melBands);
+
+  const times: number[] = [];
+  const logMel: number[][] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const power = powerSpectrum(samples.subarray(start, start + frameSize), fftSize, cfg.preEmphasis);
+    times.push(start / sampleRate);
+    logMel.push(logMelEnergies(power, filterbank));
+  }
+
+  const mfcc = logMel.map(row => dct(row, coefficientCount));
+  const deltas = computeDeltas(mfcc, cfg.deltaRadius);
+  const deltaDeltas = computeDeltas(deltas, cfg.deltaRadius);
+
+  return {
+    times,
+    logMel,
+    mfcc,
+    deltas,
+    deltaDeltas,
+    summary: {
+      logMel: summarizeMatrix(logMel, cfg.melBands),
+      mfcc: summarizeMatrix(mfcc, coefficientCount),
+      deltas: summarizeMatrix(deltas, coefficientCount),
+      deltaDeltas: summarizeMatrix(deltaDeltas, coefficientCount),
+    },
+  };
+}
+
+export default extractMelFeatures;
@@ -0,0 +1,119 @@
+/**
+ * Background noise estimation
+ * Minimum statistics on smoothed frame power: the noise floor is where the
+ * smoothed power bottoms out between words. Non-speech frames from the VAD
+ * are used; with too few of them the room cannot be measured, and the
+ * floor and SNR are reported as unknown (null).
+ * Pure functions - operates on per-frame RMS values
+ */
+
+/**
+ * Noise estimate for a clip
+ */
+export interface NoiseEstimate {
+  /** Estimated background noise level in dBFS; null when it cannot be measured */
+  readonly noiseFloorDb: number | null;
+  /** Mean level of speech (or active) frames in dBFS */
+  readonly speechLevelDb: number;
+  /** Speech-to-noise ratio in dB; null when the floor cannot be measured */
+  readonly snrDb: number | null;
+}
+
+/** Power smoothing before minimum tracking (0-1, higher = smoother) */
+const SMOOTHING = 0.5;
+/** Minimum-tracking window in frames (~1.5 s at 32 ms hop) */
+const MIN_WINDOW_FRAMES = 48;
+/** Minimum statistics under-estimate the mean noise power; compensate */
+const MIN_BIAS = 1.5;
+/** Non-speech frames needed to measure the floor from the VAD's pauses */
+const MIN_NOISE_FRAMES = 8;
+/** Frames this far above the floor count as active when no VAD mask is given */
+const ACTIVE_MARGIN = 4; // 6 dB in power
+
+const POWER_FLOOR = 1e-12; // -120 dBFS
+const SNR_RANGE_DB = { min: -20, max: 80 };
+
+function toDb(power: number): number {
+  return 10 * Math.log10(Math.max(power, POWER_FLOOR));
+}
+
+/**
+ * Minimum statistics over a power sequence
+ * Mean of the sliding-window minima of the smoothed power, bias-compensated.
+ */
+function minimumStatistics(powers: readonly number[]): number {
+  if (powers.length === 0) return 0;
+
+  const smoothed: number[] = [];
+  let state = powers[0];
+  for (const p of powers) {
+    state = SMOOTHING * state + (1 - SMOOTHING) * p;
+    smoothed.push(state);
+  }
+
+  const half = Math.floor(MIN_WINDOW_FRAMES / 2);
+  let sum = 0;
+  for (let i = 0; i < smoothed.length; i++) {
+    let min = Infinity;
+    const end = Math.min(smoothed.length, i + half + 1);
+    for (let j = Math.max(0, i - half); j < end; j++) {
+      min = Math.min(min, smoothed[j]);
+    }
+    sum += min;
+  }
+
+  return (sum / smoothed.length) * MIN_BIAS;
+}
+
+/**
+ * Estimate noise floor and SNR from frame RMS values
+ * @param frameRms Per-frame RMS of the analyzed audio
+ * @param isSpeech Optional VAD labels; non-speech frames are used for the floor,
+ *   speech frames for the signal level. With fewer than MIN_NOISE_FRAMES
+ *   pauses (continuous speech, very short clips) the floor is unknown:
+ *   the speech itself would otherwise be mistaken for room noise.
+ * Without labels the floor comes from all frames, so stationary input with
+ * no pauses (e.g. a sustained tone) cannot be separated from noise and
+ * reports a low SNR. Silent or empty input has no measurable floor.
+ */
+export function estimateNoise(
+  frameRms: readonly number[],
+  isSpeech?: readonly boolean[]
+): NoiseEstimate {
+  const powers = frameRms.map(r => r * r);
+  if (powers.length === 0 || powers.every(p => p === 0)) {
+    return { noiseFloorDb: null, speechLevelDb: toDb(0), snrDb: null };
+  }
+
+  const noiseFrames = isSpeech ? powers.filter((_, i) => !isSpeech[i]) : powers;
+  if (isSpeech && noiseFrames.length < MIN_NOISE_FRAMES) {
+    const speech = powers.filter((_, i) => isSpeech[i]);
+    const level = speech.reduce((a, b) => a + b, 0) / Math.max(speech.length, 1);
+    return { noiseFloorDb: null, speechLevelDb: toDb(level), snrDb: null };
+  }
+  const meanPower = powers.reduce((a, b) => a + b, 0) / powers.length;
+  const noisePower = Math.min(minimumStatistics(noiseFrames), meanPower);
+
+  const speechPowers = isSpeech && isSpeech.some(Boolean)
+    ? powers.filter((_, i) => isSpeech[i])
+    : powers.filter(p => p > noisePower * ACTIVE_MARGIN);
+  if (speechPowers.length === 0) {
+    // Nothing stands out from the floor: signal and noise are indistinguishable
+    return { noiseFloorDb: toDb(noisePower), speechLevelDb: toDb(meanPower), snrDb: 0 };
+  }
+  const speechPower = speechPowers.reduce((a, b) => a + b, 0) / speechPowers.length;
+
+  const cleanPower = Math.max(speechPower - noisePower, POWER_FLOOR);
+  const snrDb = Math.max(
+    SNR_RANGE_DB.min,
+    Math.min(SNR_RANGE_DB.max, toDb(cleanPower) - toDb(noisePower))
+  );
+
+  return {
+    noiseFloorDb: toDb(noisePower),
+    speechLevelDb: toDb(speechPower),
+    snrDb,
+  };
+}
+
+export default estimateNoise;
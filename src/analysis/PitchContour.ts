@@ -0,0 +1,166 @@
+/**
+ * Pitch contour cleanup
+ * Repairs the per-frame pitch track before clip-level statistics: a single
+ * octave error would otherwise dominate pitch variance and jitter.
+ * Pure functions - operates on per-frame pitches (0 = unvoiced)
+ */
+
+/**
+ * Contour cleanup configuration
+ */
+export interface PitchContourConfig {
+  /** Voiced frames on each side of a frame used for its reference median */
+  referenceRadius: number;
+  /** Largest distance from the reference (in octaves) a shifted pitch may land at */
+  octaveTolerance: number;
+  /** Voiced runs shorter than this are dropped as spurious */
+  minSegmentFrames: number;
+  /** Unvoiced runs up to this long inside speech are filled in */
+  maxGapFrames: number;
+  /** Median filter radius within voiced segments (0 = off) */
+  medianRadius: number;
+  /** A median-filter change larger than this ratio counts as a corrected outlier */
+  outlierRatio: number;
+}
+
+export const DEFAULT_PITCH_CONTOUR_CONFIG: PitchContourConfig = {
+  referenceRadius: 8, // ~0.25 s each side at 16 kHz / 512 hop
+  octaveTolerance: 0.25,
+  minSegmentFrames: 3,
+  maxGapFrames: 2,
+  medianRadius: 2,
+  outlierRatio: 0.1,
+};
+
+/**
+ * Cleaned contour and what was changed
+ */
+export interface PitchContourResult {
+  /** Cleaned per-frame pitches (0 = unvoiced) */
+  readonly pitches: number[];
+  /** Frames shifted by an octave, dropped, bridged, or replaced as outliers */
+  readonly correctedFrames: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Runs of consecutive voiced frames as [start, end] (inclusive)
+ */
+function voicedSegments(pitches: readonly number[]): [number, number][] {
+  const segments: [number, number][] = [];
+  let start = -1;
+  pitches.forEach((p, i) => {
+    if (p > 0 && start < 0) start = i;
+    if (p <= 0 && start >= 0) {
+      segments.push([start, i - 1]);
+      start = -1;
+    }
+  });
+  if (start >= 0) segments.push([start, pitches.length - 1]);
+  return segments;
+}
+
+/**
+ * Move each voiced pitch by whole octaves towards the running median of its
+ * voiced neighbours, when that lands it within octaveTolerance
+ */
+function correctOctaves(pitches: number[], cfg: PitchContourConfig, corrected: Set<number>): void {
+  const voiced = pitches.map((p, i) => (p > 0 ? i : -1)).filter(i => i >= 0);
+  const original = voiced.map(i => pitches[i]);
+
+  voiced.forEach((frame, k) => {
+    const from = Math.max(0, k - cfg.referenceRadius);
+    const to = Math.min(original.length, k + cfg.referenceRadius + 1);
+    const reference = median(original.slice(from, to));
+    const octaves = Math.log2(original[k] / reference);
+    const shift = Math.round(octaves);
+
+    if (shift !== 0 && Math.abs(octaves - shift) <= cfg.octaveTolerance) {
+      pitches[frame] = original[k] / Math.pow(2, shift);
+      corrected.add(frame);
+    }
+  });
+}
+
+/**
+ * Unvoice voiced runs too short to be speech
+ */
+function dropShortSegments(pitches: number[], cfg: PitchContourConfig, corrected: Set<number>): void {
+  for (const [start, end] of voicedSegments(pitches)) {
+    if (end - start + 1 < cfg.minSegmentFrames) {
+      for (let i = start; i <= end; i++) {
+        pitches[i] = 0;
+        corrected.add(i);
+      }
+    }
+  }
+}
+
+/**
+ * Fill short unvoiced gaps between voiced frames, geometrically interpolated
+ */
+function bridgeGaps(pitches: number[], cfg: PitchContourConfig, corrected: Set<number>): void {
+  const segments = voicedSegments(pitches);
+  for (let s = 1; s < segments.length; s++) {
+    const before = segments[s - 1][1];
+    const after = segments[s][0];
+    const gap = after - before - 1;
+    if (gap > cfg.maxGapFrames) continue;
+
+    const ratio = pitches[after] / pitches[before];
+    for (let i = before + 1; i < after; i++) {
+      pitches[i] = pitches[before] * Math.pow(ratio, (i - before) / (after - before));
+      corrected.add(i);
+    }
+  }
+}
+
+/**
+ * Median filter within each voiced segment; large changes count as outliers
+ */
+function medianFilter(pitches: number[], cfg: PitchContourConfig, corrected: Set<number>): void {
+  if (cfg.medianRadius <= 0) return;
+
+  for (const [start, end] of voicedSegments(pitches)) {
+    const segment = pitches.slice(start, end + 1);
+    segment.forEach((p, k) => {
+      // Window shrinks symmetrically at segment edges, so end frames are kept
+      const radius = Math.min(cfg.medianRadius, k, segment.length - 1 - k);
+      const window = segment.slice(k - radius, k + radius + 1);
+      const filtered = median(window);
+      if (Math.abs(filtered - p) / p > cfg.outlierRatio) {
+        corrected.add(start + k);
+      }
+      pitches[start + k] = filtered;
+    });
+  }
+}
+
+/**
+ * Clean a per-frame pitch contour
+ * Octave jumps are folded back towards the running median first, so the
+ * later stages see a consistent contour; then spurious short segments are
+ * dropped, short gaps bridged, and the result median filtered.
+ */
+export function cleanPitchContour(
+  pitches: readonly number[],
+  config: Partial<PitchContourConfig> = {}
+): PitchContourResult {
+  const cfg = { ...DEFAULT_PITCH_CONTOUR_CONFIG, ...config };
+  const cleaned = pitches.map(p => (p > 0 ? p : 0));
+  const corrected = new Set<number>();
+
+  correctOctaves(cleaned, cfg, corrected);
+  dropShortSegments(cleaned, cfg, corrected);
+  bridgeGaps(cleaned, cfg, corrected);
+  medianFilter(cleaned, cfg, corrected);
+
+  return { pitches: cleaned, correctedFrames: corrected.size };
+}
+
+export default cleanPitchContour;
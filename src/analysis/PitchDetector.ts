@@ -1,8 +1,13 @@
 /**
- * Lightweight pitch detection using YIN-inspired autocorrelation
+ * Lightweight pitch detection: YIN, autocorrelation, McLeod (MPM) and cepstral
+ * single-frame detectors. PitchTracking selects between them.
  * Pure TypeScript implementation - no native dependencies
  */
 
+import { PitchCandidate } from './types';
+import { fft, ifft, nextPowerOfTwo } from './FFT';
+import { PitchTracker } from './PitchTracking';
+
 /**
  * Pitch detection result
  */
@@ -13,6 +18,8 @@ export interface PitchResult {
   readonly confidence: number;
   /** Whether this frame is considered voiced */
   readonly isVoiced: boolean;
+  /** All hypotheses considered, from probabilistic trackers (pYIN) */
+  readonly candidates?: readonly PitchCandidate[];
 }
 
 /**
@@ -40,14 +47,97 @@ const DEFAULT_CONFIG: YINConfig = {
 };
 
 /**
- * Calculate difference function (step 1 of YIN)
+ * Mean power below which a frame is digital silence (-200 dBFS)
+ * The normalized difference is scale-invariant, so without this floor
+ * filter tails decaying toward zero would still report a pitch.
+ */
+const SILENCE_POWER = 1e-20;
+
+/**
+ * Buffers reused across frames, grown on demand
+ * Float64 keeps the energy-minus-correlation subtraction accurate.
+ */
+interface YinScratch {
+  real: Float64Array;
+  imag: Float64Array;
+  energy: Float64Array;
+  diff: Float64Array;
+  cmnd: Float64Array;
+}
+
+let scratch: YinScratch | null = null;
+
+function getScratch(fftSize: number): YinScratch {
+  if (!scratch || scratch.real.length < fftSize) {
+    scratch = {
+      real: new Float64Array(fftSize),
+      imag: new Float64Array(fftSize),
+      energy: new Float64Array(fftSize + 1),
+      diff: new Float64Array(fftSize),
+      cmnd: new Float64Array(fftSize),
+    };
+  }
+  return scratch;
+}
+
+/**
+ * Calculate difference function (step 1 of YIN) for lags 0..lagCount-1
+ * d(tau) = sum of x[i]^2 + x[i+tau]^2 - 2 x[i] x[i+tau] over the overlap:
+ * the energy terms come from prefix sums, the cross term from an FFT
+ * autocorrelation, so the cost is O(N log N) instead of O(N * lags).
+ * Writes into (and returns a view of) the scratch diff buffer.
  */
-function differenceFunction(samples: Float32Array, frameSize: number): Float32Array {
-  const diff = new Float32Array(frameSize);
+function differenceFunction(
+  samples: Float32Array,
+  frameSize: number,
+  lagCount: number,
+  buffers: YinScratch
+): Float64Array {
+  const n = Math.min(frameSize, samples.length);
+  const size = nextPowerOfTwo(2 * n);
+  const { real, imag, energy, diff } = buffers;
+
+  // Linear autocorrelation: zero-pad to 2N, |X|^2, inverse FFT
+  real.fill(0, 0, size);
+  imag.fill(0, 0, size);
+  energy[0] = 0;
+  for (let i = 0; i < n; i++) {
+    real[i] = samples[i];
+    energy[i + 1] = energy[i] + samples[i] * samples[i];
+  }
+  const re = real.subarray(0, size);
+  const im = imag.subarray(0, size);
+  fft(re, im);
+  for (let k = 0; k < size; k++) {
+    re[k] = re[k] * re[k] + im[k] * im[k];
+    im[k] = 0;
+  }
+  ifft(re, im);
 
-  for (let tau = 0; tau < frameSize; tau++) {
+  const lags = Math.min(lagCount, n);
+  for (let tau = 0; tau < lags; tau++) {
+    const head = energy[n - tau];
+    const tail = energy[n] - energy[tau];
+    diff[tau] = Math.max(0, head + tail - 2 * re[tau]);
+  }
+  return diff.subarray(0, lags);
+}
+
+/**
+ * Direct O(N * lags) difference function, kept as the reference for
+ * equivalence tests and benchmarks
+ */
+export function yinDifferenceDirect(
+  samples: Float32Array,
+  frameSize: number,
+  lagCount: number
+): Float64Array {
+  const n = Math.min(frameSize, samples.length);
+  const diff = new Float64Array(Math.min(lagCount, n));
+
+  for (let tau = 0; tau < diff.length; tau++) {
     let sum = 0;
-    for (let i = 0; i < frameSize - tau; i++) {
+    for (let i = 0; i < n - tau; i++) {
       const delta = samples[i] - samples[i + tau];
       sum += delta * delta;
     }
@@ -58,26 +148,45 @@ function differenceFunction(samples: Float32Array, frameSize: number): Float32Ar
 }
 
 /**
- * Cumulative mean normalized difference (step 2 of YIN)
+ * FFT-based difference function (copy of the values detectPitchYIN uses)
  */
-function cumulativeMeanNormalized(diff: Float32Array): Float32Array {
-  const cmnd = new Float32Array(diff.length);
-  cmnd[0] = 1;
+export function yinDifference(samples: Float32Array, frameSize: number, lagCount: number): Float64Array {
+  const n = Math.min(frameSize, samples.length);
+  return differenceFunction(samples, frameSize, lagCount, getScratch(nextPowerOfTwo(2 * n))).slice();
+}
+
+/**
+ * Cumulative mean normalized difference (step 2 of YIN), into cmnd
+ */
+function cumulativeMeanNormalized(diff: Float64Array, cmnd: Float64Array): Float64Array {
+  const out = cmnd.subarray(0, diff.length);
+  out[0] = 1;
 
   let runningSum = 0;
   for (let tau = 1; tau < diff.length; tau++) {
     runningSum += diff[tau];
-    cmnd[tau] = diff[tau] / (runningSum / tau);
+    out[tau] = runningSum > 0 ? diff[tau] / (runningSum / tau) : 1;
   }
 
-  return cmnd;
+  return out;
+}
+
+/**
+ * Cumulative mean normalized difference for lags 0..lagCount-1
+ * Steps 1-2 of YIN, shared with the probabilistic variant (pYIN).
+ */
+export function yinCmnd(samples: Float32Array, frameSize: number, lagCount: number): Float64Array {
+  const n = Math.min(frameSize, samples.length);
+  const buffers = getScratch(nextPowerOfTwo(2 * n));
+  const diff = differenceFunction(samples, frameSize, lagCount, buffers);
+  return cumulativeMeanNormalized(diff, buffers.cmnd).slice();
 }
 
 /**
  * Find first minimum below threshold (step 3 of YIN)
  */
 function findFirstMinimum(
-  cmnd: Float32Array,
+  cmnd: Float64Array,
   threshold: number,
   minLag: number,
   maxLag: number
@@ -119,11 +228,16 @@ export function detectPitchYIN(
     cfg.frameSize - 1
   );
 
-  // Step 1: Difference function
-  const diff = differenceFunction(samples, cfg.frameSize);
+  // Step 1: Difference function, only up to the lags the search reads
+  const n = Math.min(cfg.frameSize, samples.length);
+  const buffers = getScratch(nextPowerOfTwo(2 * n));
+  const diff = differenceFunction(samples, cfg.frameSize, maxLag + 1, buffers);
+  if (buffers.energy[n] < n * SILENCE_POWER) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
 
   // Step 2: Cumulative mean normalized difference
-  const cmnd = cumulativeMeanNormalized(diff);
+  const cmnd = cumulativeMeanNormalized(diff, buffers.cmnd);
 
   // Step 3: Find first minimum below threshold
   const minimum = findFirstMinimum(cmnd, cfg.threshold, minLag, maxLag);
@@ -144,47 +258,56 @@ export function detectPitchYIN(
 
 /**
  * Detect pitch across multiple frames and return statistics
+ * Uses YIN unless a tracker (see PitchTracking) is given.
  */
 export function detectPitchFrames(
   samples: Float32Array,
   sampleRate: number,
   frameSize = 1024,
-  hopSize = 512
+  hopSize = 512,
+  tracker?: PitchTracker
 ): {
   pitches: number[];
   confidences: number[];
   voicedFrames: number;
   totalFrames: number;
 } {
-  const pitches: number[] = [];
-  const confidences: number[] = [];
-  let voicedFrames = 0;
-
   const totalFrames = Math.floor((samples.length - frameSize) / hopSize) + 1;
 
+  let results: PitchResult[] = [];
   for (let i = 0; i < totalFrames; i++) {
     const start = i * hopSize;
     const frame = samples.subarray(start, start + frameSize);
 
-    const result = detectPitchYIN(frame, {
-      sampleRate,
-      frameSize,
-    });
-
-    pitches.push(result.pitch);
-    confidences.push(result.confidence);
+    results.push(
+      tracker ? tracker.detect(frame, sampleRate) : detectPitchYIN(frame, { sampleRate, frameSize })
+    );
+  }
 
-    if (result.isVoiced) {
-      voicedFrames++;
-    }
+  // Sequence trackers (pYIN) decode the whole track once all frames are in
+  if (tracker?.smooth) {
+    results = tracker.smooth(results);
   }
 
-  return { pitches, confidences, voicedFrames, totalFrames };
+  return {
+    pitches: results.map(r => r.pitch),
+    confidences: results.map(r => r.confidence),
+    voicedFrames: results.filter(r => r.isVoiced).length,
+    totalFrames,
+  };
+}
+
+/**
+ * Result with the pitch zeroed for unvoiced frames, as PitchResult promises
+ */
+function voicedResult(pitch: number, confidence: number, isVoiced: boolean): PitchResult {
+  return { pitch: isVoiced ? pitch : 0, confidence, isVoiced };
 }
 
 /**
  * Simple autocorrelation pitch detection (fallback)
- * Faster but less accurate than YIN
+ * Faster but less accurate than YIN. Takes the strongest autocorrelation
+ * peak in the lag range; confidence is that peak normalized by energy.
  */
 export function detectPitchAutocorrelation(
   samples: Float32Array,
@@ -193,33 +316,179 @@ export function detectPitchAutocorrelation(
   maxFreq = 600
 ): PitchResult {
   const minLag = Math.floor(sampleRate / maxFreq);
-  const maxLag = Math.ceil(sampleRate / minFreq);
-
-  let bestLag = 0;
-  let bestCorrelation = -Infinity;
+  const maxLag = Math.min(Math.ceil(sampleRate / minFreq), samples.length - 2);
 
-  for (let lag = minLag; lag <= maxLag && lag < samples.length; lag++) {
+  const correlationAt = (lag: number): number => {
     let correlation = 0;
     for (let i = 0; i < samples.length - lag; i++) {
       correlation += samples[i] * samples[i + lag];
     }
+    return correlation;
+  };
+
+  const energy = correlationAt(0);
+  if (energy === 0 || maxLag <= minLag) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
 
-    if (correlation > bestCorrelation) {
-      bestCorrelation = correlation;
+  let bestLag = 0;
+  let bestCorrelation = 0;
+  let prev = correlationAt(minLag - 1);
+  let curr = correlationAt(minLag);
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const next = correlationAt(lag + 1);
+    // Local peaks only, so the edge of the lag range never wins
+    if (curr > prev && curr >= next && curr > bestCorrelation) {
+      bestCorrelation = curr;
       bestLag = lag;
     }
+    prev = curr;
+    curr = next;
   }
 
-  if (bestLag === 0 || bestCorrelation <= 0) {
+  if (bestLag === 0) {
     return { pitch: 0, confidence: 0, isVoiced: false };
   }
 
   const pitch = sampleRate / bestLag;
-  const confidence = Math.min(1, bestCorrelation / samples.length);
+  const confidence = Math.min(1, bestCorrelation / energy);
 
-  return {
-    pitch,
-    confidence,
-    isVoiced: confidence > 0.3 && pitch >= minFreq && pitch <= maxFreq,
-  };
+  return voicedResult(pitch, confidence, confidence > 0.5 && pitch >= minFreq && pitch <= maxFreq);
+}
+
+/** MPM picks the first key maximum within this fraction of the highest */
+const MPM_CUTOFF = 0.9;
+
+/**
+ * McLeod Pitch Method (MPM)
+ * Normalized square difference function; the first key maximum close to
+ * the highest is taken as the period. Confidence is the NSDF "clarity" there.
+ */
+export function detectPitchMPM(
+  samples: Float32Array,
+  sampleRate: number,
+  minFreq = 50,
+  maxFreq = 600
+): PitchResult {
+  const n = samples.length;
+  const minLag = Math.floor(sampleRate / maxFreq);
+  const maxLag = Math.min(Math.ceil(sampleRate / minFreq), n - 2);
+  if (maxLag <= minLag) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
+
+  // NSDF: 2 r(tau) / m(tau), in [-1, 1]
+  const nsdf = new Float32Array(maxLag + 2);
+  for (let tau = 0; tau < nsdf.length; tau++) {
+    let acf = 0;
+    let m = 0;
+    for (let i = 0; i < n - tau; i++) {
+      acf += samples[i] * samples[i + tau];
+      m += samples[i] * samples[i] + samples[i + tau] * samples[i + tau];
+    }
+    nsdf[tau] = m > 0 ? (2 * acf) / m : 0;
+  }
+
+  // Key maxima: highest point of each positive lobe after the first zero crossing
+  const keyMaxima: number[] = [];
+  let tau = 1;
+  while (tau < maxLag && nsdf[tau] > 0) tau++;
+  let lobeMax = -1;
+  for (; tau <= maxLag; tau++) {
+    if (nsdf[tau] > 0) {
+      if (lobeMax < 0 || nsdf[tau] > nsdf[lobeMax]) lobeMax = tau;
+    } else if (lobeMax >= 0) {
+      keyMaxima.push(lobeMax);
+      lobeMax = -1;
+    }
+  }
+  if (lobeMax >= 0) keyMaxima.push(lobeMax);
+
+  const candidates = keyMaxima.filter(k => k >= minLag);
+  if (candidates.length === 0) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
+
+  const highest = Math.max(...candidates.map(k => nsdf[k]));
+  const chosen = candidates.find(k => nsdf[k] >= MPM_CUTOFF * highest) ?? candidates[0];
+
+  // Parabolic interpolation around the chosen peak
+  const prev = nsdf[chosen - 1];
+  const curr = nsdf[chosen];
+  const next = nsdf[chosen + 1];
+  const denominator = prev - 2 * curr + next;
+  const delta = denominator !== 0 ? (prev - next) / (2 * denominator) : 0;
+
+  const pitch = sampleRate / (chosen + delta);
+  const confidence = Math.max(0, Math.min(1, curr));
+
+  return voicedResult(pitch, confidence, confidence > 0.6 && pitch >= minFreq && pitch <= maxFreq);
+}
+
+/** Cepstral peak prominence (natural-log units) that maps to confidence 1 */
+const CEPSTRAL_FULL_PROMINENCE = 0.3;
+
+/**
+ * Real cepstrum of a Hann-windowed frame: inverse FFT of the log magnitude
+ */
+function realCepstrum(samples: Float32Array): Float32Array {
+  const size = nextPowerOfTwo(samples.length);
+  const real = new Float32Array(size);
+  const imag = new Float32Array(size);
+  for (let i = 0; i < samples.length; i++) {
+    real[i] = samples[i] * 0.5 * (1 - Math.cos((2 * Math.PI * i) / (samples.length - 1)));
+  }
+
+  fft(real, imag);
+  for (let k = 0; k < size; k++) {
+    real[k] = Math.log(Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) + 1e-10);
+    imag[k] = 0;
+  }
+  ifft(real, imag);
+
+  return real;
+}
+
+/**
+ * Cepstral pitch detection
+ * The period shows up as a peak in the real cepstrum; confidence grows with
+ * how far that peak stands above the median of the searched quefrencies.
+ */
+export function detectPitchCepstral(
+  samples: Float32Array,
+  sampleRate: number,
+  minFreq = 50,
+  maxFreq = 600
+): PitchResult {
+  let energy = 0;
+  for (let i = 0; i < samples.length; i++) energy += samples[i] * samples[i];
+  if (energy === 0) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
+
+  const cepstrum = realCepstrum(samples);
+  const minQuefrency = Math.floor(sampleRate / maxFreq);
+  const maxQuefrency = Math.min(Math.ceil(sampleRate / minFreq), samples.length / 2);
+  if (maxQuefrency <= minQuefrency) {
+    return { pitch: 0, confidence: 0, isVoiced: false };
+  }
+
+  let peak = minQuefrency;
+  for (let q = minQuefrency; q <= maxQuefrency; q++) {
+    if (cepstrum[q] > cepstrum[peak]) peak = q;
+  }
+
+  const range = Array.from(cepstrum.subarray(minQuefrency, maxQuefrency + 1)).sort((a, b) => a - b);
+  const median = range[Math.floor(range.length / 2)];
+
+  const prev = cepstrum[peak - 1];
+  const curr = cepstrum[peak];
+  const next = cepstrum[peak + 1];
+  const denominator = prev - 2 * curr + next;
+  const delta = denominator !== 0 ? (prev - next) / (2 * denominator) : 0;
+
+  const pitch = sampleRate / (peak + delta);
+  const confidence = Math.max(0, Math.min(1, (curr - median) / CEPSTRAL_FULL_PROMINENCE));
+
+  return voicedResult(pitch, confidence, confidence > 0.4 && pitch >= minFreq && pitch <= maxFreq);
 }
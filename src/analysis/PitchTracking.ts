@@ -0,0 +1,114 @@
+/**
+ * Pitch tracker selection
+ * Registry of single-frame pitch detectors behind a common interface, the
+ * analysis config that picks one, and the low-confidence fallback policy.
+ */
+
+import {
+  PitchResult,
+  detectPitchYIN,
+  detectPitchAutocorrelation,
+  detectPitchMPM,
+  detectPitchCepstral,
+} from './PitchDetector';
+import { detectPitchPYIN, smoothPitchResults } from './ProbabilisticYin';
+
+export type PitchTrackerId = 'yin' | 'autocorrelation' | 'mpm' | 'cepstral' | 'pyin';
+
+/**
+ * A pitch detection algorithm for one analysis frame
+ * Sequence trackers also implement smooth(), which revises the per-frame
+ * results once the whole recording has been seen.
+ */
+export interface PitchTracker {
+  readonly id: PitchTrackerId;
+  detect(frame: Float32Array, sampleRate: number): PitchResult;
+  smooth?(results: readonly PitchResult[]): PitchResult[];
+}
+
+/**
+ * Pitch tracking configuration (part of the analysis config)
+ */
+export interface PitchTrackingConfig {
+  /** Primary algorithm */
+  tracker: PitchTrackerId;
+  /** Second algorithm for frames the primary is unsure about; null for none */
+  fallback: PitchTrackerId | null;
+  /** Primary results below this confidence (or unvoiced) are retried */
+  fallbackBelowConfidence: number;
+}
+
+export const DEFAULT_PITCH_TRACKING_CONFIG: PitchTrackingConfig = {
+  tracker: 'yin',
+  fallback: null,
+  fallbackBelowConfidence: 0.5,
+};
+
+const registry = new Map<PitchTrackerId, PitchTracker>();
+
+/**
+ * Register (or replace) a tracker implementation
+ */
+export function registerPitchTracker(tracker: PitchTracker): void {
+  registry.set(tracker.id, tracker);
+}
+
+/**
+ * Look up a registered tracker
+ */
+export function getPitchTracker(id: PitchTrackerId): PitchTracker {
+  const tracker = registry.get(id);
+  if (!tracker) {
+    throw new Error(`Unknown pitch tracker "${id}"`);
+  }
+  return tracker;
+}
+
+/**
+ * Ids of all registered trackers, in registration order
+ */
+export function listPitchTrackers(): PitchTrackerId[] {
+  return [...registry.keys()];
+}
+
+registerPitchTracker({
+  id: 'yin',
+  detect: (frame, sampleRate) => detectPitchYIN(frame, { sampleRate, frameSize: frame.length }),
+});
+registerPitchTracker({ id: 'autocorrelation', detect: detectPitchAutocorrelation });
+registerPitchTracker({ id: 'mpm', detect: detectPitchMPM });
+registerPitchTracker({ id: 'cepstral', detect: detectPitchCepstral });
+registerPitchTracker({
+  id: 'pyin',
+  detect: (frame, sampleRate) => detectPitchPYIN(frame, sampleRate),
+  smooth: results => smoothPitchResults(results),
+});
+
+/**
+ * Build the tracker described by a config, with its fallback policy applied
+ * A frame the primary calls unvoiced or scores below fallbackBelowConfidence
+ * is run through the fallback; the fallback's result is used if it is voiced.
+ */
+export function resolvePitchTracker(config: Partial<PitchTrackingConfig> = {}): PitchTracker {
+  const cfg = { ...DEFAULT_PITCH_TRACKING_CONFIG, ...config };
+  const primary = getPitchTracker(cfg.tracker);
+  if (cfg.fallback === null || cfg.fallback === cfg.tracker) {
+    return primary;
+  }
+
+  const fallback = getPitchTracker(cfg.fallback);
+  return {
+    id: primary.id,
+    detect(frame, sampleRate) {
+      const result = primary.detect(frame, sampleRate);
+      if (result.isVoiced && result.confidence >= cfg.fallbackBelowConfidence) {
+        return result;
+      }
+      const retry = fallback.detect(frame, sampleRate);
+      return retry.isVoiced ? retry : result;
+    },
+    smooth: primary.smooth,
+  };
+}
+
+export default resolvePitchTracker;
@@ -0,0 +1,288 @@
+/**
+ * Probabilistic YIN (pYIN)
+ * Instead of one threshold, YIN's dip search is run for a distribution of
+ * thresholds, giving several pitch candidates per frame with probabilities.
+ * A hidden Markov model over pitch bins (voiced and unvoiced copies) is then
+ * decoded with Viterbi, so the track favors small pitch steps and rare
+ * voicing changes: octave jumps and voicing flicker are smoothed away.
+ * Based on Mauch & Dixon, "pYIN" (ICASSP 2014), simplified for 32 ms hops.
+ */
+
+import { PitchCandidate } from './types';
+import { PitchResult, yinCmnd } from './PitchDetector';
+
+export interface PyinConfig {
+  /** Mean of the Beta(2, b) prior over YIN thresholds (pYIN uses 0.1-0.2) */
+  thresholdPriorMean: number;
+  /** Lowest pitch considered (Hz) */
+  minFreq: number;
+  /** Highest pitch considered (Hz) */
+  maxFreq: number;
+  /** Width of an HMM pitch bin in cents */
+  binCents: number;
+  /** Largest pitch step between consecutive frames in cents */
+  maxJumpCents: number;
+  /** Probability of switching between voiced and unvoiced per frame */
+  voicingSwitchProbability: number;
+}
+
+export const DEFAULT_PYIN_CONFIG: PyinConfig = {
+  thresholdPriorMean: 0.2,
+  minFreq: 50,
+  maxFreq: 600,
+  binCents: 20,
+  // One hop is 32 ms at 16 kHz; 4 semitones covers fast natural glides
+  maxJumpCents: 400,
+  voicingSwitchProbability: 0.02,
+};
+
+/**
+ * One frame of a decoded pitch track
+ */
+export interface PitchTrackFrame {
+  /** Pitch in Hz, 0 when unvoiced */
+  readonly pitch: number;
+  /** Probability that the frame is voiced (sum of candidate probabilities) */
+  readonly voicedProbability: number;
+  /** Voicing decision after smoothing */
+  readonly isVoiced: boolean;
+}
+
+/** Thresholds 0.01..1.00 */
+const THRESHOLD_COUNT = 100;
+/** Share of a threshold's weight given to the global minimum when no dip is below it */
+const ABSENT_DIP_PROBABILITY = 0.01;
+/** Floor for log probabilities */
+const LOG_FLOOR = Math.log(1e-30);
+
+/**
+ * Weights of the thresholds 0.01..1.00 under a Beta(2, b) prior
+ */
+function thresholdWeights(mean: number): number[] {
+  const b = 2 / mean - 2;
+  const raw = Array.from({ length: THRESHOLD_COUNT }, (_, k) => {
+    const t = (k + 1) / THRESHOLD_COUNT;
+    return t * Math.pow(1 - t, b - 1);
+  });
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  return raw.map(w => w / total);
+}
+
+function parabolicLag(cmnd: Float64Array, tau: number): number {
+  const prev = cmnd[tau - 1];
+  const curr = cmnd[tau];
+  const next = cmnd[tau + 1];
+  const denominator = prev - 2 * curr + next;
+  return denominator !== 0 ? tau + (prev - next) / (2 * denominator) : tau;
+}
+
+/**
+ * Pitch candidates for one frame with their probabilities
+ * For each threshold, the first CMND dip below it is the YIN answer; the
+ * threshold's prior weight goes to that dip. Empty for silence.
+ */
+export function pyinCandidates(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<PyinConfig> = {}
+): PitchCandidate[] {
+  const cfg = { ...DEFAULT_PYIN_CONFIG, ...config };
+  const n = samples.length;
+  const minLag = Math.max(2, Math.floor(sampleRate / cfg.maxFreq));
+  const maxLag = Math.min(Math.ceil(sampleRate / cfg.minFreq), n - 2);
+  if (maxLag <= minLag) return [];
+
+  const cmnd = yinCmnd(samples, n, maxLag + 2);
+
+  // Dips: local minima of the CMND within the lag range
+  const dips: number[] = [];
+  for (let tau = minLag; tau <= maxLag; tau++) {
+    if (cmnd[tau] < cmnd[tau - 1] && cmnd[tau] <= cmnd[tau + 1]) {
+      dips.push(tau);
+    }
+  }
+  if (dips.length === 0) return [];
+
+  const globalMin = dips.reduce((best, tau) => (cmnd[tau] < cmnd[best] ? tau : best), dips[0]);
+  const mass = new Map<number, number>();
+  const add = (tau: number, weight: number) => mass.set(tau, (mass.get(tau) ?? 0) + weight);
+
+  thresholdWeights(cfg.thresholdPriorMean).forEach((weight, k) => {
+    const threshold = (k + 1) / THRESHOLD_COUNT;
+    const dip = dips.find(tau => cmnd[tau] < threshold);
+    if (dip !== undefined) {
+      add(dip, weight);
+    } else {
+      add(globalMin, weight * ABSENT_DIP_PROBABILITY);
+    }
+  });
+
+  return [...mass.entries()].map(([tau, probability]) => ({
+    pitch: sampleRate / parabolicLag(cmnd, tau),
+    probability,
+  }));
+}
+
+/**
+ * Single-frame pYIN: the most probable candidate, voiced above 50%
+ */
+export function detectPitchPYIN(
+  samples: Float32Array,
+  sampleRate: number,
+  config: Partial<PyinConfig> = {}
+): PitchResult {
+  const candidates = pyinCandidates(samples, sampleRate, config);
+  if (candidates.length === 0) {
+    return { pitch: 0, confidence: 0, isVoiced: false, candidates };
+  }
+
+  const voicedProbability = Math.min(1, candidates.reduce((sum, c) => sum + c.probability, 0));
+  const best = candidates.reduce((a, b) => (b.probability > a.probability ? b : a));
+  const isVoiced = voicedProbability > 0.5;
+
+  return { pitch: isVoiced ? best.pitch : 0, confidence: voicedProbability, isVoiced, candidates };
+}
+
+/**
+ * Viterbi decoding of per-frame candidates into a smooth track
+ * States are pitch bins, each in a voiced and an unvoiced copy (the
+ * unvoiced copy remembers the pitch across short breaks). A voiced state
+ * is observed with the probability mass of candidates in its bin; an
+ * unvoiced state with the probability that the frame is unvoiced.
+ */
+export function decodePitchTrack(
+  frames: readonly (readonly PitchCandidate[])[],
+  config: Partial<PyinConfig> = {}
+): PitchTrackFrame[] {
+  const cfg = { ...DEFAULT_PYIN_CONFIG, ...config };
+  const binCount = Math.floor((1200 * Math.log2(cfg.maxFreq / cfg.minFreq)) / cfg.binCents) + 1;
+  const maxJump = Math.max(1, Math.round(cfg.maxJumpCents / cfg.binCents));
+  const frameCount = frames.length;
+  if (frameCount === 0) return [];
+
+  const binOf = (pitch: number): number =>
+    Math.max(0, Math.min(binCount - 1, Math.round((1200 * Math.log2(pitch / cfg.minFreq)) / cfg.binCents)));
+  const binPitch = (bin: number): number => cfg.minFreq * Math.pow(2, (bin * cfg.binCents) / 1200);
+
+  // Triangular pitch-step weights, normalized
+  const jumpLog: number[] = [];
+  let jumpTotal = 0;
+  for (let d = -maxJump; d <= maxJump; d++) jumpTotal += maxJump + 1 - Math.abs(d);
+  for (let d = -maxJump; d <= maxJump; d++) {
+    jumpLog.push(Math.log((maxJump + 1 - Math.abs(d)) / jumpTotal));
+  }
+  const stayLog = Math.log(1 - cfg.voicingSwitchProbability);
+  const switchLog = Math.log(cfg.voicingSwitchProbability);
+
+  const voicedProbabilities = frames.map(c =>
+    Math.min(1, c.reduce((sum, candidate) => sum + candidate.probability, 0))
+  );
+
+  // Observation log-likelihoods: voiced bins [0, binCount), unvoiced after
+  const observe = (t: number, into: Float64Array): void => {
+    const voicedMass = new Float64Array(binCount);
+    for (const candidate of frames[t]) {
+      if (candidate.pitch > 0) voicedMass[binOf(candidate.pitch)] += candidate.probability;
+    }
+    const unvoicedLog = Math.max(LOG_FLOOR, Math.log(Math.max(0, 1 - voicedProbabilities[t])));
+    for (let b = 0; b < binCount; b++) {
+      into[b] = voicedMass[b] > 0 ? Math.max(LOG_FLOOR, Math.log(voicedMass[b])) : LOG_FLOOR;
+      into[binCount + b] = unvoicedLog;
+    }
+  };
+
+  const stateCount = 2 * binCount;
+  const backPointers = new Int32Array(frameCount * stateCount);
+  const observation = new Float64Array(stateCount);
+  let delta = new Float64Array(stateCount);
+  let next = new Float64Array(stateCount);
+
+  observe(0, observation);
+  for (let s = 0; s < stateCount; s++) {
+    delta[s] = observation[s] - Math.log(stateCount);
+  }
+
+  for (let t = 1; t < frameCount; t++) {
+    observe(t, observation);
+    for (let s = 0; s < stateCount; s++) {
+      const voiced = s < binCount;
+      const bin = voiced ? s : s - binCount;
+      let best = -Infinity;
+      let bestFrom = 0;
+
+      for (let d = -maxJump; d <= maxJump; d++) {
+        const from = bin - d;
+        if (from < 0 || from >= binCount) continue;
+        const step = jumpLog[d + maxJump];
+        const sameLane = voiced ? from : binCount + from;
+        const otherLane = voiced ? binCount + from : from;
+
+        const stay = delta[sameLane] + step + stayLog;
+        if (stay > best) {
+          best = stay;
+          bestFrom = sameLane;
+        }
+        const change = delta[otherLane] + step + switchLog;
+        if (change > best) {
+          best = change;
+          bestFrom = otherLane;
+        }
+      }
+
+      next[s] = best + observation[s];
+      backPointers[t * stateCount + s] = bestFrom;
+    }
+    [delta, next] = [next, delta];
+  }
+
+  // Backtrack
+  let state = 0;
+  for (let s = 1; s < stateCount; s++) {
+    if (delta[s] > delta[state]) state = s;
+  }
+  const path = new Int32Array(frameCount);
+  for (let t = frameCount - 1; t >= 0; t--) {
+    path[t] = state;
+    if (t > 0) state = backPointers[t * stateCount + state];
+  }
+
+  return Array.from(path, (s, t) => {
+    const isVoiced = s < binCount;
+    if (!isVoiced) {
+      return { pitch: 0, voicedProbability: voicedProbabilities[t], isVoiced };
+    }
+    // Exact pitch of the most probable candidate near the decoded bin
+    const nearby = frames[t].filter(c => c.pitch > 0 && Math.abs(binOf(c.pitch) - s) <= 1);
+    const pitch =
+      nearby.length > 0
+        ? nearby.reduce((a, b) => (b.probability > a.probability ? b : a)).pitch
+        : binPitch(s);
+    return { pitch, voicedProbability: voicedProbabilities[t], isVoiced };
+  });
+}
+
+/**
+ * Smooth a sequence of per-frame results with Viterbi decoding
+ * Frames without candidates (e.g. from a fallback tracker) contribute their
+ * single pitch with its confidence as the probability.
+ */
+export function smoothPitchResults(
+  results: readonly PitchResult[],
+  config: Partial<PyinConfig> = {}
+): PitchResult[] {
+  const track = decodePitchTrack(
+    results.map(
+      r => r.candidates ?? (r.isVoiced ? [{ pitch: r.pitch, probability: r.confidence }] : [])
+    ),
+    config
+  );
+
+  return track.map((frame, i) => ({
+    pitch: frame.pitch,
+    confidence: frame.voicedProbability,
+    isVoiced: frame.isVoiced,
+    candidates: results[i].candidates,
+  }));
+}
+
+export default detectPitchPYIN;
@@ -0,0 +1,300 @@
+/**
+ * Spectral descriptors
+ * Shape of a frame's magnitude spectrum: centroid, bandwidth, rolloff,
+ * flatness, entropy and slope, the voice-quality band ratios used in
+ * eGeMAPS (alpha ratio, Hammarberg index), and spectral flux between
+ * consecutive frames.
+ * Pure functions - operates on raw frame samples and magnitude spectra
+ */
+
+import { fft, nextPowerOfTwo } from './FFT';
+
+/** Share of spectral energy below the rolloff frequency */
+const ROLLOFF_SHARE = 0.85;
+/** Upper edge of the band the slope is fitted over (Hz) */
+const SLOPE_MAX_FREQ = 5000;
+/** Alpha ratio bands (Hz): low 50-1000 against high 1000-5000 */
+const ALPHA_LOW: readonly [number, number] = [50, 1000];
+const ALPHA_HIGH: readonly [number, number] = [1000, 5000];
+/** Hammarberg bands (Hz): strongest peak in 0-2000 against 2000-5000 */
+const HAMMARBERG_LOW: readonly [number, number] = [0, 2000];
+const HAMMARBERG_HIGH: readonly [number, number] = [2000, 5000];
+/** Power floor relative to the spectrum's peak, so dB values stay finite (-120 dB) */
+const POWER_FLOOR = 1e-12;
+
+/**
+ * Spectral shape of one frame
+ */
+export interface SpectralDescriptors {
+  /** Magnitude-weighted mean frequency (Hz) */
+  readonly centroid: number;
+  /** Magnitude-weighted standard deviation around the centroid (Hz) */
+  readonly bandwidth: number;
+  /** Frequency below which 85% of the energy lies (Hz) */
+  readonly rolloff: number;
+  /** Geometric over arithmetic mean of the power spectrum (0 = tonal, 1 = white noise) */
+  readonly flatness: number;
+  /** Normalized spectral entropy (0 = single peak, 1 = flat / noise-like) */
+  readonly entropy: number;
+  /** Slope of the dB power spectrum over 0-5 kHz (dB/kHz; steeper negative = darker) */
+  readonly slope: number;
+  /** Energy in 50-1000 Hz over 1-5 kHz (dB) */
+  readonly alphaRatio: number;
+  /** Strongest peak in 0-2 kHz over strongest in 2-5 kHz (dB) */
+  readonly hammarbergIndex: number;
+}
+
+/**
+ * Magnitude spectrum of one frame
+ */
+export interface FrameSpectrum {
+  /** Bins 0..fftSize/2-1 */
+  readonly magnitude: Float32Array;
+  readonly fftSize: number;
+}
+
+/**
+ * Apply Hann window to samples
+ */
+function applyHannWindow(samples: Float32Array): Float32Array {
+  const windowed = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const windowVal = 0.5 * (1 - Math.cos((2 * Math.PI * i) / (samples.length - 1)));
+    windowed[i] = samples[i] * windowVal;
+  }
+  return windowed;
+}
+
+/**
+ * Calculate magnitude spectrum from FFT result
+ */
+function magnitudeSpectrum(real: Float32Array, imag: Float32Array): Float32Array {
+  const mag = new Float32Array(real.length / 2);
+  for (let i = 0; i < mag.length; i++) {
+    mag[i] = Math.sqrt(real[i] * real[i] + imag[i] * imag[i]);
+  }
+  return mag;
+}
+
+/**
+ * Magnitude spectrum of a Hann-windowed frame (bins 0..fftSize/2-1),
+ * zero-padded to a power of two
+ */
+export function frameSpectrum(samples: Float32Array): FrameSpectrum {
+  const fftSize = nextPowerOfTwo(samples.length);
+  const real = new Float32Array(fftSize);
+  const imag = new Float32Array(fftSize);
+  real.set(applyHannWindow(samples));
+
+  fft(real, imag);
+  return { magnitude: magnitudeSpectrum(real, imag), fftSize };
+}
+
+/**
+ * Calculate spectral centroid from magnitude spectrum
+ */
+export function spectralCentroid(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  let numerator = 0;
+  let denominator = 0;
+
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const freq = (i * sampleRate) / fftSize;
+    numerator += freq * magSpectrum[i];
+    denominator += magSpectrum[i];
+  }
+
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Normalized spectral entropy (0 = single peak, 1 = flat / noise-like)
+ */
+export function spectralEntropy(magSpectrum: Float32Array): number {
+  let total = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    total += magSpectrum[i] * magSpectrum[i];
+  }
+  if (total === 0 || magSpectrum.length < 2) return 1;
+
+  let entropy = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const p = (magSpectrum[i] * magSpectrum[i]) / total;
+    if (p > 0) entropy -= p * Math.log(p);
+  }
+  return entropy / Math.log(magSpectrum.length);
+}
+
+/**
+ * Magnitude-weighted spread around the centroid (Hz)
+ */
+export function spectralBandwidth(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  const centroid = spectralCentroid(magSpectrum, sampleRate, fftSize);
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const deviation = (i * sampleRate) / fftSize - centroid;
+    numerator += deviation * deviation * magSpectrum[i];
+    denominator += magSpectrum[i];
+  }
+  return denominator === 0 ? 0 : Math.sqrt(numerator / denominator);
+}
+
+/**
+ * Lowest frequency below which ROLLOFF_SHARE of the power lies (Hz)
+ */
+export function spectralRolloff(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  let total = 0;
+  for (let i = 0; i < magSpectrum.length; i++) total += magSpectrum[i] * magSpectrum[i];
+  if (total === 0) return 0;
+
+  let cumulative = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    cumulative += magSpectrum[i] * magSpectrum[i];
+    if (cumulative >= ROLLOFF_SHARE * total) return (i * sampleRate) / fftSize;
+  }
+  return ((magSpectrum.length - 1) * sampleRate) / fftSize;
+}
+
+/**
+ * Wiener entropy: geometric over arithmetic mean of the power spectrum
+ * Silence counts as flat, like spectral entropy.
+ */
+export function spectralFlatness(magSpectrum: Float32Array): number {
+  let peak = 0;
+  for (let i = 0; i < magSpectrum.length; i++) peak = Math.max(peak, magSpectrum[i] * magSpectrum[i]);
+  if (peak === 0) return 1;
+
+  const floor = peak * POWER_FLOOR;
+  let logSum = 0;
+  let sum = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const power = magSpectrum[i] * magSpectrum[i] + floor;
+    logSum += Math.log(power);
+    sum += power;
+  }
+  return Math.exp(logSum / magSpectrum.length) / (sum / magSpectrum.length);
+}
+
+/**
+ * Least-squares slope of the dB power spectrum against frequency over
+ * 0-5 kHz, in dB/kHz; 0 for silence
+ */
+export function spectralSlope(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  let peak = 0;
+  for (let i = 0; i < magSpectrum.length; i++) peak = Math.max(peak, magSpectrum[i] * magSpectrum[i]);
+  if (peak === 0) return 0;
+
+  const floor = peak * POWER_FLOOR;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXY = 0;
+  let sumXX = 0;
+  let count = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const khz = (i * sampleRate) / fftSize / 1000;
+    if (khz * 1000 > SLOPE_MAX_FREQ) break;
+    const db = 10 * Math.log10(magSpectrum[i] * magSpectrum[i] + floor);
+    sumX += khz;
+    sumY += db;
+    sumXY += khz * db;
+    sumXX += khz * khz;
+    count++;
+  }
+  const denominator = count * sumXX - sumX * sumX;
+  return denominator === 0 ? 0 : (count * sumXY - sumX * sumY) / denominator;
+}
+
+/**
+ * Sum or maximum of the power in [from, to) Hz
+ */
+function bandPower(
+  magSpectrum: Float32Array,
+  sampleRate: number,
+  fftSize: number,
+  [from, to]: readonly [number, number],
+  combine: 'sum' | 'max'
+): number {
+  let result = 0;
+  for (let i = 0; i < magSpectrum.length; i++) {
+    const freq = (i * sampleRate) / fftSize;
+    if (freq < from || freq >= to) continue;
+    const power = magSpectrum[i] * magSpectrum[i];
+    result = combine === 'sum' ? result + power : Math.max(result, power);
+  }
+  return result;
+}
+
+/**
+ * Ratio of two powers in dB; 0 when either band is empty
+ */
+function ratioDb(numerator: number, denominator: number): number {
+  return numerator > 0 && denominator > 0 ? 10 * Math.log10(numerator / denominator) : 0;
+}
+
+/**
+ * Alpha ratio: summed energy 50-1000 Hz over 1-5 kHz (dB)
+ * Falls as the voice gets brighter or more pressed.
+ */
+export function alphaRatio(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  return ratioDb(
+    bandPower(magSpectrum, sampleRate, fftSize, ALPHA_LOW, 'sum'),
+    bandPower(magSpectrum, sampleRate, fftSize, ALPHA_HIGH, 'sum')
+  );
+}
+
+/**
+ * Hammarberg index: strongest peak in 0-2 kHz over strongest in 2-5 kHz (dB)
+ * Falls as high-frequency harmonics gain strength (vocal effort).
+ */
+export function hammarbergIndex(magSpectrum: Float32Array, sampleRate: number, fftSize: number): number {
+  return ratioDb(
+    bandPower(magSpectrum, sampleRate, fftSize, HAMMARBERG_LOW, 'max'),
+    bandPower(magSpectrum, sampleRate, fftSize, HAMMARBERG_HIGH, 'max')
+  );
+}
+
+/**
+ * Spectral flux: Euclidean distance between the magnitude spectra of
+ * consecutive frames, each scaled to unit length, so only the change in
+ * shape counts, not in level (0 = steady, up to √2)
+ */
+export function spectralFlux(previous: Float32Array, current: Float32Array): number {
+  let previousNorm = 0;
+  let currentNorm = 0;
+  for (let i = 0; i < current.length; i++) {
+    previousNorm += previous[i] * previous[i];
+    currentNorm += current[i] * current[i];
+  }
+  if (previousNorm === 0 || currentNorm === 0) return 0;
+
+  previousNorm = Math.sqrt(previousNorm);
+  currentNorm = Math.sqrt(currentNorm);
+  let sum = 0;
+  for (let i = 0; i < current.length; i++) {
+    const difference = current[i] / currentNorm - previous[i] / previousNorm;
+    sum += difference * difference;
+  }
+  return Math.sqrt(sum);
+}
+
+/**
+ * All single-frame descriptors of a spectrum
+ * Flux needs the previous frame, so callers measure it with spectralFlux().
+ */
+export function describeSpectrum(
+  { magnitude, fftSize }: FrameSpectrum,
+  sampleRate: number
+): SpectralDescriptors {
+  return {
+    centroid: spectralCentroid(magnitude, sampleRate, fftSize),
+    bandwidth: spectralBandwidth(magnitude, sampleRate, fftSize),
+    rolloff: spectralRolloff(magnitude, sampleRate, fftSize),
+    flatness: spectralFlatness(magnitude),
+    entropy: spectralEntropy(magnitude),
+    slope: spectralSlope(magnitude, sampleRate, fftSize),
+    alphaRatio: alphaRatio(magnitude, sampleRate, fftSize),
+    hammarbergIndex: hammarbergIndex(magnitude, sampleRate, fftSize),
+  };
+}
+
+export default describeSpectrum;
@@ -0,0 +1,133 @@
+/**
+ * Incremental frame analysis
+ * Accepts PCM chunks as they arrive and analyzes each frame (FFT + pitch)
+ * as soon as it is complete, so that work is done by the end of capture.
+ * Energy and spectral means, centroid spread and the shimmer proxy are kept
+ * as running sums (see FrameSums); a snapshot only reruns the VAD, pitch
+ * contour cleanup and the voiced-frame statistics, which depend on the
+ * whole track. Frames are still kept for those, so memory grows with the
+ * recording.
+ * Chunks must be mono at the analysis rate.
+ */
+
+import { AcousticFeatures, FrameFeatures } from './types';
+import {
+  analyzeFrame,
+  smoothPitchTrack,
+  summarizeFrames,
+  FeatureExtractionOptions,
+  FRAME_SIZE,
+  HOP_SIZE,
+} from './FeatureExtractor';
+import { PitchTracker, resolvePitchTracker } from './PitchTracking';
+import { addFrameToSums, FrameSums, EMPTY_FRAME_SUMS } from './FrameSums';
+import {
+  updateClippingState,
+  toClippingReport,
+  ClippingState,
+  INITIAL_CLIPPING_STATE,
+} from '@/audio/ClippingDetector';
+
+export class StreamingFeatureExtractor {
+  readonly sampleRate: number;
+  private readonly options: Partial<FeatureExtractionOptions>;
+  private readonly tracker: PitchTracker;
+
+  private readonly frames: FrameFeatures[] = [];
+  private sums: FrameSums = EMPTY_FRAME_SUMS;
+  /** Magnitude spectrum of the last frame, for the next frame's flux */
+  private previousSpectrum: Float32Array | null = null;
+  /** Samples not yet consumed by a complete frame */
+  private pending = new Float32Array(0);
+  private totalSamples = 0;
+  private clipping: ClippingState = INITIAL_CLIPPING_STATE;
+
+  /**
+   * @param sampleRate Rate of the mono chunks that will be pushed
+   * @param options Same options extractFeatures() accepts
+   */
+  constructor(sampleRate: number, options: Partial<FeatureExtractionOptions> = {}) {
+    this.sampleRate = sampleRate;
+    this.options = options;
+    this.tracker = resolvePitchTracker(options.pitch);
+  }
+
+  /**
+   * Append a chunk of mono samples
+   * Chunks can be any length; frame overlap across chunk boundaries is kept.
+   */
+  push(chunk: Float32Array): void {
+    if (chunk.length === 0) return;
+
+    const combined = new Float32Array(this.pending.length + chunk.length);
+    combined.set(this.pending);
+    combined.set(chunk, this.pending.length);
+    this.totalSamples += chunk.length;
+    this.clipping = updateClippingState(this.clipping, chunk);
+
+    let start = 0;
+    while (start + FRAME_SIZE <= combined.length) {
+      const frame = combined.subarray(start, start + FRAME_SIZE);
+      const { features, spectrum } = analyzeFrame(
+        frame,
+        this.sampleRate,
+        this.tracker,
+        this.previousSpectrum
+      );
+      this.frames.push(features);
+      this.sums = addFrameToSums(this.sums, features);
+      this.previousSpectrum = spectrum;
+      start += HOP_SIZE;
+    }
+
+    // Keep the overlap (and any partial frame) for the next chunk
+    this.pending = combined.slice(start);
+  }
+
+  /**
+   * Features for everything pushed so far
+   * Identical to extractFeatures() on the concatenated samples. The VAD
+   * and contour cleanup still pass over every stored frame, and sequence
+   * trackers re-decode the whole track, so call it sparingly on long
+   * recordings.
+   */
+  snapshot(): AcousticFeatures {
+    return summarizeFrames(
+      smoothPitchTrack(this.frames, this.tracker),
+      this.sampleRate,
+      (this.totalSamples / this.sampleRate) * 1000,
+      toClippingReport(this.clipping),
+      this.options,
+      this.sums
+    );
+  }
+
+  /** Number of complete frames analyzed */
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /** Most recent frame, for live displays */
+  get latestFrame(): FrameFeatures | null {
+    return this.frames.length > 0 ? this.frames[this.frames.length - 1] : null;
+  }
+
+  /** Duration of audio pushed so far in milliseconds */
+  get durationMs(): number {
+    return (this.totalSamples / this.sampleRate) * 1000;
+  }
+
+  /**
+   * Drop all state (frames and buffered samples)
+   */
+  reset(): void {
+    this.frames.length = 0;
+    this.sums = EMPTY_FRAME_SUMS;
+    this.previousSpectrum = null;
+    this.pending = new Float32Array(0);
+    this.totalSamples = 0;
+    this.clipping = INITIAL_CLIPPING_STATE;
+  }
+}
+
+export default StreamingFeatureExtractor;
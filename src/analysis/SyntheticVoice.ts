@@ -0,0 +1,266 @@
+/**
+ * Synthetic voice generator
+ * Source-filter model: a Rosenberg glottal pulse train (with cycle-level
+ * jitter and shimmer) plus aspiration noise, shaped by cascaded formant
+ * resonators. Seeded, so the same config always gives the same samples.
+ * Used as ground truth for pitch, voice-quality and scoring tests.
+ */
+
+import { AudioBuffer } from './types';
+
+/**
+ * Point on the F0 contour; F0 is linearly interpolated between points
+ */
+export interface F0Point {
+  readonly timeSeconds: number;
+  readonly hz: number;
+}
+
+/**
+ * Silent stretch (no glottal source) within the clip
+ */
+export interface Pause {
+  readonly startSeconds: number;
+  readonly durationSeconds: number;
+}
+
+export interface Formant {
+  readonly frequency: number;
+  readonly bandwidth: number;
+}
+
+export interface SyntheticVoiceConfig {
+  readonly seed: number;
+  readonly sampleRate: number;
+  readonly durationSeconds: number;
+  readonly f0Contour: readonly F0Point[];
+  /**
+   * Expected local jitter of the generated periods: mean |period difference| /
+   * mean period (0.01 = 1%). Closure-to-closure periods, which is what period
+   * detectors measure, average neighbouring periods and show about half of it.
+   */
+  readonly jitter: number;
+  /** Expected local shimmer: mean |amplitude difference| / mean amplitude */
+  readonly shimmer: number;
+  /** Aspiration (breath) noise level relative to the glottal source RMS */
+  readonly aspirationNoise: number;
+  /** White background noise level in dBFS RMS, null for none */
+  readonly backgroundNoiseDb: number | null;
+  readonly pauses: readonly Pause[];
+  readonly formants: readonly Formant[];
+  /** Peak level of the voice before background noise (0-1) */
+  readonly peakAmplitude: number;
+}
+
+/** Open vowel /a/ (adult male), flat 120 Hz, clean */
+export const DEFAULT_SYNTHETIC_VOICE_CONFIG: SyntheticVoiceConfig = {
+  seed: 1,
+  sampleRate: 16000,
+  durationSeconds: 3,
+  f0Contour: [{ timeSeconds: 0, hz: 120 }],
+  jitter: 0,
+  shimmer: 0,
+  aspirationNoise: 0,
+  backgroundNoiseDb: null,
+  pauses: [],
+  formants: [
+    { frequency: 700, bandwidth: 130 },
+    { frequency: 1220, bandwidth: 70 },
+    { frequency: 2600, bandwidth: 160 },
+  ],
+  peakAmplitude: 0.5,
+};
+
+/**
+ * One glottal cycle as generated
+ */
+export interface GlottalCycle {
+  readonly startSeconds: number;
+  readonly periodSeconds: number;
+  /** Glottal closure, the cycle's main excitation (where period detectors mark it) */
+  readonly closureSeconds: number;
+  /** Relative pulse amplitude (1 = nominal) */
+  readonly amplitude: number;
+}
+
+export interface SyntheticVoice {
+  readonly buffer: AudioBuffer;
+  /** Ground truth: every voiced cycle, in order */
+  readonly cycles: readonly GlottalCycle[];
+}
+
+// Rosenberg pulse shape, as fractions of the period
+const OPEN_PHASE = 0.4;
+const CLOSING_PHASE = 0.16;
+
+/** E|g1 - g2| for independent standard normals is 2/sqrt(pi) */
+const MEAN_ABS_DIFF_PER_STD = 2 / Math.sqrt(Math.PI);
+
+/**
+ * Seeded uniform generator (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal samples (Box-Muller) from a uniform generator
+ */
+function createGaussian(random: () => number): () => number {
+  return () => {
+    const u = Math.max(random(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  };
+}
+
+/**
+ * F0 at a time, linearly interpolated along the contour
+ */
+export function f0At(contour: readonly F0Point[], timeSeconds: number): number {
+  if (contour.length === 0) return DEFAULT_SYNTHETIC_VOICE_CONFIG.f0Contour[0].hz;
+  if (timeSeconds <= contour[0].timeSeconds) return contour[0].hz;
+
+  for (let i = 1; i < contour.length; i++) {
+    const a = contour[i - 1];
+    const b = contour[i];
+    if (timeSeconds <= b.timeSeconds) {
+      const t = (timeSeconds - a.timeSeconds) / (b.timeSeconds - a.timeSeconds);
+      return a.hz + t * (b.hz - a.hz);
+    }
+  }
+  return contour[contour.length - 1].hz;
+}
+
+function inPause(pauses: readonly Pause[], timeSeconds: number): boolean {
+  return pauses.some(
+    p => timeSeconds >= p.startSeconds && timeSeconds < p.startSeconds + p.durationSeconds
+  );
+}
+
+/**
+ * Rosenberg glottal flow at a phase within the cycle (0-1)
+ */
+function glottalFlow(phase: number): number {
+  if (phase < OPEN_PHASE) {
+    return 0.5 * (1 - Math.cos((Math.PI * phase) / OPEN_PHASE));
+  }
+  if (phase < OPEN_PHASE + CLOSING_PHASE) {
+    return Math.cos((Math.PI / 2) * ((phase - OPEN_PHASE) / CLOSING_PHASE));
+  }
+  return 0;
+}
+
+/**
+ * Two-pole resonator with unity gain at DC (Klatt), applied in place
+ */
+function applyResonator(samples: Float32Array, formant: Formant, sampleRate: number): void {
+  const r = Math.exp((-Math.PI * formant.bandwidth) / sampleRate);
+  const theta = (2 * Math.PI * formant.frequency) / sampleRate;
+  const a1 = 2 * r * Math.cos(theta);
+  const a2 = -r * r;
+  const gain = 1 - a1 - a2;
+
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const y = gain * samples[i] + a1 * y1 + a2 * y2;
+    y2 = y1;
+    y1 = y;
+    samples[i] = y;
+  }
+}
+
+/**
+ * Generate a synthetic voice and its ground-truth glottal cycles
+ */
+export function generateVoice(config: Partial<SyntheticVoiceConfig> = {}): SyntheticVoice {
+  const cfg = { ...DEFAULT_SYNTHETIC_VOICE_CONFIG, ...config };
+  const { sampleRate } = cfg;
+  const length = Math.round(cfg.durationSeconds * sampleRate);
+
+  const random = createRandom(cfg.seed);
+  const gaussian = createGaussian(random);
+  const jitterStd = cfg.jitter / MEAN_ABS_DIFF_PER_STD;
+  const shimmerStd = cfg.shimmer / MEAN_ABS_DIFF_PER_STD;
+
+  // Glottal flow, one cycle at a time; pauses produce no cycles
+  const flow = new Float32Array(length + 1);
+  const openMask = new Float32Array(length + 1);
+  const cycles: GlottalCycle[] = [];
+  let start = 0;
+  while (start < length) {
+    const startSeconds = start / sampleRate;
+    const nominal = sampleRate / f0At(cfg.f0Contour, startSeconds);
+    const period = nominal * Math.max(0.5, 1 + jitterStd * gaussian());
+    const amplitude = Math.max(0.1, 1 + shimmerStd * gaussian());
+
+    if (!inPause(cfg.pauses, startSeconds)) {
+      cycles.push({
+        startSeconds,
+        periodSeconds: period / sampleRate,
+        closureSeconds: (start + (OPEN_PHASE + CLOSING_PHASE) * period) / sampleRate,
+        amplitude,
+      });
+      const end = Math.min(length + 1, Math.ceil(start + period));
+      for (let n = Math.ceil(start); n < end; n++) {
+        const phase = (n - start) / period;
+        flow[n] = amplitude * glottalFlow(phase);
+        openMask[n] = phase < OPEN_PHASE + CLOSING_PHASE ? 1 : 0;
+      }
+    }
+    start += period;
+  }
+
+  // Flow derivative (lip radiation) is the excitation
+  const source = new Float32Array(length);
+  let sumSquares = 0;
+  for (let i = 0; i < length; i++) {
+    source[i] = flow[i + 1] - flow[i];
+    sumSquares += source[i] * source[i];
+  }
+
+  // Aspiration: noise gated by the open phase, scaled to the source level
+  if (cfg.aspirationNoise > 0 && cycles.length > 0) {
+    const sourceRms = Math.sqrt(sumSquares / length);
+    for (let i = 0; i < length; i++) {
+      source[i] += cfg.aspirationNoise * sourceRms * openMask[i] * gaussian();
+    }
+  }
+
+  for (const formant of cfg.formants) {
+    applyResonator(source, formant, sampleRate);
+  }
+
+  let peak = 0;
+  for (let i = 0; i < length; i++) {
+    peak = Math.max(peak, Math.abs(source[i]));
+  }
+  const gain = peak > 0 ? cfg.peakAmplitude / peak : 0;
+
+  const noiseRms = cfg.backgroundNoiseDb === null ? 0 : Math.pow(10, cfg.backgroundNoiseDb / 20);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = source[i] * gain + (noiseRms > 0 ? noiseRms * gaussian() : 0);
+  }
+
+  return {
+    buffer: { samples, sampleRate, channels: 1, durationMs: (length / sampleRate) * 1000 },
+    cycles,
+  };
+}
+
+/**
+ * Generate a synthetic voice buffer
+ */
+export function synthesizeVoice(config: Partial<SyntheticVoiceConfig> = {}): AudioBuffer {
+  return generateVoice(config).buffer;
+}
+
+export default synthesizeVoice;
@@ -0,0 +1,112 @@
+/**
+ * Voice activity detection
+ * Labels analysis frames as speech / non-speech from frame energy and
+ * spectral entropy, with hangover to bridge short pauses
+ * Pure functions - operates on per-frame features
+ */
+
+import { FrameFeatures } from './types';
+
+/**
+ * VAD configuration
+ */
+export interface VadConfig {
+  /** Frames quieter than this (dBFS) are never speech */
+  absoluteThresholdDb: number;
+  /** Frames this far above the estimated noise floor count as speech */
+  energyMarginDb: number;
+  /** Normalized spectral entropy below this marks harmonic (voice-like) frames */
+  entropyThreshold: number;
+  /** Frames kept as speech after the last detected speech frame */
+  hangoverFrames: number;
+  /** Percentile of frame energies used as the noise floor estimate (0-1) */
+  noisePercentile: number;
+}
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  absoluteThresholdDb: -50,
+  energyMarginDb: 9,
+  entropyThreshold: 0.65,
+  hangoverFrames: 4, // ~128 ms at 16 kHz / 512 hop
+  noisePercentile: 0.1,
+};
+
+/**
+ * VAD output
+ */
+export interface VadResult {
+  /** Per-frame speech label */
+  readonly isSpeech: readonly boolean[];
+  /** First speech frame, -1 if none */
+  readonly speechStart: number;
+  /** Last speech frame, -1 if none */
+  readonly speechEnd: number;
+  readonly speechFrameCount: number;
+  /** Estimated noise floor in dBFS */
+  readonly noiseFloorDb: number;
+}
+
+/**
+ * Frame RMS in dBFS (floored so silence stays finite)
+ */
+export function frameEnergyDb(rms: number): number {
+  return 20 * Math.log10(rms + 1e-10);
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return -Infinity;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Label frames as speech or non-speech
+ * A frame is speech if it clears the absolute threshold and is either well
+ * above the noise floor or spectrally structured (low entropy). Stationary
+ * voiced input (where the floor estimate equals the signal) is still caught
+ * by the entropy test.
+ */
+export function detectVoiceActivity(
+  frames: readonly Pick<FrameFeatures, 'rms' | 'spectralEntropy'>[],
+  config: Partial<VadConfig> = {}
+): VadResult {
+  const cfg = { ...DEFAULT_VAD_CONFIG, ...config };
+
+  const energies = frames.map(f => frameEnergyDb(f.rms));
+  const noiseFloorDb = percentile(energies, cfg.noisePercentile);
+
+  const raw = frames.map((frame, i) =>
+    energies[i] > cfg.absoluteThresholdDb &&
+    (energies[i] > noiseFloorDb + cfg.energyMarginDb ||
+      frame.spectralEntropy < cfg.entropyThreshold)
+  );
+
+  const speechStart = raw.indexOf(true);
+  const speechEnd = raw.lastIndexOf(true);
+
+  // Hangover bridges short pauses; it never extends past the last speech frame
+  const isSpeech: boolean[] = [];
+  let hangover = 0;
+  for (let i = 0; i < frames.length; i++) {
+    if (raw[i]) {
+      hangover = cfg.hangoverFrames;
+      isSpeech.push(true);
+    } else if (hangover > 0 && i < speechEnd) {
+      hangover--;
+      isSpeech.push(true);
+    } else {
+      hangover = 0;
+      isSpeech.push(false);
+    }
+  }
+
+  return {
+    isSpeech,
+    speechStart,
+    speechEnd,
+    speechFrameCount: isSpeech.filter(Boolean).length,
+    noiseFloorDb,
+  };
+}
+
+export default detectVoiceActivity;
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for AnalysisPipeline
+ * End-to-end run from a raw buffer to a recorded, reproducible result
+ */
+
+import { analyzeAudio, ANALYSIS_VERSION, DEFAULT_ANALYSIS_CONFIG, AnalysisConfig } from '../AnalysisPipeline';
+import { AudioBuffer } from '../types';
+import { synthesizeVoice } from '../SyntheticVoice';
+
+function harmonicTone(rate: number, seconds: number, offset = 0): AudioBuffer {
+  const length = Math.round(rate * seconds);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const phase = (2 * Math.PI * 200 * i) / rate;
+    samples[i] = offset + 0.3 * Math.sin(phase) + 0.1 * Math.sin(3 * phase);
+  }
+  return { samples, sampleRate: rate, channels: 1, durationMs: (length / rate) * 1000 };
+}
+
+describe('AnalysisPipeline', () => {
+  it('should record the version and configuration in the result', () => {
+    const { result } = analyzeAudio(harmonicTone(16000, 1));
+
+    expect(result.analysisVersion).toBe(ANALYSIS_VERSION);
+    expect(result.config).toEqual(DEFAULT_ANALYSIS_CONFIG);
+    expect(result.features.pitchMean).toBeGreaterThan(190);
+    expect(result.features.pitchMean).toBeLessThan(210);
+  });
+
+  it('should keep a DC offset from biasing RMS', () => {
+    const clean = analyzeAudio(harmonicTone(16000, 1)).result.features;
+    const offset = analyzeAudio(harmonicTone(16000, 1, 0.2)).result.features;
+
+    expect(offset.rms).toBeCloseTo(clean.rms, 2);
+  });
+
+  it('should be reproducible from the recorded configuration', () => {
+    const config: AnalysisConfig = {
+      ...DEFAULT_ANALYSIS_CONFIG,
+      preprocessing: { stages: [{ type: 'pre_emphasis', coefficient: 0.97 }] },
+    };
+    const buffer = harmonicTone(44100, 1);
+
+    const first = analyzeAudio(buffer, config).result;
+    const second = analyzeAudio(buffer, first.config).result;
+
+    expect(second).toEqual(first);
+  });
+
+  it.each(['wiener', 'spectral_subtraction'] as const)(
+    'should report the input noise level when denoising with %s',
+    method => {
+      const buffer = harmonicTone(16000, 2);
+      const samples = buffer.samples.slice();
+      let state = 3;
+      for (let i = 0; i < samples.length; i++) {
+        state = (state * 1664525 + 1013904223) >>> 0;
+        samples[i] = (i < 16000 ? 0 : samples[i]) + 0.02 * ((state / 0xffffffff) * 2 - 1);
+      }
+      const noisy = { ...buffer, samples };
+
+      const plain = analyzeAudio(noisy).result;
+      const denoised = analyzeAudio(noisy, {
+        ...DEFAULT_ANALYSIS_CONFIG,
+        denoise: { ...DEFAULT_ANALYSIS_CONFIG.denoise, method },
+      }).result;
+
+      expect(denoised.features.rms).toBeLessThan(plain.features.rms);
+      expect(plain.features.snrDb).not.toBeNull();
+      expect(denoised.features.noiseFloorDb).toBeCloseTo(plain.features.noiseFloorDb ?? NaN, 1);
+      expect(denoised.features.snrDb).toBeCloseTo(plain.features.snrDb ?? NaN, 1);
+      expect(denoised.config.denoise.method).toBe(method);
+    }
+  );
+
+  it.each([null, -70])(
+    'should not blame the room for clean continuous speech (background %p dB)',
+    backgroundNoiseDb => {
+      const { result } = analyzeAudio(synthesizeVoice({ durationSeconds: 8, backgroundNoiseDb }));
+
+      expect(result.features.snrDb).toBeNull();
+      expect(result.features.noiseFloorDb).toBeNull();
+      expect(result.insightId).not.toBe('noisy_room');
+      expect(result.confidence).toBe('high');
+    }
+  );
+
+  it('should judge clipping on the source samples', () => {
+    const buffer = harmonicTone(44100, 4);
+    const clipped = buffer.samples.map(s => Math.max(-0.2, Math.min(0.2, s * 3)) * 5);
+
+    const clean = analyzeAudio(buffer).result;
+    const { result } = analyzeAudio({ ...buffer, samples: clipped });
+
+    expect(clean.features.clippedRunCount).toBe(0);
+    expect(clean.confidence).not.toBe('low');
+    expect(result.features.clippedRunCount).toBeGreaterThan(100);
+    expect(result.features.distortedFrameRatio).toBeGreaterThan(0.9);
+    expect(result.confidence).toBe('low');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for CepstralPeak
+ * CPP and CPPS on synthetic voices with known aspiration noise, and on
+ * signals with and without harmonic structure
+ */
+
+import { frameCepstralPeak, powerCepstrum } from '../CepstralPeak';
+import { synthesizeVoice } from '../SyntheticVoice';
+
+const sampleRate = 16000;
+const frameSize = 1024;
+
+/** Mean CPP and CPPS over the frames of a synthetic voice */
+function voiceCepstralPeak(aspirationNoise: number): { cpp: number; cpps: number } {
+  const samples = synthesizeVoice({ seed: 3, aspirationNoise }).samples;
+  let cpp = 0;
+  let cpps = 0;
+  let count = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize / 2) {
+    const peak = frameCepstralPeak(samples.subarray(start, start + frameSize), sampleRate);
+    cpp += peak.cpp;
+    cpps += peak.cpps;
+    count++;
+  }
+  return { cpp: cpp / count, cpps: cpps / count };
+}
+
+describe('CepstralPeak', () => {
+  describe('powerCepstrum', () => {
+    it('should peak at the period of a pulse train', () => {
+      // 125 Hz: a period of 128 samples
+      const pulses = Float32Array.from({ length: frameSize }, (_, i) => (i % 128 === 0 ? 1 : 0));
+      const cepstrum = powerCepstrum(pulses)!;
+
+      let peak = 48;
+      for (let q = 48; q <= 267; q++) {
+        if (cepstrum[q] > cepstrum[peak]) peak = q;
+      }
+      expect(peak).toBe(128);
+    });
+
+    it('should return null for silence', () => {
+      expect(powerCepstrum(new Float32Array(frameSize))).toBeNull();
+    });
+  });
+
+  describe('frameCepstralPeak', () => {
+    it('should decrease monotonically as aspiration noise rises', () => {
+      const levels = [0, 0.1, 0.2, 0.4, 0.8, 1.6, 3.2].map(voiceCepstralPeak);
+      for (let i = 1; i < levels.length; i++) {
+        expect(levels[i].cpp).toBeLessThan(levels[i - 1].cpp);
+        expect(levels[i].cpps).toBeLessThan(levels[i - 1].cpps);
+      }
+    });
+
+    it('should be far lower for noise than for a voice', () => {
+      let state = 11;
+      const noise = Float32Array.from({ length: frameSize }, () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return (state / 4294967296) * 2 - 1;
+      });
+      const voice = voiceCepstralPeak(0);
+      const peak = frameCepstralPeak(noise, sampleRate);
+
+      expect(peak.cpps).toBeLessThan(voice.cpps / 2);
+      expect(peak.cpp).toBeLessThan(voice.cpp / 2);
+    });
+
+    it('should return zeros for silence and short frames', () => {
+      expect(frameCepstralPeak(new Float32Array(frameSize), sampleRate)).toEqual({ cpp: 0, cpps: 0 });
+      const short = Float32Array.from({ length: 256 }, (_, i) => Math.sin(i / 10));
+      expect(frameCepstralPeak(short, sampleRate)).toEqual({ cpp: 0, cpps: 0 });
+    });
+  });
+});
@@ -5,6 +5,7 @@
 
 import extractFeatures from '../FeatureExtractor';
 import { AudioBuffer } from '../types';
+import { synthesizeVoice } from '../SyntheticVoice';
 
 const sampleRate = 16000;
 
@@ -68,4 +69,106 @@ describe('FeatureExtractor', () => {
     expect(features.jitterProxy).toBeLessThan(0.1);
     expect(features.shimmerProxy).toBeLessThan(0.1);
   });
+
+  it('should use the configured pitch tracker', () => {
+    const breathy = synthesizeVoice({ aspirationNoise: 0.8 });
+
+    const yin = extractFeatures(breathy, { speechOnly: false });
+    const mpm = extractFeatures(breathy, { speechOnly: false, pitch: { tracker: 'mpm' } });
+
+    expect(mpm.voicedRatio).toBeGreaterThan(yin.voicedRatio);
+    expect(mpm.pitchMean).toBeCloseTo(120, -1);
+  });
+
+  it('should compute pitch statistics on the cleaned contour', () => {
+    // YIN halves the pitch in the frames ringing out before each pause
+    const phrase = synthesizeVoice({
+      durationSeconds: 6,
+      pauses: [
+        { startSeconds: 1.8, durationSeconds: 0.4 },
+        { startSeconds: 3.9, durationSeconds: 0.4 },
+      ],
+      backgroundNoiseDb: -70,
+    });
+
+    const features = extractFeatures(phrase);
+    const raw = extractFeatures(phrase, {
+      contour: { octaveTolerance: 0, minSegmentFrames: 1, maxGapFrames: 0, medianRadius: 0 },
+    });
+
+    expect(features.correctedPitchFrames).toBeGreaterThan(0);
+    expect(raw.correctedPitchFrames).toBe(0);
+    expect(raw.pitchVariance).toBeGreaterThan(0.1);
+    expect(features.pitchVariance).toBeLessThan(0.01);
+    expect(features.pitchMean).toBeCloseTo(120, 0);
+  });
+
+  it('should measure cycle-level jitter alongside the proxy', () => {
+    const steady = extractFeatures(synthesizeVoice({ seed: 2 }));
+    const jittery = extractFeatures(synthesizeVoice({ seed: 2, jitter: 0.03 }));
+
+    expect(steady.jitterLocal).toBeLessThan(0.003);
+    expect(jittery.jitterLocal).toBeGreaterThan(0.01);
+    expect(jittery.jitterLocalAbsolute).toBeCloseTo(jittery.jitterLocal / 120, 5);
+    expect(jittery.jitterDdp).toBeCloseTo(3 * jittery.jitterRap, 12);
+  });
+
+  it('should measure cycle-level shimmer alongside the proxy', () => {
+    const steady = extractFeatures(synthesizeVoice({ seed: 2 }));
+    const shaky = extractFeatures(synthesizeVoice({ seed: 2, shimmer: 0.08 }));
+
+    expect(steady.shimmerLocal).toBeLessThan(0.02);
+    expect(shaky.shimmerLocal).toBeGreaterThan(0.06);
+    expect(shaky.shimmerDb).toBeGreaterThan(steady.shimmerDb);
+    expect(shaky.shimmerDda).toBeCloseTo(3 * shaky.shimmerApq3, 12);
+  });
+
+  it('should measure lower HNR for a breathy voice', () => {
+    const clear = extractFeatures(synthesizeVoice({ seed: 2 }));
+    const breathy = extractFeatures(synthesizeVoice({ seed: 2, aspirationNoise: 0.8 }));
+
+    expect(clear.hnrDb).toBeGreaterThan(20);
+    expect(breathy.hnrDb).toBeLessThan(clear.hnrDb - 10);
+    expect(breathy.hnrP10Db).toBeLessThanOrEqual(breathy.hnrMedianDb);
+    expect(breathy.hnrMedianDb).toBeLessThanOrEqual(breathy.hnrP90Db);
+  });
+
+  it('should measure lower cepstral peak prominence for a breathy voice', () => {
+    const clear = extractFeatures(synthesizeVoice({ seed: 2 }));
+    const breathy = extractFeatures(synthesizeVoice({ seed: 2, aspirationNoise: 0.8 }));
+
+    expect(breathy.cppsDb).toBeLessThan(clear.cppsDb - 3);
+    expect(breathy.cppDb).toBeLessThan(clear.cppDb - 3);
+    expect(clear.cppsDb).toBeLessThan(clear.cppDb);
+  });
+
+  it('should place a front vowel lower in F1 and higher in F2 than an open one', () => {
+    const open = extractFeatures(synthesizeVoice({ seed: 2 }));
+    const front = extractFeatures(
+      synthesizeVoice({
+        seed: 2,
+        formants: [
+          { frequency: 310, bandwidth: 60 },
+          { frequency: 2300, bandwidth: 110 },
+          { frequency: 3000, bandwidth: 180 },
+        ],
+      })
+    );
+
+    expect(open.f1Mean).toBeCloseTo(700, -2);
+    expect(front.f1Mean).toBeLessThan(open.f1Mean - 200);
+    expect(front.f2Mean).toBeGreaterThan(open.f2Mean + 800);
+    // A held vowel barely moves
+    expect(open.f2Std).toBeLessThan(50);
+  });
+
+  it('should report steady timbre for a held vowel and carry the descriptor means', () => {
+    const vowel = extractFeatures(synthesizeVoice({ seed: 2 }));
+
+    expect(vowel.spectralCentroidCv).toBeLessThan(0.05);
+    expect(vowel.spectralFlatness).toBeLessThan(0.1);
+    expect(vowel.spectralSlope).toBeLessThan(0);
+    expect(vowel.spectralRolloff).toBeGreaterThan(vowel.spectralCentroid);
+    expect(vowel.hammarbergIndex).toBeGreaterThan(0);
+  });
 });
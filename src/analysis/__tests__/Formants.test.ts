@@ -0,0 +1,102 @@
+/**
+ * Unit tests for Formants
+ * Levinson-Durbin and root solving on known polynomials, and F1-F3
+ * estimates against the synthetic voice's formant resonators
+ */
+
+import { lpcCoefficients, polynomialRoots, frameFormants, summarizeFormants } from '../Formants';
+import { synthesizeVoice, Formant } from '../SyntheticVoice';
+
+const sampleRate = 16000;
+const frameSize = 1024;
+
+const OPEN_VOWEL: Formant[] = [
+  { frequency: 700, bandwidth: 130 },
+  { frequency: 1220, bandwidth: 70 },
+  { frequency: 2600, bandwidth: 160 },
+];
+const FRONT_VOWEL: Formant[] = [
+  { frequency: 310, bandwidth: 60 },
+  { frequency: 2300, bandwidth: 110 },
+  { frequency: 3000, bandwidth: 180 },
+];
+
+/** Formants of every frame of a synthetic voice */
+function voiceFormants(formants: Formant[], hz = 120) {
+  const samples = synthesizeVoice({ seed: 4, formants, f0Contour: [{ timeSeconds: 0, hz }] }).samples;
+  const frames = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize / 2) {
+    frames.push(frameFormants(samples.subarray(start, start + frameSize), sampleRate));
+  }
+  return summarizeFormants(frames);
+}
+
+describe('Formants', () => {
+  describe('lpcCoefficients', () => {
+    it('should recover the coefficients of an AR(2) process', () => {
+      // x[n] = 1.3 x[n-1] - 0.6 x[n-2] + e[n]
+      let state = 5;
+      const noise = () => {
+        state = (state * 1664525 + 1013904223) % 4294967296;
+        return state / 4294967296 - 0.5;
+      };
+      const x = new Float64Array(20000);
+      for (let n = 2; n < x.length; n++) x[n] = 1.3 * x[n - 1] - 0.6 * x[n - 2] + noise();
+
+      const lpc = lpcCoefficients(x, 2)!;
+      expect(lpc.coefficients[0]).toBe(1);
+      expect(lpc.coefficients[1]).toBeCloseTo(-1.3, 1);
+      expect(lpc.coefficients[2]).toBeCloseTo(0.6, 1);
+      expect(lpc.residual).toBeGreaterThan(0);
+      expect(lpc.residual).toBeLessThan(1);
+    });
+
+    it('should return null for silence', () => {
+      expect(lpcCoefficients(new Float64Array(100), 4)).toBeNull();
+    });
+  });
+
+  describe('polynomialRoots', () => {
+    it('should find real and complex roots', () => {
+      // (z - 2)(z² + 1) = z³ - 2z² + z - 2
+      const roots = [...polynomialRoots([1, -2, 1, -2])].sort((a, b) => a[1] - b[1]);
+
+      expect(roots[0][0]).toBeCloseTo(0, 6);
+      expect(roots[0][1]).toBeCloseTo(-1, 6);
+      expect(roots[1][0]).toBeCloseTo(2, 6);
+      expect(roots[1][1]).toBeCloseTo(0, 6);
+      expect(roots[2][1]).toBeCloseTo(1, 6);
+    });
+  });
+
+  describe('frameFormants', () => {
+    it.each([
+      ['open /a/ at 120 Hz', OPEN_VOWEL, 120],
+      ['open /a/ at 220 Hz', OPEN_VOWEL, 220],
+      ['front /i/ at 120 Hz', FRONT_VOWEL, 120],
+    ])('should estimate F1-F3 of %s within 10%%', (_, formants, hz) => {
+      const summary = voiceFormants(formants, hz);
+      summary.forEach((estimate, k) => {
+        expect(Math.abs(estimate.mean - formants[k].frequency) / formants[k].frequency).toBeLessThan(0.1);
+        expect(estimate.std).toBeLessThan(50);
+        expect(estimate.bandwidth).toBeGreaterThan(0);
+      });
+    });
+
+    it('should return nothing for silence', () => {
+      expect(frameFormants(new Float32Array(frameSize), sampleRate)).toEqual([]);
+    });
+  });
+
+  describe('summarizeFormants', () => {
+    it('should count the k-th formant of each frame as Fk', () => {
+      const [f1, f2, f3] = summarizeFormants([
+        [{ frequency: 500, bandwidth: 80 }, { frequency: 1500, bandwidth: 100 }],
+        [{ frequency: 700, bandwidth: 120 }],
+      ]);
+      expect(f1).toEqual({ mean: 600, std: 100, bandwidth: 100 });
+      expect(f2).toEqual({ mean: 1500, std: 0, bandwidth: 100 });
+      expect(f3).toEqual({ mean: 0, std: 0, bandwidth: 0 });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for FrameSums
+ * Summaries from running sums must match direct statistics over the kept frames
+ */
+
+import {
+  addFrameToSums,
+  summarizeFrameSums,
+  EMPTY_FRAME_SUMS,
+  AVERAGED_FIELDS,
+} from '../FrameSums';
+import { FrameFeatures } from '../types';
+
+/**
+ * Deterministic frames with varied values; the first has no flux
+ */
+function makeFrames(count: number): FrameFeatures[] {
+  return Array.from({ length: count }, (_, i) => ({
+    centroid: 1500 + 400 * Math.sin(i * 0.7),
+    spectralEntropy: 0.4 + 0.1 * Math.cos(i),
+    spectralBandwidth: 1000 + 50 * i,
+    spectralFlux: i === 0 ? undefined : 0.2 + 0.01 * i,
+    zcr: 0.05 + 0.002 * i,
+    rms: i % 5 === 0 ? 0 : 0.1 + 0.05 * Math.sin(i * 1.3),
+    pitch: 150,
+    pitchConfidence: 0.9,
+    isVoiced: true,
+  }));
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+}
+
+function rmsChange(rmsValues: number[]): number {
+  let sum = 0;
+  for (let i = 1; i < rmsValues.length; i++) {
+    const avg = (rmsValues[i] + rmsValues[i - 1]) / 2;
+    if (avg > 0) sum += Math.abs(rmsValues[i] - rmsValues[i - 1]) / avg;
+  }
+  return rmsValues.length > 1 ? sum / (rmsValues.length - 1) : 0;
+}
+
+describe('FrameSums', () => {
+  const frames = makeFrames(20);
+  const sums = frames.reduce(addFrameToSums, EMPTY_FRAME_SUMS);
+
+  it('should match direct statistics over the included frames', () => {
+    // Excluded runs at both edges and in the middle
+    const included = frames.map((_, i) => i > 1 && i < 17 && (i < 6 || i > 8));
+    const voiced = frames.map((_, i) => i % 3 !== 0);
+    const kept = frames.filter((_, i) => included[i]);
+    const stats = summarizeFrameSums(sums, frames, included, voiced);
+
+    for (const field of AVERAGED_FIELDS) {
+      const values = kept.flatMap(f => (f[field] !== undefined ? [f[field] as number] : []));
+      expect(stats.means[field]).toBeCloseTo(mean(values), 9);
+    }
+    expect(stats.rmsChange).toBeCloseTo(rmsChange(kept.map(f => f.rms)), 9);
+
+    const centroids = frames.filter((_, i) => voiced[i]).map(f => f.centroid);
+    const centroidMean = mean(centroids);
+    const std = Math.sqrt(mean(centroids.map(c => (c - centroidMean) ** 2)));
+    expect(stats.centroidCv).toBeCloseTo(std / centroidMean, 9);
+  });
+
+  it('should cover every frame when nothing is excluded', () => {
+    const stats = summarizeFrameSums(sums, frames, null, frames.map(() => true));
+
+    expect(stats.means.rms).toBeCloseTo(mean(frames.map(f => f.rms)), 12);
+    expect(stats.means.spectralFlux).toBeCloseTo(mean(frames.slice(1).map(f => f.spectralFlux ?? 0)), 12);
+    expect(stats.rmsChange).toBeCloseTo(rmsChange(frames.map(f => f.rms)), 12);
+  });
+
+  it('should report zeros when no frames are kept', () => {
+    const none = frames.map(() => false);
+    const stats = summarizeFrameSums(sums, frames, none, none);
+
+    expect(stats.means.centroid).toBe(0);
+    expect(stats.rmsChange).toBe(0);
+    expect(stats.centroidCv).toBe(0);
+  });
+
+  it('should summarize an empty track', () => {
+    const stats = summarizeFrameSums(EMPTY_FRAME_SUMS, [], null, []);
+    expect(stats.means.rms).toBe(0);
+    expect(stats.centroidCv).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for GlottalPeriods
+ * Jitter and shimmer formulas on hand-made cycle sequences, and cycle
+ * marking against the synthetic voice's known glottal cycles
+ */
+
+import {
+  detectGlottalCycles,
+  computeJitter,
+  computeShimmer,
+  NO_JITTER,
+  NO_SHIMMER,
+} from '../GlottalPeriods';
+import { GlottalCycleMark } from '../types';
+import { generateVoice, synthesizeVoice } from '../SyntheticVoice';
+import { detectPitchYIN } from '../PitchDetector';
+
+const sampleRate = 16000;
+
+/** Cycles with the given periods and a fixed amplitude */
+function withPeriods(periods: number[]): GlottalCycleMark[] {
+  return periods.map(period => ({ period, amplitude: 1 }));
+}
+
+/** Cycles with the given amplitudes and a fixed period */
+function withAmplitudes(amplitudes: number[]): GlottalCycleMark[] {
+  return amplitudes.map(amplitude => ({ period: 0.01, amplitude }));
+}
+
+/** Cycles between consecutive glottal closures */
+function closureCycles(closures: number[]): GlottalCycleMark[] {
+  return withPeriods(closures.slice(1).map((t, i) => t - closures[i]));
+}
+
+/** Cycles marked frame by frame, the way the feature extractor does */
+function markCycles(samples: Float32Array): GlottalCycleMark[] {
+  const cycles: GlottalCycleMark[] = [];
+  for (let start = 0; start + 1024 <= samples.length; start += 512) {
+    const frame = samples.subarray(start, start + 1024);
+    const pitch = detectPitchYIN(frame, { sampleRate, frameSize: frame.length }).pitch;
+    cycles.push(...detectGlottalCycles(frame, sampleRate, pitch, 512));
+  }
+  return cycles;
+}
+
+describe('GlottalPeriods', () => {
+  describe('computeJitter', () => {
+    it('should follow the Praat definitions', () => {
+      const periods = [0.01, 0.011, 0.01, 0.012, 0.01, 0.011];
+      const meanPeriod = 0.064 / 6;
+      const jitter = computeJitter([withPeriods(periods)]);
+
+      // |Δ| = 1, 1, 2, 2, 1 ms
+      expect(jitter.localAbsolute).toBeCloseTo(0.0014, 10);
+      expect(jitter.local).toBeCloseTo(0.0014 / meanPeriod, 10);
+      // Deviations from 3-point averages: 2/3, 1, 4/3, 1 ms
+      expect(jitter.rap).toBeCloseTo(0.001 / meanPeriod, 10);
+      // Deviations from 5-point averages: 0.6, 1.2 ms
+      expect(jitter.ppq5).toBeCloseTo(0.0009 / meanPeriod, 10);
+      expect(jitter.ddp).toBeCloseTo(3 * jitter.rap, 12);
+    });
+
+    it('should not compare periods across sequences or large jumps', () => {
+      const split = computeJitter([withPeriods([0.01, 0.01]), withPeriods([0.008, 0.008])]);
+      const jump = computeJitter([withPeriods([0.01, 0.01, 0.005, 0.005])]);
+
+      expect(split.local).toBe(0);
+      expect(jump.local).toBe(0);
+    });
+
+    it('should ignore periods outside the accepted range', () => {
+      expect(computeJitter([withPeriods([0.01, 0.03, 0.01, 0.01])]).local).toBe(0);
+    });
+
+    it('should return zeros without two comparable periods', () => {
+      expect(computeJitter([])).toEqual(NO_JITTER);
+      expect(computeJitter([withPeriods([0.01]), withPeriods([0.011])])).toEqual(NO_JITTER);
+    });
+  });
+
+  describe('computeShimmer', () => {
+    it('should follow the Praat definitions', () => {
+      const amplitudes = [1, 1.1, 1, 1.2, 1, 1.1, 1, 1.2, 1, 1.1, 1, 1.2];
+      const meanAmplitude = 12.9 / 12;
+      const shimmer = computeShimmer([withAmplitudes(amplitudes)]);
+
+      // |Δ| alternates 0.1, 0.1, 0.2, 0.2
+      expect(shimmer.local).toBeCloseTo(1.6 / 11 / meanAmplitude, 10);
+      expect(shimmer.db).toBeCloseTo((6 * 20 * Math.log10(1.1) + 5 * 20 * Math.log10(1.2)) / 11, 10);
+      expect(shimmer.dda).toBeCloseTo(3 * shimmer.apq3, 12);
+      expect(shimmer.apq11).toBeGreaterThan(0);
+    });
+
+    it('should not compare amplitudes that jump by more than 1.6 times', () => {
+      expect(computeShimmer([withAmplitudes([1, 1, 2, 2])]).local).toBe(0);
+    });
+
+    it('should return zeros without two comparable cycles', () => {
+      expect(computeShimmer([])).toEqual(NO_SHIMMER);
+    });
+  });
+
+  describe('detectGlottalCycles', () => {
+    it('should mark every cycle of a steady voice', () => {
+      const buffer = synthesizeVoice({ durationSeconds: 0.5 });
+      const cycles = detectGlottalCycles(buffer.samples.subarray(4000, 5024), sampleRate, 120, 512);
+
+      // 512 samples hold 3.84 cycles of 120 Hz
+      expect(cycles.length).toBeGreaterThanOrEqual(3);
+      expect(cycles.length).toBeLessThanOrEqual(5);
+      for (const cycle of cycles) {
+        expect(cycle.period).toBeCloseTo(1 / 120, 5);
+        expect(cycle.amplitude).toBeGreaterThan(0.3);
+      }
+    });
+
+    it('should find nothing without a pitch or in noise', () => {
+      const noise = synthesizeVoice({ durationSeconds: 0.5, peakAmplitude: 0, backgroundNoiseDb: -20 });
+
+      expect(detectGlottalCycles(noise.samples.subarray(4000, 5024), sampleRate, 0)).toEqual([]);
+      expect(detectGlottalCycles(noise.samples.subarray(4000, 5024), sampleRate, 150).length).toBeLessThan(2);
+    });
+
+    it.each([
+      [0.01, 120],
+      [0.02, 120],
+      [0.02, 200],
+    ])('should measure jitter %s at %s Hz like the true closures', (jitter, hz) => {
+      const voice = generateVoice({ seed: 3, durationSeconds: 3, jitter, f0Contour: [{ timeSeconds: 0, hz }] });
+      const truth = computeJitter([closureCycles(voice.cycles.map(c => c.closureSeconds))]);
+      const measured = computeJitter([markCycles(voice.buffer.samples)]);
+
+      expect(Math.abs(measured.local - truth.local) / truth.local).toBeLessThan(0.25);
+      expect(Math.abs(measured.rap - truth.rap) / truth.rap).toBeLessThan(0.25);
+      expect(Math.abs(measured.ppq5 - truth.ppq5) / truth.ppq5).toBeLessThan(0.25);
+    });
+
+    it.each([
+      [0.03, 120],
+      [0.06, 120],
+      [0.06, 220],
+    ])('should measure shimmer %s at %s Hz like the true pulse amplitudes', (shimmer, hz) => {
+      const voice = generateVoice({ seed: 3, durationSeconds: 3, shimmer, f0Contour: [{ timeSeconds: 0, hz }] });
+      const truth = computeShimmer([
+        voice.cycles.map(c => ({ period: c.periodSeconds, amplitude: c.amplitude })),
+      ]);
+      const measured = computeShimmer([markCycles(voice.buffer.samples)]);
+
+      for (const key of ['local', 'db', 'apq3', 'apq5', 'apq11'] as const) {
+        expect(Math.abs(measured[key] - truth[key]) / truth[key]).toBeLessThan(0.2);
+      }
+    });
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit tests for Harmonicity
+ * Frame HNR against signals with a known periodic-to-noise energy ratio,
+ * and the clip-level summary
+ */
+
+import { frameHnr, summarizeHnr, MIN_HNR_DB, MAX_HNR_DB } from '../Harmonicity';
+import { synthesizeVoice } from '../SyntheticVoice';
+
+const sampleRate = 16000;
+const frameSize = 1024;
+
+/** Seeded uniform noise in [-1, 1) */
+function noise(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state / 4294967296) * 2 - 1;
+  };
+}
+
+/** 200 Hz sine plus white noise at the given SNR (dB) */
+function noisySine(snrDb: number): Float32Array {
+  const random = noise(7);
+  const raw = Array.from({ length: frameSize }, () => random());
+  const noisePower = raw.reduce((sum, v) => sum + v * v, 0) / frameSize;
+  // Sine power is 0.5
+  const gain = Math.sqrt(0.5 / noisePower / Math.pow(10, snrDb / 10));
+  return Float32Array.from(raw, (v, i) => Math.sin((2 * Math.PI * 200 * i) / sampleRate) + gain * v);
+}
+
+/** Mean frame HNR across a synthetic voice */
+function voiceHnr(aspirationNoise: number): number {
+  const samples = synthesizeVoice({ seed: 3, aspirationNoise }).samples;
+  const values: number[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    values.push(frameHnr(samples.subarray(start, start + frameSize), sampleRate));
+  }
+  return summarizeHnr(values).mean;
+}
+
+describe('Harmonicity', () => {
+  describe('frameHnr', () => {
+    it('should recover the SNR of a sine in white noise', () => {
+      expect(frameHnr(noisySine(10), sampleRate)).toBeCloseTo(10, 0);
+      expect(Math.abs(frameHnr(noisySine(20), sampleRate) - 20)).toBeLessThan(1.5);
+    });
+
+    it('should give MIN_HNR_DB for silence', () => {
+      expect(frameHnr(new Float32Array(frameSize), sampleRate)).toBe(MIN_HNR_DB);
+    });
+
+    it('should stay within its bounds for a pure tone', () => {
+      const tone = Float32Array.from({ length: frameSize }, (_, i) =>
+        Math.sin((2 * Math.PI * 150 * i) / sampleRate)
+      );
+      const hnr = frameHnr(tone, sampleRate);
+      expect(hnr).toBeGreaterThan(30);
+      expect(hnr).toBeLessThanOrEqual(MAX_HNR_DB);
+    });
+
+    it('should decrease as aspiration noise rises', () => {
+      const levels = [0, 0.2, 0.4, 0.8, 1.6].map(voiceHnr);
+      for (let i = 1; i < levels.length; i++) {
+        expect(levels[i]).toBeLessThan(levels[i - 1]);
+      }
+    });
+  });
+
+  describe('summarizeHnr', () => {
+    it('should interpolate percentiles between ranks', () => {
+      const summary = summarizeHnr([30, 10, 20, 0, 40]);
+      expect(summary.mean).toBe(20);
+      expect(summary.median).toBe(20);
+      expect(summary.p10).toBeCloseTo(4, 10);
+      expect(summary.p90).toBeCloseTo(36, 10);
+    });
+
+    it('should return zeros without voiced frames', () => {
+      expect(summarizeHnr([])).toEqual({ mean: 0, p10: 0, median: 0, p90: 0 });
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for MelFeatures
+ * Mel scale, filterbank shape, DCT and delta formulas, and per-frame
+ * matrices on tones and synthetic vowels
+ */
+
+import {
+  hzToMel,
+  melToHz,
+  melFilterbank,
+  dct,
+  computeDeltas,
+  summarizeMatrix,
+  extractMelFeatures,
+  DEFAULT_MEL_CONFIG,
+} from '../MelFeatures';
+import { AudioBuffer } from '../types';
+import { synthesizeVoice } from '../SyntheticVoice';
+
+const sampleRate = 16000;
+
+function toBuffer(samples: Float32Array): AudioBuffer {
+  return { samples, sampleRate, channels: 1, durationMs: (samples.length / sampleRate) * 1000 };
+}
+
+function tone(hz: number, seconds = 1): AudioBuffer {
+  return toBuffer(
+    Float32Array.from({ length: seconds * sampleRate }, (_, i) => 0.5 * Math.sin((2 * Math.PI * hz * i) / sampleRate))
+  );
+}
+
+function distance(a: readonly number[], b: readonly number[]): number {
+  return Math.sqrt(a.reduce((sum, v, i) => sum + (v - b[i]) ** 2, 0));
+}
+
+describe('MelFeatures', () => {
+  describe('mel scale', () => {
+    it('should map 1000 Hz to about 1000 mel and round-trip', () => {
+      expect(hzToMel(1000)).toBeCloseTo(1000, 0);
+      expect(melToHz(hzToMel(440))).toBeCloseTo(440, 8);
+    });
+  });
+
+  describe('melFilterbank', () => {
+    it('should build overlapping triangles with rising centers', () => {
+      const bank = melFilterbank(sampleRate, 512);
+      expect(bank).toHaveLength(DEFAULT_MEL_CONFIG.melBands);
+
+      const centers = bank.map(w => w.indexOf(Math.max(...w)));
+      bank.forEach((weights, band) => {
+        expect(weights).toHaveLength(257);
+        expect(Math.min(...weights)).toBeGreaterThanOrEqual(0);
+        expect(Math.max(...weights)).toBeLessThanOrEqual(1);
+        if (band > 0) expect(centers[band]).toBeGreaterThanOrEqual(centers[band - 1]);
+      });
+      // Bands are wider at high frequencies
+      const width = (w: Float64Array) => w.filter(v => v > 0).length;
+      expect(width(bank[bank.length - 1])).toBeGreaterThan(width(bank[5]));
+    });
+
+    it('should cap the upper edge at Nyquist', () => {
+      const bank = melFilterbank(8000, 512, { maxFreq: 8000 });
+      expect(bank[bank.length - 1][256]).toBe(0);
+      expect(bank[bank.length - 1].some(v => v > 0)).toBe(true);
+    });
+  });
+
+  describe('dct', () => {
+    it('should put a constant into c0 only', () => {
+      const coefficients = dct(new Array(40).fill(2), 13);
+      expect(coefficients[0]).toBeCloseTo(2 * Math.sqrt(40), 10);
+      coefficients.slice(1).forEach(c => expect(c).toBeCloseTo(0, 10));
+    });
+
+    it('should preserve energy when all coefficients are kept', () => {
+      const values = [1, -2, 3, 0.5, -1, 4, 2, -3];
+      const coefficients = dct(values, values.length);
+      const energy = (v: number[]) => v.reduce((sum, x) => sum + x * x, 0);
+      expect(energy(coefficients)).toBeCloseTo(energy(values), 10);
+    });
+  });
+
+  describe('computeDeltas', () => {
+    it('should give the slope of a linear ramp away from the edges', () => {
+      const ramp = Array.from({ length: 10 }, (_, t) => [3 * t, -t]);
+      const deltas = computeDeltas(ramp, 2);
+      for (let t = 2; t < 8; t++) {
+        expect(deltas[t][0]).toBeCloseTo(3, 10);
+        expect(deltas[t][1]).toBeCloseTo(-1, 10);
+      }
+    });
+
+    it('should be zero for a constant sequence', () => {
+      const deltas = computeDeltas([[1, 2], [1, 2], [1, 2]], 2);
+      deltas.flat().forEach(d => expect(d).toBe(0));
+    });
+  });
+
+  describe('summarizeMatrix', () => {
+    it('should give column means and standard deviations', () => {
+      const summary = summarizeMatrix([[1, 10], [3, 10]], 2);
+      expect(summary.mean).toEqual([2, 10]);
+      expect(summary.std).toEqual([1, 0]);
+    });
+  });
+
+  describe('extractMelFeatures', () => {
+    it('should return one row per 10 ms frame', () => {
+      const features = extractMelFeatures(tone(1000));
+      // (16000 - 400) / 160 + 1 frames
+      expect(features.times).toHaveLength(98);
+      expect(features.logMel[0]).toHaveLength(40);
+      expect(features.mfcc[0]).toHaveLength(13);
+      expect(features.deltas).toHaveLength(98);
+      expect(features.deltaDeltas[0]).toHaveLength(13);
+      expect(features.times[1]).toBeCloseTo(0.01, 10);
+    });
+
+    it('should put a tone’s energy in the band around its frequency', () => {
+      const features = extractMelFeatures(tone(1000));
+      const bank = melFilterbank(sampleRate, 512);
+      const loudest = features.summary.logMel.mean.indexOf(Math.max(...features.summary.logMel.mean));
+      const centerHz = (bank[loudest].indexOf(Math.max(...bank[loudest])) * sampleRate) / 512;
+      expect(Math.abs(centerHz - 1000)).toBeLessThan(100);
+    });
+
+    it('should have near-zero deltas for a steady tone', () => {
+      const features = extractMelFeatures(tone(500));
+      features.summary.deltas.mean.forEach(d => expect(Math.abs(d)).toBeLessThan(0.01));
+    });
+
+    it('should tell vowels apart by their mean MFCCs', () => {
+      const vowelA = [
+        { frequency: 700, bandwidth: 80 },
+        { frequency: 1200, bandwidth: 90 },
+        { frequency: 2600, bandwidth: 120 },
+      ];
+      const vowelI = [
+        { frequency: 300, bandwidth: 60 },
+        { frequency: 2300, bandwidth: 100 },
+        { frequency: 3000, bandwidth: 120 },
+      ];
+      const mean = (seed: number, formants: typeof vowelA) =>
+        extractMelFeatures(synthesizeVoice({ seed, formants })).summary.mfcc.mean.slice(1);
+
+      const sameVowel = distance(mean(1, vowelA), mean(2, vowelA));
+      const otherVowel = distance(mean(1, vowelA), mean(1, vowelI));
+      expect(otherVowel).toBeGreaterThan(3 * sameVowel);
+    });
+
+    it('should return no frames for a buffer shorter than one frame', () => {
+      const features = extractMelFeatures(toBuffer(new Float32Array(100)));
+      expect(features.mfcc).toEqual([]);
+      expect(features.summary.mfcc.mean).toEqual(new Array(13).fill(0));
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Unit tests for NoiseEstimator
+ * Noise floor and SNR from frame levels, and the fields it adds to features
+ */
+
+import { estimateNoise } from '../NoiseEstimator';
+import extractFeatures from '../FeatureExtractor';
+import { AudioBuffer } from '../types';
+
+const sampleRate = 16000;
+
+/**
+ * Deterministic white noise (LCG) so tests do not depend on Math.random
+ */
+function noise(length: number, amplitude: number, seed = 1): Float32Array {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0xffffffff) * 2 - 1);
+  }
+  return samples;
+}
+
+/**
+ * Half-second voiced bursts separated by half-second pauses, over room noise
+ */
+function burstsInNoise(noiseAmplitude: number): AudioBuffer {
+  const samples = noise(sampleRate * 4, noiseAmplitude);
+  for (let i = 0; i < samples.length; i++) {
+    if (Math.floor(i / (sampleRate / 2)) % 2 === 1) {
+      const phase = (2 * Math.PI * 160 * i) / sampleRate;
+      samples[i] += 0.2 * Math.sin(phase) + 0.08 * Math.sin(2 * phase);
+    }
+  }
+  return { samples, sampleRate, channels: 1, durationMs: 4000 };
+}
+
+describe('NoiseEstimator', () => {
+  describe('estimateNoise', () => {
+    const frameRms = Array.from({ length: 100 }, (_, i) => (Math.floor(i / 10) % 2 ? 0.1 : 0.01));
+    const isSpeech = frameRms.map(r => r > 0.05);
+
+    it('should place the floor at the level of the pauses', () => {
+      const estimate = estimateNoise(frameRms, isSpeech);
+      expect(estimate.noiseFloorDb).toBeGreaterThan(-43);
+      expect(estimate.noiseFloorDb).toBeLessThan(-37);
+      expect(estimate.speechLevelDb).toBeCloseTo(-20, 1);
+    });
+
+    it('should estimate SNR from speech and pause levels', () => {
+      const estimate = estimateNoise(frameRms, isSpeech);
+      expect(estimate.snrDb).toBeGreaterThan(16);
+      expect(estimate.snrDb).toBeLessThan(22);
+    });
+
+    it('should find active frames without VAD labels', () => {
+      const estimate = estimateNoise(frameRms);
+      expect(estimate.snrDb).toBeGreaterThan(16);
+    });
+
+    it('should report 0 dB SNR when nothing stands out from the floor', () => {
+      expect(estimateNoise(Array(50).fill(0.05)).snrDb).toBe(0);
+    });
+
+    it('should report an unknown floor for silence and empty input', () => {
+      expect(estimateNoise([]).snrDb).toBeNull();
+      expect(estimateNoise(Array(10).fill(0))).toMatchObject({ noiseFloorDb: null, snrDb: null });
+    });
+
+    it('should report an unknown floor when the VAD finds too few pauses', () => {
+      const continuous = Array.from({ length: 100 }, (_, i) => (i < 95 ? 0.1 : 0.001));
+      const estimate = estimateNoise(continuous, continuous.map(r => r > 0.05));
+      expect(estimate.noiseFloorDb).toBeNull();
+      expect(estimate.snrDb).toBeNull();
+      expect(estimate.speechLevelDb).toBeCloseTo(-20, 1);
+    });
+  });
+
+  describe('features', () => {
+    it('should report lower SNR and a higher floor as room noise rises', () => {
+      const quiet = extractFeatures(burstsInNoise(0.002));
+      const noisy = extractFeatures(burstsInNoise(0.03));
+
+      expect(noisy.noiseFloorDb).toBeGreaterThan((quiet.noiseFloorDb ?? NaN) + 15);
+      expect(noisy.snrDb).toBeLessThan((quiet.snrDb ?? NaN) - 15);
+      expect(quiet.snrDb).toBeGreaterThan(25);
+    });
+  });
+});
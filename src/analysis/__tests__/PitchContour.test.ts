@@ -0,0 +1,78 @@
+/**
+ * Unit tests for PitchContour
+ * Each cleanup stage on hand-made contours (0 = unvoiced)
+ */
+
+import { cleanPitchContour } from '../PitchContour';
+
+function steady(hz: number, length: number): number[] {
+  return Array.from({ length }, () => hz);
+}
+
+describe('PitchContour', () => {
+  it('should leave a clean contour untouched', () => {
+    const glide = Array.from({ length: 30 }, (_, i) => 150 + i);
+    const result = cleanPitchContour(glide);
+
+    expect(result.pitches).toEqual(glide);
+    expect(result.correctedFrames).toBe(0);
+  });
+
+  it('should fold octave jumps back to the running median', () => {
+    const pitches = steady(120, 20);
+    pitches[5] = 240;
+    pitches[12] = 60.5;
+
+    const result = cleanPitchContour(pitches, { medianRadius: 0 });
+
+    expect(result.pitches[5]).toBe(120);
+    expect(result.pitches[12]).toBe(121);
+    expect(result.correctedFrames).toBe(2);
+  });
+
+  it('should not shift jumps that are not close to an octave', () => {
+    const pitches = steady(120, 20);
+    pitches[5] = 190;
+
+    const result = cleanPitchContour(pitches, { medianRadius: 0 });
+
+    expect(result.pitches[5]).toBe(190);
+    expect(result.correctedFrames).toBe(0);
+  });
+
+  it('should drop voiced blips shorter than the minimum segment', () => {
+    const pitches = [...steady(0, 10), 200, 200, ...steady(0, 10), ...steady(150, 5)];
+
+    const result = cleanPitchContour(pitches);
+
+    expect(result.pitches.slice(0, 22).every(p => p === 0)).toBe(true);
+    expect(result.pitches.slice(22)).toEqual(steady(150, 5));
+    expect(result.correctedFrames).toBe(2);
+  });
+
+  it('should bridge short gaps but not pauses', () => {
+    const pitches = [...steady(100, 5), 0, 0, ...steady(400, 5), ...steady(0, 6), ...steady(400, 5)];
+
+    const result = cleanPitchContour(pitches, { medianRadius: 0, referenceRadius: 0 });
+
+    expect(result.pitches[5]).toBeCloseTo(158.74, 2);
+    expect(result.pitches[6]).toBeCloseTo(251.98, 2);
+    expect(result.pitches.slice(12, 18)).toEqual(steady(0, 6));
+    expect(result.correctedFrames).toBe(2);
+  });
+
+  it('should replace non-octave outliers with the local median', () => {
+    const pitches = steady(200, 10);
+    pitches[4] = 330;
+
+    const result = cleanPitchContour(pitches);
+
+    expect(result.pitches).toEqual(steady(200, 10));
+    expect(result.correctedFrames).toBe(1);
+  });
+
+  it('should handle empty and fully unvoiced contours', () => {
+    expect(cleanPitchContour([])).toEqual({ pitches: [], correctedFrames: 0 });
+    expect(cleanPitchContour(steady(0, 5))).toEqual({ pitches: steady(0, 5), correctedFrames: 0 });
+  });
+});
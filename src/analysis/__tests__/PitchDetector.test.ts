@@ -6,8 +6,14 @@
 import {
   detectPitchYIN,
   detectPitchAutocorrelation,
+  detectPitchMPM,
+  detectPitchCepstral,
   detectPitchFrames,
+  yinDifference,
+  yinDifferenceDirect,
 } from '../PitchDetector';
+import { synthesizeVoice } from '../SyntheticVoice';
+import { resolvePitchTracker } from '../PitchTracking';
 
 const sampleRate = 16000;
 
@@ -24,6 +30,18 @@ function generateSineWave(
   return samples;
 }
 
+/** One 1024-sample frame from the middle of a synthetic vowel */
+function voiceFrame(hz: number): Float32Array {
+  const buffer = synthesizeVoice({ durationSeconds: 0.5, f0Contour: [{ timeSeconds: 0, hz }] });
+  return buffer.samples.slice(4000, 5024);
+}
+
+/** One frame of white noise */
+function noiseFrame(): Float32Array {
+  const buffer = synthesizeVoice({ durationSeconds: 0.5, peakAmplitude: 0, backgroundNoiseDb: -20 });
+  return buffer.samples.slice(4000, 5024);
+}
+
 describe('PitchDetector', () => {
   describe('detectPitchYIN', () => {
     it('should return unvoiced for silence', () => {
@@ -47,6 +65,35 @@ describe('PitchDetector', () => {
     });
   });
 
+  describe('yinDifference', () => {
+    function expectEquivalent(frame: Float32Array, frameSize: number, lagCount: number): void {
+      const direct = yinDifferenceDirect(frame, frameSize, lagCount);
+      const viaFft = yinDifference(frame, frameSize, lagCount);
+      const energy = frame.reduce((sum, s) => sum + s * s, 0);
+
+      expect(viaFft).toHaveLength(direct.length);
+      direct.forEach((value, tau) => {
+        expect(Math.abs(viaFft[tau] - value)).toBeLessThan(1e-9 * energy);
+      });
+    }
+
+    it('should match the direct difference function', () => {
+      expectEquivalent(voiceFrame(140), 1024, 321);
+      expectEquivalent(noiseFrame(), 1024, 321);
+      expectEquivalent(generateSineWave(220, 1024), 1024, 1024);
+    });
+
+    it('should stay correct when frame sizes change between calls', () => {
+      expectEquivalent(voiceFrame(200), 1024, 400);
+      expectEquivalent(voiceFrame(200).subarray(0, 512), 512, 200);
+      expectEquivalent(voiceFrame(90).subarray(0, 700), 700, 300);
+    });
+
+    it('should stop at the frame length', () => {
+      expect(yinDifference(new Float32Array(64), 64, 1000)).toHaveLength(64);
+    });
+  });
+
   describe('detectPitchAutocorrelation', () => {
     it('should return unvoiced for silence', () => {
       const samples = new Float32Array(1024);
@@ -66,6 +113,60 @@ describe('PitchDetector', () => {
       expect(result.pitch).toBeLessThan(220);
       expect(result.confidence).toBeGreaterThan(0.1);
     });
+
+    it('should report no pitch for noise', () => {
+      const result = detectPitchAutocorrelation(noiseFrame(), sampleRate);
+
+      expect(result.isVoiced).toBe(false);
+      expect(result.pitch).toBe(0);
+    });
+  });
+
+  describe('detectPitchMPM', () => {
+    it('should return unvoiced for silence', () => {
+      const result = detectPitchMPM(new Float32Array(1024), sampleRate);
+
+      expect(result.pitch).toBe(0);
+      expect(result.isVoiced).toBe(false);
+    });
+
+    it('should detect a sine wave pitch', () => {
+      const result = detectPitchMPM(generateSineWave(220, 1024), sampleRate);
+
+      expect(result.pitch).toBeCloseTo(220, 0);
+      expect(result.confidence).toBeGreaterThan(0.9);
+    });
+
+    it('should detect the F0 of a vowel, not a formant', () => {
+      const result = detectPitchMPM(voiceFrame(140), sampleRate);
+
+      expect(result.isVoiced).toBe(true);
+      expect(Math.abs(result.pitch - 140)).toBeLessThan(2);
+    });
+
+    it('should report no pitch for noise', () => {
+      expect(detectPitchMPM(noiseFrame(), sampleRate).isVoiced).toBe(false);
+    });
+  });
+
+  describe('detectPitchCepstral', () => {
+    it('should return unvoiced for silence', () => {
+      const result = detectPitchCepstral(new Float32Array(1024), sampleRate);
+
+      expect(result.pitch).toBe(0);
+      expect(result.confidence).toBe(0);
+    });
+
+    it('should detect the F0 of a harmonic-rich vowel', () => {
+      const result = detectPitchCepstral(voiceFrame(140), sampleRate);
+
+      expect(result.isVoiced).toBe(true);
+      expect(Math.abs(result.pitch - 140)).toBeLessThan(3);
+    });
+
+    it('should report no pitch for noise', () => {
+      expect(detectPitchCepstral(noiseFrame(), sampleRate).isVoiced).toBe(false);
+    });
   });
 
   describe('detectPitchFrames', () => {
@@ -84,5 +185,15 @@ describe('PitchDetector', () => {
         expect(pitch).toBeGreaterThan(0);
       });
     });
+
+    it('should use a given tracker', () => {
+      const samples = generateSineWave(220, 1024 + 512 * 2);
+      const result = detectPitchFrames(samples, sampleRate, 1024, 512, resolvePitchTracker({ tracker: 'mpm' }));
+
+      expect(result.voicedFrames).toBe(3);
+      result.pitches.forEach(pitch => {
+        expect(pitch).toBeCloseTo(220, 0);
+      });
+    });
   });
 });
@@ -0,0 +1,220 @@
+/**
+ * Unit tests for PitchTracking
+ * Registry and fallback policy, plus a comparison of every tracker against
+ * the synthetic golden corpus, where the true F0 and pauses are known
+ */
+
+import {
+  registerPitchTracker,
+  getPitchTracker,
+  listPitchTrackers,
+  resolvePitchTracker,
+  PitchTracker,
+  PitchTrackerId,
+  PitchTrackingConfig,
+} from '../PitchTracking';
+import { detectPitchFrames } from '../PitchDetector';
+import { synthesizeVoice, f0At, DEFAULT_SYNTHETIC_VOICE_CONFIG } from '../SyntheticVoice';
+import { GOLDEN_CORPUS, GoldenCase } from '@/regression/GoldenCorpus';
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+/** Formant ringing after a pause starts, excluded from the unvoiced truth */
+const RING_SECONDS = 0.03;
+
+interface TrackMetrics {
+  /** Voiced frames detected as voiced */
+  readonly recall: number;
+  /** Detected frames more than 20% off the true F0 */
+  readonly grossErrorRate: number;
+  /** Frames inside pauses reported as voiced */
+  readonly falseAlarmRate: number;
+}
+
+/**
+ * Score a tracker on one corpus case
+ * Frames touching a pause edge have no clear truth and are skipped.
+ */
+function evaluate(goldenCase: GoldenCase, config: Partial<PitchTrackingConfig>): TrackMetrics {
+  const voice = { ...DEFAULT_SYNTHETIC_VOICE_CONFIG, ...goldenCase.voice };
+  const buffer = synthesizeVoice(voice);
+  const { pitches } = detectPitchFrames(
+    buffer.samples,
+    buffer.sampleRate,
+    FRAME_SIZE,
+    HOP_SIZE,
+    resolvePitchTracker(config)
+  );
+
+  let voiced = 0;
+  let detected = 0;
+  let gross = 0;
+  let silent = 0;
+  let falseAlarms = 0;
+
+  pitches.forEach((pitch, i) => {
+    const start = (i * HOP_SIZE) / buffer.sampleRate;
+    const end = start + FRAME_SIZE / buffer.sampleRate;
+    const insidePause = voice.pauses.some(
+      p => start >= p.startSeconds + RING_SECONDS && end <= p.startSeconds + p.durationSeconds
+    );
+    const touchesPause = voice.pauses.some(
+      p => p.startSeconds < end + RING_SECONDS && p.startSeconds + p.durationSeconds > start
+    );
+
+    if (insidePause) {
+      silent++;
+      if (pitch > 0) falseAlarms++;
+    } else if (!touchesPause) {
+      voiced++;
+      if (pitch > 0) {
+        detected++;
+        const truth = f0At(voice.f0Contour, (start + end) / 2);
+        if (Math.abs(pitch - truth) / truth > 0.2) gross++;
+      }
+    }
+  });
+
+  return {
+    recall: voiced > 0 ? detected / voiced : 1,
+    grossErrorRate: detected > 0 ? gross / detected : 0,
+    falseAlarmRate: silent > 0 ? falseAlarms / silent : 0,
+  };
+}
+
+const HARD_CASES = ['breathy', 'noisy_room'];
+const cleanCases = GOLDEN_CORPUS.filter(c => !HARD_CASES.includes(c.id));
+const hardCases = GOLDEN_CORPUS.filter(c => HARD_CASES.includes(c.id));
+
+describe('PitchTracking', () => {
+  describe('registry', () => {
+    it('should register the built-in trackers', () => {
+      expect(listPitchTrackers()).toEqual(['yin', 'autocorrelation', 'mpm', 'cepstral', 'pyin']);
+      expect(getPitchTracker('mpm').id).toBe('mpm');
+    });
+
+    it('should reject unknown ids', () => {
+      expect(() => getPitchTracker('crepe' as PitchTrackerId)).toThrow('Unknown pitch tracker');
+    });
+
+    it('should let an implementation be replaced', () => {
+      const original = getPitchTracker('cepstral');
+      const stub: PitchTracker = {
+        id: 'cepstral',
+        detect: () => ({ pitch: 123, confidence: 1, isVoiced: true }),
+      };
+
+      registerPitchTracker(stub);
+      try {
+        expect(resolvePitchTracker({ tracker: 'cepstral' }).detect(new Float32Array(1024), 16000).pitch).toBe(123);
+      } finally {
+        registerPitchTracker(original);
+      }
+    });
+  });
+
+  describe('fallback policy', () => {
+    const frame = new Float32Array(1024);
+    const calls: string[] = [];
+    const fixed = (id: PitchTrackerId, pitch: number, confidence: number): PitchTracker => ({
+      id,
+      detect: () => {
+        calls.push(id);
+        return { pitch, confidence, isVoiced: pitch > 0 };
+      },
+    });
+    let originals: PitchTracker[] = [];
+
+    beforeEach(() => {
+      calls.length = 0;
+      originals = (['yin', 'mpm'] as PitchTrackerId[]).map(getPitchTracker);
+    });
+
+    afterEach(() => {
+      originals.forEach(registerPitchTracker);
+    });
+
+    it('should keep confident primary results without consulting the fallback', () => {
+      registerPitchTracker(fixed('yin', 150, 0.9));
+      registerPitchTracker(fixed('mpm', 300, 0.9));
+
+      const result = resolvePitchTracker({ tracker: 'yin', fallback: 'mpm' }).detect(frame, 16000);
+
+      expect(result.pitch).toBe(150);
+      expect(calls).toEqual(['yin']);
+    });
+
+    it('should retry low-confidence frames with the fallback', () => {
+      registerPitchTracker(fixed('yin', 150, 0.3));
+      registerPitchTracker(fixed('mpm', 148, 0.8));
+
+      const result = resolvePitchTracker({
+        tracker: 'yin',
+        fallback: 'mpm',
+        fallbackBelowConfidence: 0.5,
+      }).detect(frame, 16000);
+
+      expect(result.pitch).toBe(148);
+      expect(calls).toEqual(['yin', 'mpm']);
+    });
+
+    it('should keep the primary result when the fallback finds no pitch either', () => {
+      registerPitchTracker(fixed('yin', 0, 0.2));
+      registerPitchTracker(fixed('mpm', 0, 0.1));
+
+      const result = resolvePitchTracker({ tracker: 'yin', fallback: 'mpm' }).detect(frame, 16000);
+
+      expect(result).toEqual({ pitch: 0, confidence: 0.2, isVoiced: false });
+    });
+
+    it('should use the primary alone without a fallback', () => {
+      expect(resolvePitchTracker({ tracker: 'mpm' })).toBe(getPitchTracker('mpm'));
+    });
+  });
+
+  describe('comparison across the synthetic corpus', () => {
+    describe.each(listPitchTrackers())('%s', tracker => {
+      it.each(cleanCases.map(c => [c.id, c] as const))(
+        'should track %s accurately',
+        (_, goldenCase) => {
+          const metrics = evaluate(goldenCase, { tracker });
+
+          expect(metrics.recall).toBeGreaterThan(0.85);
+          expect(metrics.grossErrorRate).toBeLessThan(0.05);
+          expect(metrics.falseAlarmRate).toBeLessThan(0.05);
+        }
+      );
+    });
+
+    it.each(hardCases.map(c => [c.id, c] as const))(
+      'should track %s with the correlation trackers',
+      (_, goldenCase) => {
+        for (const tracker of ['mpm', 'autocorrelation'] as PitchTrackerId[]) {
+          const metrics = evaluate(goldenCase, { tracker });
+
+          expect(metrics.recall).toBeGreaterThan(0.9);
+          expect(metrics.grossErrorRate).toBeLessThan(0.05);
+        }
+      }
+    );
+
+    it('should track noisy_room with pYIN where YIN mistracks', () => {
+      const noisy = GOLDEN_CORPUS.find(c => c.id === 'noisy_room') as GoldenCase;
+      const metrics = evaluate(noisy, { tracker: 'pyin' });
+
+      expect(metrics.recall).toBeGreaterThan(0.9);
+      expect(metrics.grossErrorRate).toBeLessThan(0.05);
+    });
+
+    it('should recover breathy frames YIN rejects by falling back to MPM', () => {
+      // Breathier than the corpus case, past the point where YIN stops finding pitch
+      const corpusCase = GOLDEN_CORPUS.find(c => c.id === 'breathy') as GoldenCase;
+      const breathy = { ...corpusCase, voice: { ...corpusCase.voice, aspirationNoise: 0.8 } };
+      const yinOnly = evaluate(breathy, { tracker: 'yin' });
+      const withFallback = evaluate(breathy, { tracker: 'yin', fallback: 'mpm' });
+
+      expect(withFallback.recall).toBeGreaterThan(yinOnly.recall + 0.5);
+      expect(withFallback.falseAlarmRate).toBe(0);
+    });
+  });
+});
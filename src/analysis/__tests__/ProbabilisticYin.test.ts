@@ -0,0 +1,133 @@
+/**
+ * Unit tests for ProbabilisticYin
+ * Candidate probabilities per frame and Viterbi smoothing across frames
+ */
+
+import {
+  pyinCandidates,
+  detectPitchPYIN,
+  decodePitchTrack,
+  smoothPitchResults,
+} from '../ProbabilisticYin';
+import { synthesizeVoice, DEFAULT_SYNTHETIC_VOICE_CONFIG } from '../SyntheticVoice';
+import extractFeatures from '../FeatureExtractor';
+import { detectPitchFrames } from '../PitchDetector';
+import { resolvePitchTracker } from '../PitchTracking';
+import { GOLDEN_CORPUS, GoldenCase } from '@/regression/GoldenCorpus';
+import { PitchCandidate } from '../types';
+
+const sampleRate = 16000;
+
+/** One 1024-sample frame from the middle of a synthetic vowel */
+function voiceFrame(hz: number): Float32Array {
+  const buffer = synthesizeVoice({ durationSeconds: 0.5, f0Contour: [{ timeSeconds: 0, hz }] });
+  return buffer.samples.slice(4000, 5024);
+}
+
+/** One frame of white noise */
+function noiseFrame(): Float32Array {
+  const buffer = synthesizeVoice({ durationSeconds: 0.5, peakAmplitude: 0, backgroundNoiseDb: -20 });
+  return buffer.samples.slice(4000, 5024);
+}
+
+function sure(pitch: number): PitchCandidate[] {
+  return [{ pitch, probability: 0.9 }];
+}
+
+describe('ProbabilisticYin', () => {
+  describe('pyinCandidates', () => {
+    it('should put most probability on the true pitch of a vowel', () => {
+      const candidates = pyinCandidates(voiceFrame(150), sampleRate);
+      const total = candidates.reduce((sum, c) => sum + c.probability, 0);
+      const best = candidates.reduce((a, b) => (b.probability > a.probability ? b : a));
+
+      expect(total).toBeGreaterThan(0.9);
+      expect(total).toBeLessThanOrEqual(1 + 1e-9);
+      expect(best.pitch).toBeCloseTo(150, -1);
+    });
+
+    it('should return no candidates for silence', () => {
+      expect(pyinCandidates(new Float32Array(1024), sampleRate)).toEqual([]);
+    });
+  });
+
+  describe('detectPitchPYIN', () => {
+    it('should report the voicing probability as confidence', () => {
+      const voiced = detectPitchPYIN(voiceFrame(220), sampleRate);
+      const noise = detectPitchPYIN(noiseFrame(), sampleRate);
+
+      expect(voiced.isVoiced).toBe(true);
+      expect(voiced.pitch).toBeCloseTo(220, -1);
+      expect(voiced.candidates?.length).toBeGreaterThan(0);
+      expect(noise.isVoiced).toBe(false);
+      expect(noise.confidence).toBeLessThan(0.5);
+    });
+  });
+
+  describe('decodePitchTrack', () => {
+    it('should follow the octave-consistent path through an outlier', () => {
+      const frames = Array.from({ length: 20 }, () => sure(150));
+      frames[10] = [
+        { pitch: 300, probability: 0.6 },
+        { pitch: 150, probability: 0.3 },
+      ];
+
+      const track = decodePitchTrack(frames);
+
+      expect(track.every(f => f.isVoiced)).toBe(true);
+      expect(track[10].pitch).toBe(150);
+    });
+
+    it('should keep voicing through a doubtful frame but not a long silence', () => {
+      const frames: PitchCandidate[][] = [
+        ...Array.from({ length: 10 }, () => sure(200)),
+        [{ pitch: 201, probability: 0.3 }],
+        ...Array.from({ length: 10 }, () => sure(200)),
+        ...Array.from({ length: 15 }, () => []),
+        ...Array.from({ length: 10 }, () => sure(180)),
+      ];
+
+      const track = decodePitchTrack(frames);
+
+      expect(track[10].isVoiced).toBe(true);
+      expect(track[10].pitch).toBe(201);
+      expect(track[10].voicedProbability).toBe(0.3);
+      expect(track.slice(22, 35).every(f => !f.isVoiced && f.pitch === 0)).toBe(true);
+      expect(track[40].pitch).toBe(180);
+    });
+
+    it('should handle an empty sequence', () => {
+      expect(decodePitchTrack([])).toEqual([]);
+    });
+  });
+
+  describe('smoothPitchResults', () => {
+    it('should use the single pitch of results without candidates', () => {
+      const results = Array.from({ length: 5 }, () => ({ pitch: 120, confidence: 0.9, isVoiced: true }));
+
+      expect(smoothPitchResults(results).map(r => r.pitch)).toEqual([120, 120, 120, 120, 120]);
+    });
+  });
+
+  describe('as a pitch tracker', () => {
+    const steady = GOLDEN_CORPUS.find(c => c.id === 'steady_low') as GoldenCase;
+    const buffer = synthesizeVoice({ ...DEFAULT_SYNTHETIC_VOICE_CONFIG, ...steady.voice });
+
+    it('should avoid the octave errors YIN makes at pause edges', () => {
+      const offPitch = (tracker: 'yin' | 'pyin') =>
+        detectPitchFrames(buffer.samples, sampleRate, 1024, 512, resolvePitchTracker({ tracker }))
+          .pitches.filter(p => p > 0 && Math.abs(p - 120) / 120 > 0.2).length;
+
+      expect(offPitch('yin')).toBeGreaterThan(0);
+      expect(offPitch('pyin')).toBe(0);
+    });
+
+    it('should be selectable for extractFeatures', () => {
+      const features = extractFeatures(buffer, { pitch: { tracker: 'pyin' } });
+
+      expect(features.pitchVariance).toBeLessThan(0.01);
+      expect(features.pitchMean).toBeCloseTo(120, 0);
+      expect(features.voicedRatio).toBeGreaterThan(0.8);
+    });
+  });
+});
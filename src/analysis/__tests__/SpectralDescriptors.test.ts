@@ -0,0 +1,112 @@
+/**
+ * Unit tests for SpectralDescriptors
+ * Each descriptor on tones, tone pairs and noise with known spectra
+ */
+
+import {
+  describeSpectrum,
+  frameSpectrum,
+  spectralFlux,
+  spectralSlope,
+  alphaRatio,
+  hammarbergIndex,
+} from '../SpectralDescriptors';
+
+const sampleRate = 16000;
+const frameSize = 1024;
+
+/** Sum of sines, given as [Hz, amplitude] pairs */
+function tones(...components: [number, number][]): Float32Array {
+  return Float32Array.from({ length: frameSize }, (_, i) =>
+    components.reduce((sum, [hz, amplitude]) => sum + amplitude * Math.sin((2 * Math.PI * hz * i) / sampleRate), 0)
+  );
+}
+
+/** Deterministic white noise (LCG) */
+function whiteNoise(seed = 1): Float32Array {
+  let state = seed;
+  return Float32Array.from({ length: frameSize }, () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return (state / 0xffffffff) * 2 - 1;
+  });
+}
+
+describe('SpectralDescriptors', () => {
+  describe('describeSpectrum', () => {
+    it('should describe a pure tone as narrow and tonal', () => {
+      const d = describeSpectrum(frameSpectrum(tones([1000, 0.5])), sampleRate);
+      expect(d.centroid).toBeCloseTo(1000, -2);
+      expect(d.rolloff).toBeCloseTo(1000, -2);
+      expect(d.bandwidth).toBeLessThan(200);
+      expect(d.flatness).toBeLessThan(0.01);
+      expect(d.entropy).toBeLessThan(0.3);
+    });
+
+    it('should describe white noise as broad, flat and level', () => {
+      const d = describeSpectrum(frameSpectrum(whiteNoise()), sampleRate);
+      expect(d.centroid).toBeCloseTo(4000, -3);
+      expect(d.rolloff).toBeGreaterThan(6000);
+      expect(d.bandwidth).toBeGreaterThan(2000);
+      // Flatness of a noise periodogram is about exp(-γ) ≈ 0.56
+      expect(d.flatness).toBeGreaterThan(0.4);
+      expect(d.entropy).toBeGreaterThan(0.9);
+      expect(Math.abs(d.slope)).toBeLessThan(1);
+    });
+
+    it('should report silence as flat with neutral ratios', () => {
+      const d = describeSpectrum(frameSpectrum(new Float32Array(frameSize)), sampleRate);
+      expect(d).toEqual({
+        centroid: 0,
+        bandwidth: 0,
+        rolloff: 0,
+        flatness: 1,
+        entropy: 1,
+        slope: 0,
+        alphaRatio: 0,
+        hammarbergIndex: 0,
+      });
+    });
+  });
+
+  describe('spectralFlux', () => {
+    it('should stay near zero between consecutive frames of a steady tone', () => {
+      const signal = tones([1000, 0.5]);
+      const half = frameSize / 2;
+      const previous = frameSpectrum(signal.subarray(0, half)).magnitude;
+      const current = frameSpectrum(signal.subarray(half)).magnitude;
+      expect(spectralFlux(previous, current)).toBeLessThan(0.05);
+    });
+
+    it('should see a change of tone from one frame to the next', () => {
+      const previous = frameSpectrum(tones([500, 0.5])).magnitude;
+      const current = frameSpectrum(tones([3000, 0.5])).magnitude;
+      expect(spectralFlux(previous, current)).toBeGreaterThan(1);
+    });
+
+    it('should ignore level changes', () => {
+      const { magnitude } = frameSpectrum(tones([700, 0.5]));
+      expect(spectralFlux(magnitude, magnitude.map(v => v * 4))).toBeCloseTo(0, 6);
+    });
+  });
+
+  describe('spectralSlope', () => {
+    it('should fall for a spectrum dominated by low frequencies', () => {
+      const { magnitude, fftSize } = frameSpectrum(tones([200, 1], [1000, 0.1], [3000, 0.01]));
+      expect(spectralSlope(magnitude, sampleRate, fftSize)).toBeLessThan(-2);
+    });
+  });
+
+  describe('band ratios', () => {
+    it('should give the alpha ratio of two tones in dB', () => {
+      // 500 Hz at amplitude 1 against 2 kHz at 0.1: 20 dB
+      const { magnitude, fftSize } = frameSpectrum(tones([500, 1], [2000, 0.1]));
+      expect(alphaRatio(magnitude, sampleRate, fftSize)).toBeCloseTo(20, 0);
+    });
+
+    it('should give the Hammarberg index of two peaks in dB', () => {
+      // 1 kHz at amplitude 1 against 3 kHz at 0.01: 40 dB
+      const { magnitude, fftSize } = frameSpectrum(tones([1000, 1], [3000, 0.01]));
+      expect(hammarbergIndex(magnitude, sampleRate, fftSize)).toBeCloseTo(40, 0);
+    });
+  });
+});
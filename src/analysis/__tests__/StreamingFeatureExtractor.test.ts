@@ -0,0 +1,116 @@
+/**
+ * Unit tests for StreamingFeatureExtractor
+ * Streaming output must match the batch extractor exactly
+ */
+
+import { StreamingFeatureExtractor } from '../StreamingFeatureExtractor';
+import extractFeatures from '../FeatureExtractor';
+import { AudioBuffer } from '../types';
+
+const sampleRate = 16000;
+
+/**
+ * Gliding, amplitude-modulated tone so every feature changes over time
+ */
+function generateGlide(length: number): Float32Array {
+  const samples = new Float32Array(length);
+  let phase = 0;
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const frequency = 180 + 60 * Math.sin(2 * Math.PI * 1.5 * t);
+    phase += (2 * Math.PI * frequency) / sampleRate;
+    const envelope = 0.3 + 0.2 * Math.sin(2 * Math.PI * 3 * t);
+    samples[i] = envelope * (Math.sin(phase) + 0.3 * Math.sin(2 * phase));
+  }
+  return samples;
+}
+
+function toBuffer(samples: Float32Array): AudioBuffer {
+  return {
+    samples,
+    sampleRate,
+    channels: 1,
+    durationMs: (samples.length / sampleRate) * 1000,
+  };
+}
+
+function pushInChunks(
+  extractor: StreamingFeatureExtractor,
+  samples: Float32Array,
+  chunkSizes: number[]
+): void {
+  let offset = 0;
+  let i = 0;
+  while (offset < samples.length) {
+    const size = chunkSizes[i % chunkSizes.length];
+    extractor.push(samples.subarray(offset, offset + size));
+    offset += size;
+    i++;
+  }
+}
+
+describe('StreamingFeatureExtractor', () => {
+  const samples = generateGlide(sampleRate);
+
+  it('should match the batch extractor for irregular chunk sizes', () => {
+    const extractor = new StreamingFeatureExtractor(sampleRate);
+    pushInChunks(extractor, samples, [100, 1500, 333, 4096, 1, 777]);
+
+    expect(extractor.snapshot()).toEqual(extractFeatures(toBuffer(samples)));
+  });
+
+  it('should match the batch extractor on the audio received so far', () => {
+    const extractor = new StreamingFeatureExtractor(sampleRate);
+    const prefix = samples.subarray(0, 7000);
+    pushInChunks(extractor, prefix, [640]);
+
+    expect(extractor.snapshot()).toEqual(extractFeatures(toBuffer(prefix)));
+    expect(extractor.durationMs).toBeCloseTo(7000 / 16, 9);
+  });
+
+  it('should match the batch extractor when the VAD leaves frames out', () => {
+    // Silent lead-in and a pause in the middle
+    const paused = new Float32Array(samples.length + 12000);
+    paused.set(samples.subarray(0, 8000), 6000);
+    paused.set(samples.subarray(8000), 20000);
+    const extractor = new StreamingFeatureExtractor(sampleRate);
+    pushInChunks(extractor, paused, [1200, 50]);
+
+    const features = extractor.snapshot();
+    expect(features.speechDurationSeconds).toBeLessThan(features.durationSeconds - 0.5);
+    expect(features).toEqual(extractFeatures(toBuffer(paused)));
+  });
+
+  it('should match the batch extractor with a sequence tracker', () => {
+    const options = { pitch: { tracker: 'pyin' as const } };
+    const extractor = new StreamingFeatureExtractor(sampleRate, options);
+    pushInChunks(extractor, samples, [2048, 300]);
+
+    expect(extractor.snapshot()).toEqual(extractFeatures(toBuffer(samples), options));
+  });
+
+  it('should analyze frames as soon as they are complete', () => {
+    const extractor = new StreamingFeatureExtractor(sampleRate);
+
+    extractor.push(samples.subarray(0, 1023));
+    expect(extractor.frameCount).toBe(0);
+    expect(extractor.latestFrame).toBeNull();
+
+    extractor.push(samples.subarray(1023, 1024));
+    expect(extractor.frameCount).toBe(1);
+
+    extractor.push(samples.subarray(1024, 1536));
+    expect(extractor.frameCount).toBe(2);
+    expect(extractor.latestFrame?.isVoiced).toBe(true);
+  });
+
+  it('should clear state on reset', () => {
+    const extractor = new StreamingFeatureExtractor(sampleRate);
+    extractor.push(samples.subarray(0, 4096));
+    extractor.reset();
+
+    expect(extractor.frameCount).toBe(0);
+    expect(extractor.durationMs).toBe(0);
+    expect(extractor.snapshot().rms).toBe(0);
+  });
+});
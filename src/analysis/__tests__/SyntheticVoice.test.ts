@@ -0,0 +1,174 @@
+/**
+ * Unit tests for SyntheticVoice
+ * Determinism, ground-truth cycles, and known-answer checks for the
+ * pitch detector, feature extractor and scores
+ */
+
+import { generateVoice, synthesizeVoice, f0At } from '../SyntheticVoice';
+import { detectPitchFrames } from '../PitchDetector';
+import { extractFeatures } from '../FeatureExtractor';
+import { calculateScores } from '@/scoring/ScoreCalculator';
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function meanAbsRelativeDiff(values: number[]): number {
+  let diffSum = 0;
+  for (let i = 1; i < values.length; i++) {
+    diffSum += Math.abs(values[i] - values[i - 1]);
+  }
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return diffSum / (values.length - 1) / mean;
+}
+
+describe('SyntheticVoice', () => {
+  describe('generation', () => {
+    it('should be deterministic for a seed', () => {
+      const config = { jitter: 0.02, shimmer: 0.05, aspirationNoise: 0.3, backgroundNoiseDb: -50 };
+      const a = synthesizeVoice({ ...config, seed: 7 });
+      const b = synthesizeVoice({ ...config, seed: 7 });
+      const c = synthesizeVoice({ ...config, seed: 8 });
+
+      expect(a.samples).toEqual(b.samples);
+      expect(a.samples).not.toEqual(c.samples);
+    });
+
+    it('should produce a mono buffer of the requested length and peak', () => {
+      const buffer = synthesizeVoice({ sampleRate: 22050, durationSeconds: 1.5 });
+      const peak = buffer.samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+
+      expect(buffer.channels).toBe(1);
+      expect(buffer.sampleRate).toBe(22050);
+      expect(buffer.samples.length).toBe(Math.round(1.5 * 22050));
+      expect(buffer.durationMs).toBeCloseTo(1500, 6);
+      expect(peak).toBeCloseTo(0.5, 6);
+    });
+
+    it('should interpolate the F0 contour', () => {
+      const contour = [
+        { timeSeconds: 0, hz: 100 },
+        { timeSeconds: 2, hz: 200 },
+      ];
+
+      expect(f0At(contour, -1)).toBe(100);
+      expect(f0At(contour, 1)).toBe(150);
+      expect(f0At(contour, 5)).toBe(200);
+    });
+
+    it('should report cycles matching the configured F0, jitter and shimmer', () => {
+      const { cycles } = generateVoice({
+        f0Contour: [{ timeSeconds: 0, hz: 150 }],
+        jitter: 0.02,
+        shimmer: 0.08,
+        durationSeconds: 4,
+      });
+      const periods = cycles.map(c => c.periodSeconds);
+      const meanPeriod = periods.reduce((a, b) => a + b, 0) / periods.length;
+
+      expect(1 / meanPeriod).toBeCloseTo(150, -1);
+      expect(meanAbsRelativeDiff(periods)).toBeGreaterThan(0.016);
+      expect(meanAbsRelativeDiff(periods)).toBeLessThan(0.024);
+      expect(meanAbsRelativeDiff(cycles.map(c => c.amplitude))).toBeGreaterThan(0.064);
+      expect(meanAbsRelativeDiff(cycles.map(c => c.amplitude))).toBeLessThan(0.096);
+    });
+
+    it('should leave pauses silent when there is no background noise', () => {
+      const { buffer, cycles } = generateVoice({ pauses: [{ startSeconds: 1, durationSeconds: 1 }] });
+      const pause = buffer.samples.subarray(1.1 * 16000, 2 * 16000);
+
+      expect(cycles.every(c => c.startSeconds < 1 || c.startSeconds >= 2)).toBe(true);
+      expect(pause.every(s => Math.abs(s) < 1e-3)).toBe(true);
+    });
+  });
+
+  describe('detectPitchFrames', () => {
+    it.each([120, 200])('should recover a steady %d Hz voice', hz => {
+      const buffer = synthesizeVoice({ f0Contour: [{ timeSeconds: 0, hz }] });
+      const result = detectPitchFrames(buffer.samples, buffer.sampleRate);
+
+      expect(result.voicedFrames).toBe(result.totalFrames);
+      expect(median(result.pitches)).toBeCloseTo(hz, 0);
+    });
+
+    it('should follow a rising contour', () => {
+      const buffer = synthesizeVoice({
+        f0Contour: [
+          { timeSeconds: 0, hz: 100 },
+          { timeSeconds: 3, hz: 250 },
+        ],
+      });
+      const { pitches } = detectPitchFrames(buffer.samples, buffer.sampleRate);
+      const quarter = Math.floor(pitches.length / 4);
+
+      expect(Math.abs(median(pitches.slice(0, quarter)) - 119) / 119).toBeLessThan(0.05);
+      expect(Math.abs(median(pitches.slice(-quarter)) - 231) / 231).toBeLessThan(0.05);
+    });
+
+    it('should find no pitch inside a pause', () => {
+      const buffer = synthesizeVoice({ pauses: [{ startSeconds: 1, durationSeconds: 1 }] });
+      const { pitches } = detectPitchFrames(buffer.samples, buffer.sampleRate);
+      // Frames 40-58 lie inside the pause (1024-sample frames, 512 hop), past
+      // the formant ringing of the last cycle
+      const inPause = pitches.slice(40, 58);
+
+      expect(inPause.every(p => p === 0)).toBe(true);
+    });
+  });
+
+  describe('extractFeatures and calculateScores', () => {
+    it('should measure speech time around pauses', () => {
+      const features = extractFeatures(
+        synthesizeVoice({ pauses: [{ startSeconds: 1, durationSeconds: 1 }] })
+      );
+
+      expect(features.durationSeconds).toBeCloseTo(3, 6);
+      expect(features.speechDurationSeconds).toBeGreaterThan(1.9);
+      expect(features.speechDurationSeconds).toBeLessThan(2.3);
+    });
+
+    it('should estimate SNR from the background noise level', () => {
+      const snrAt = (backgroundNoiseDb: number) =>
+        extractFeatures(
+          synthesizeVoice({ backgroundNoiseDb, pauses: [{ startSeconds: 1, durationSeconds: 1 }] })
+        ).snrDb ?? NaN;
+
+      // Voice RMS is about -15 dBFS
+      expect(snrAt(-40)).toBeGreaterThan(15);
+      expect(snrAt(-40)).toBeLessThan(35);
+      expect(snrAt(-55)).toBeGreaterThan(snrAt(-40));
+    });
+
+    it('should score a clean steady vowel as calm and clear', () => {
+      const scores = calculateScores(extractFeatures(synthesizeVoice()));
+
+      expect(scores.tension).toBeLessThan(20);
+      expect(scores.clarity).toBeGreaterThan(80);
+    });
+
+    it('should lose clarity as aspiration noise rises', () => {
+      const clean = extractFeatures(synthesizeVoice());
+      const breathy = extractFeatures(synthesizeVoice({ aspirationNoise: 0.5 }));
+
+      expect(breathy.zeroCrossingRate).toBeGreaterThan(clean.zeroCrossingRate);
+      expect(calculateScores(breathy).clarity).toBeLessThan(calculateScores(clean).clarity);
+    });
+
+    it('should read pitch movement as tension', () => {
+      const steady = calculateScores(extractFeatures(synthesizeVoice()));
+      const gliding = calculateScores(
+        extractFeatures(
+          synthesizeVoice({
+            f0Contour: [
+              { timeSeconds: 0, hz: 100 },
+              { timeSeconds: 3, hz: 250 },
+            ],
+          })
+        )
+      );
+
+      expect(gliding.tension).toBeGreaterThan(steady.tension + 30);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for VoiceActivityDetector
+ * Frame labeling, hangover, edge trimming and speech-only feature statistics
+ */
+
+import { detectVoiceActivity } from '../VoiceActivityDetector';
+import extractFeatures from '../FeatureExtractor';
+import { AudioBuffer, FrameFeatures } from '../types';
+
+const sampleRate = 16000;
+
+function frame(rms: number, spectralEntropy: number): FrameFeatures {
+  return {
+    centroid: 1000,
+    spectralEntropy,
+    zcr: 0.05,
+    rms,
+    pitch: 0,
+    pitchConfidence: 0,
+    isVoiced: false,
+  };
+}
+
+/**
+ * Deterministic white noise (LCG) so tests do not depend on Math.random
+ */
+function noise(length: number, amplitude: number, seed = 1): Float32Array {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0xffffffff) * 2 - 1);
+  }
+  return samples;
+}
+
+/**
+ * Quiet room noise, one second of a voiced tone, then room noise again
+ */
+function speechWithSilentEdges(): AudioBuffer {
+  const edge = sampleRate / 2;
+  const samples = noise(edge * 2 + sampleRate, 0.003);
+  for (let i = 0; i < sampleRate; i++) {
+    const phase = (2 * Math.PI * 180 * i) / sampleRate;
+    samples[edge + i] += 0.3 * Math.sin(phase) + 0.1 * Math.sin(2 * phase);
+  }
+  return {
+    samples,
+    sampleRate,
+    channels: 1,
+    durationMs: (samples.length / sampleRate) * 1000,
+  };
+}
+
+describe('VoiceActivityDetector', () => {
+  describe('detectVoiceActivity', () => {
+    it('should label loud frames as speech and quiet frames as non-speech', () => {
+      const frames = [frame(0.001, 0.9), frame(0.1, 0.9), frame(0.1, 0.9), frame(0.001, 0.9)];
+      const result = detectVoiceActivity(frames, { hangoverFrames: 0 });
+
+      expect(result.isSpeech).toEqual([false, true, true, false]);
+      expect(result.speechStart).toBe(1);
+      expect(result.speechEnd).toBe(2);
+    });
+
+    it('should accept stationary harmonic input through the entropy test', () => {
+      const frames = Array.from({ length: 10 }, () => frame(0.2, 0.2));
+      expect(detectVoiceActivity(frames).speechFrameCount).toBe(10);
+    });
+
+    it('should reject loud broadband noise near the floor', () => {
+      const frames = Array.from({ length: 10 }, () => frame(0.05, 0.95));
+      expect(detectVoiceActivity(frames).speechFrameCount).toBe(0);
+    });
+
+    it('should bridge short pauses but not extend trailing silence', () => {
+      const quiet = frame(0.001, 0.9);
+      const loud = frame(0.1, 0.9);
+      const frames = [quiet, loud, quiet, quiet, loud, quiet, quiet, quiet];
+
+      const result = detectVoiceActivity(frames, { hangoverFrames: 2 });
+
+      expect(result.isSpeech).toEqual([false, true, true, true, true, false, false, false]);
+      expect(result.speechFrameCount).toBe(4);
+    });
+
+    it('should report no speech for silence', () => {
+      const result = detectVoiceActivity(Array.from({ length: 5 }, () => frame(0, 1)));
+
+      expect(result.speechStart).toBe(-1);
+      expect(result.speechEnd).toBe(-1);
+      expect(result.speechFrameCount).toBe(0);
+    });
+  });
+
+  describe('speech-only feature extraction', () => {
+    const buffer = speechWithSilentEdges();
+    const gated = extractFeatures(buffer);
+    const ungated = extractFeatures(buffer, { speechOnly: false });
+
+    it('should report raw and speech-only durations', () => {
+      expect(gated.durationSeconds).toBeCloseTo(2, 6);
+      expect(gated.speechDurationSeconds).toBeGreaterThan(0.9);
+      expect(gated.speechDurationSeconds).toBeLessThan(1.2);
+    });
+
+    it('should not let silent edges drag energy down or inflate ZCR', () => {
+      expect(gated.rms).toBeGreaterThan(ungated.rms * 1.5);
+      expect(gated.zeroCrossingRate).toBeLessThan(ungated.zeroCrossingRate);
+      expect(gated.voicedRatio).toBeGreaterThan(ungated.voicedRatio);
+    });
+  });
+});
@@ -3,6 +3,9 @@
  * Pure data structures - no implementation
  */
 
+// Type-only: erased at compile time, so there is no runtime cycle with the pipeline
+import type { AnalysisConfig } from './AnalysisPipeline';
+
 /**
  * Raw acoustic features extracted from audio buffer
  * All values are normalized or in standard units
@@ -17,9 +20,39 @@ export interface AcousticFeatures {
   /** Pitch variance (coefficient of variation, 0-1) */
   readonly pitchVariance: number;
 
+  /** Frames the pitch contour cleanup corrected (octave jumps, blips, gaps, outliers) */
+  readonly correctedPitchFrames: number;
+
   /** Spectral centroid mean (brightness indicator, Hz) */
   readonly spectralCentroid: number;
 
+  /** Coefficient of variation of the spectral centroid across voiced frames (lower = steadier timbre) */
+  readonly spectralCentroidCv: number;
+
+  /** Spectral bandwidth mean (spread around the centroid, Hz) */
+  readonly spectralBandwidth: number;
+
+  /** Spectral rolloff mean (85% energy point, Hz) */
+  readonly spectralRolloff: number;
+
+  /** Spectral flatness mean (0 = tonal, 1 = white noise) */
+  readonly spectralFlatness: number;
+
+  /** Spectral entropy mean (0 = single peak, 1 = flat) */
+  readonly spectralEntropy: number;
+
+  /** Spectral slope mean over 0-5 kHz (dB/kHz) */
+  readonly spectralSlope: number;
+
+  /** Spectral flux mean (0 = steady spectrum, up to √2) */
+  readonly spectralFlux: number;
+
+  /** Alpha ratio mean: energy 50-1000 Hz over 1-5 kHz (dB) */
+  readonly alphaRatio: number;
+
+  /** Hammarberg index mean: strongest peak 0-2 kHz over 2-5 kHz (dB) */
+  readonly hammarbergIndex: number;
+
   /** Zero-crossing rate (0-1, proxy for noisiness) */
   readonly zeroCrossingRate: number;
 
@@ -29,11 +62,185 @@ export interface AcousticFeatures {
   /** Jitter proxy: frame-to-frame pitch variation (0-1) */
   readonly jitterProxy: number;
 
+  /** Local jitter (Praat): mean |consecutive glottal period difference| / mean period (0.01 = 1%) */
+  readonly jitterLocal: number;
+
+  /** Local absolute jitter (Praat): mean |consecutive period difference| in seconds */
+  readonly jitterLocalAbsolute: number;
+
+  /** Relative average perturbation (Praat RAP, 3-period smoothing) */
+  readonly jitterRap: number;
+
+  /** Five-point period perturbation quotient (Praat PPQ5) */
+  readonly jitterPpq5: number;
+
+  /** Difference of differences of periods (Praat DDP, 3 × RAP) */
+  readonly jitterDdp: number;
+
   /** Shimmer proxy: frame-to-frame amplitude variation (0-1) */
   readonly shimmerProxy: number;
 
-  /** Duration of analyzed audio in seconds */
+  /** Local shimmer (Praat): mean |consecutive cycle peak difference| / mean peak (0.01 = 1%) */
+  readonly shimmerLocal: number;
+
+  /** Shimmer in dB (Praat): mean |20·log10 of consecutive peak ratios| */
+  readonly shimmerDb: number;
+
+  /** Three-point amplitude perturbation quotient (Praat APQ3) */
+  readonly shimmerApq3: number;
+
+  /** Five-point amplitude perturbation quotient (Praat APQ5) */
+  readonly shimmerApq5: number;
+
+  /** Eleven-point amplitude perturbation quotient (Praat APQ11) */
+  readonly shimmerApq11: number;
+
+  /** Difference of differences of amplitudes (Praat DDA, 3 × APQ3) */
+  readonly shimmerDda: number;
+
+  /** Mean harmonics-to-noise ratio over voiced frames in dB (periodic vs aperiodic energy) */
+  readonly hnrDb: number;
+
+  /** 10th percentile of voiced-frame HNR in dB (the noisiest stretches) */
+  readonly hnrP10Db: number;
+
+  /** Median voiced-frame HNR in dB */
+  readonly hnrMedianDb: number;
+
+  /** 90th percentile of voiced-frame HNR in dB (the cleanest stretches) */
+  readonly hnrP90Db: number;
+
+  /** Mean cepstral peak prominence over voiced frames in dB (harmonic structure) */
+  readonly cppDb: number;
+
+  /** Mean smoothed cepstral peak prominence (CPPS) over voiced frames in dB; lower = breathier */
+  readonly cppsDb: number;
+
+  /** Mean first formant over voiced frames in Hz (LPC; higher = more open vowels) */
+  readonly f1Mean: number;
+
+  /** Standard deviation of F1 across voiced frames in Hz (vowel height range) */
+  readonly f1Std: number;
+
+  /** Mean F1 bandwidth in Hz */
+  readonly f1Bandwidth: number;
+
+  /** Mean second formant over voiced frames in Hz (higher = more front vowels) */
+  readonly f2Mean: number;
+
+  /** Standard deviation of F2 across voiced frames in Hz (vowel frontness range) */
+  readonly f2Std: number;
+
+  /** Mean F2 bandwidth in Hz */
+  readonly f2Bandwidth: number;
+
+  /** Mean third formant over voiced frames in Hz */
+  readonly f3Mean: number;
+
+  /** Standard deviation of F3 across voiced frames in Hz */
+  readonly f3Std: number;
+
+  /** Mean F3 bandwidth in Hz */
+  readonly f3Bandwidth: number;
+
+  /** Duration of analyzed audio in seconds (including silence) */
   readonly durationSeconds: number;
+
+  /** Duration of frames labeled as speech by the VAD, in seconds */
+  readonly speechDurationSeconds: number;
+
+  /** Estimated background noise level in dBFS; null when the clip has too few pauses to measure it */
+  readonly noiseFloorDb: number | null;
+
+  /**
+   * Speech-to-noise ratio in dB (low = noisy room, not necessarily a noisy voice);
+   * null when the noise floor is unknown
+   */
+  readonly snrDb: number | null;
+
+  /** Runs of samples pinned at full scale (clipping) */
+  readonly clippedRunCount: number;
+
+  /** Fraction of frames containing clipped or limiter-flattened runs (0-1) */
+  readonly distortedFrameRatio: number;
+
+  /** Input was flattened at a fixed level below full scale (hard-limiting AGC) */
+  readonly isHardLimited: boolean;
+}
+
+/**
+ * One possible pitch for a frame, from a probabilistic tracker
+ */
+export interface PitchCandidate {
+  /** Pitch in Hz */
+  readonly pitch: number;
+  /** Probability that this is the frame's pitch (candidates sum to at most 1) */
+  readonly probability: number;
+}
+
+/**
+ * One glottal cycle marked in the waveform
+ */
+export interface GlottalCycleMark {
+  /** Period in seconds */
+  readonly period: number;
+  /** Peak amplitude at the start of the cycle */
+  readonly amplitude: number;
+}
+
+/**
+ * One vocal tract resonance estimated from a frame
+ */
+export interface FormantEstimate {
+  /** Center frequency in Hz */
+  readonly frequency: number;
+  /** 3 dB bandwidth in Hz */
+  readonly bandwidth: number;
+}
+
+/**
+ * Analysis of a single frame, before clip-level aggregation
+ */
+export interface FrameFeatures {
+  /** Spectral centroid (Hz) */
+  readonly centroid: number;
+  /** Normalized spectral entropy (0 = tonal, 1 = flat/noise-like) */
+  readonly spectralEntropy: number;
+  /** Spread around the centroid (Hz) */
+  readonly spectralBandwidth?: number;
+  /** 85% energy point (Hz) */
+  readonly spectralRolloff?: number;
+  /** Spectral flatness (0 = tonal, 1 = white noise) */
+  readonly spectralFlatness?: number;
+  /** Slope of the dB spectrum over 0-5 kHz (dB/kHz) */
+  readonly spectralSlope?: number;
+  /** Spectral change from the previous frame (absent for the first frame) */
+  readonly spectralFlux?: number;
+  /** Energy 50-1000 Hz over 1-5 kHz (dB) */
+  readonly alphaRatio?: number;
+  /** Strongest peak 0-2 kHz over 2-5 kHz (dB) */
+  readonly hammarbergIndex?: number;
+  /** Zero-crossing rate (0-1) */
+  readonly zcr: number;
+  /** RMS energy */
+  readonly rms: number;
+  /** Detected pitch in Hz, 0 if none */
+  readonly pitch: number;
+  /** Pitch detector confidence (0-1) */
+  readonly pitchConfidence: number;
+  readonly isVoiced: boolean;
+  /** All pitch hypotheses, when the tracker produces them (for track smoothing) */
+  readonly pitchCandidates?: readonly PitchCandidate[];
+  /** Glottal cycles starting in this frame's hop */
+  readonly glottalCycles?: readonly GlottalCycleMark[];
+  /** Harmonics-to-noise ratio in dB */
+  readonly hnrDb?: number;
+  /** Cepstral peak prominence in dB */
+  readonly cppDb?: number;
+  /** Smoothed cepstral peak prominence in dB */
+  readonly cppsDb?: number;
+  /** Formants sorted by frequency (F1 first) */
+  readonly formants?: readonly FormantEstimate[];
 }
 
 /**
@@ -57,8 +264,14 @@ export interface VoiceScores {
 export interface AnalysisResult {
   readonly scores: VoiceScores;
   readonly insight: string;
+  /** Id of the insight rule that produced the message */
+  readonly insightId: string;
   readonly confidence: 'high' | 'medium' | 'low';
   readonly features: AcousticFeatures;
+  /** ANALYSIS_VERSION of the code that produced this result */
+  readonly analysisVersion: string;
+  /** Pipeline configuration used (prep, preprocessing, feature options) */
+  readonly config: AnalysisConfig;
 }
 
 /**
@@ -74,10 +287,11 @@ export interface RecordingInfo {
  * Audio buffer with metadata for processing
  */
 export interface AudioBuffer {
-  /** PCM float32 samples (-1 to 1) */
+  /** PCM float32 samples (-1 to 1), interleaved when channels > 1 */
   readonly samples: Float32Array;
   readonly sampleRate: number;
   readonly channels: number;
+  /** Duration of one channel (sample frames / sampleRate) */
   readonly durationMs: number;
 }
 
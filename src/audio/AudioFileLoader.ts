@@ -0,0 +1,118 @@
+/**
+ * Audio file loading
+ * Reads a selected file, decodes it as WAV and checks it is something the
+ * analysis can use before it enters the processing flow
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+import { decodeWav, isWav, WavDecodeError } from './WavDecoder';
+import { FileSource, SelectedFile } from './FileSource';
+
+export type AudioFileErrorCode =
+  | 'too_large'
+  | 'not_wav'
+  | 'unsupported_format'
+  | 'too_short'
+  | 'too_long';
+
+/**
+ * Error raised when a selected file cannot be analyzed
+ * Messages are written for display to the user.
+ */
+export class AudioFileError extends Error {
+  readonly code: AudioFileErrorCode;
+
+  constructor(code: AudioFileErrorCode, message: string) {
+    super(message);
+    this.name = 'AudioFileError';
+    this.code = code;
+  }
+}
+
+export interface AudioFileLimits {
+  /** Shorter clips give low-confidence results (see calculateConfidence) */
+  readonly minDurationMs: number;
+  readonly maxDurationMs: number;
+  readonly maxBytes: number;
+  readonly maxChannels: number;
+}
+
+export const DEFAULT_AUDIO_FILE_LIMITS: AudioFileLimits = {
+  minDurationMs: 3000,
+  maxDurationMs: 120000,
+  maxBytes: 64 * 1024 * 1024,
+  maxChannels: 8,
+};
+
+function tooLarge(limits: AudioFileLimits): AudioFileError {
+  const megabytes = Math.round(limits.maxBytes / (1024 * 1024));
+  return new AudioFileError('too_large', `File is larger than ${megabytes} MB.`);
+}
+
+/**
+ * Read, decode and validate a selected file
+ */
+export async function loadAudioFile(
+  file: SelectedFile,
+  limits: Partial<AudioFileLimits> = {}
+): Promise<AudioBuffer> {
+  const lim = { ...DEFAULT_AUDIO_FILE_LIMITS, ...limits };
+
+  // Reject oversized files before reading them into memory when possible
+  if (file.size !== null && file.size > lim.maxBytes) {
+    throw tooLarge(lim);
+  }
+
+  const bytes = await file.readBytes();
+  if (bytes.length > lim.maxBytes) {
+    throw tooLarge(lim);
+  }
+  if (!isWav(bytes)) {
+    throw new AudioFileError('not_wav', `"${file.name}" is not a WAV file.`);
+  }
+
+  let buffer: AudioBuffer;
+  try {
+    buffer = decodeWav(bytes);
+  } catch (error) {
+    if (error instanceof WavDecodeError) {
+      throw new AudioFileError('unsupported_format', `Could not read "${file.name}": ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (buffer.channels < 1 || buffer.channels > lim.maxChannels || buffer.sampleRate <= 0) {
+    throw new AudioFileError(
+      'unsupported_format',
+      `"${file.name}" has an unsupported layout (${buffer.channels} channels at ${buffer.sampleRate} Hz).`
+    );
+  }
+  if (buffer.durationMs < lim.minDurationMs) {
+    throw new AudioFileError(
+      'too_short',
+      `Clip is too short — at least ${lim.minDurationMs / 1000} seconds are needed.`
+    );
+  }
+  if (buffer.durationMs > lim.maxDurationMs) {
+    throw new AudioFileError(
+      'too_long',
+      `Clip is too long — at most ${lim.maxDurationMs / 1000} seconds can be analyzed.`
+    );
+  }
+
+  return buffer;
+}
+
+/**
+ * Pick a file from a source and load it
+ * Returns null if the user cancels.
+ */
+export async function pickAudioFile(
+  source: FileSource,
+  limits: Partial<AudioFileLimits> = {}
+): Promise<AudioBuffer | null> {
+  const file = await source.pickFile();
+  return file ? loadAudioFile(file, limits) : null;
+}
+
+export default loadAudioFile;
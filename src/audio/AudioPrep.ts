@@ -0,0 +1,49 @@
+/**
+ * Audio preparation step
+ * Turns whatever the recorder or decoder produced into the mono,
+ * analysis-rate buffer that extractFeatures expects
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+import { downmixBuffer, ChannelReport, DownmixOptions, DEFAULT_DOWNMIX_OPTIONS } from './ChannelMixer';
+import { resampleBuffer, DEFAULT_ANALYSIS_SAMPLE_RATE } from './Resampler';
+
+export interface AudioPrepOptions {
+  readonly downmix: DownmixOptions;
+  /** Sample rate the analysis runs at */
+  readonly sampleRate: number;
+}
+
+export const DEFAULT_AUDIO_PREP_OPTIONS: AudioPrepOptions = {
+  downmix: DEFAULT_DOWNMIX_OPTIONS,
+  sampleRate: DEFAULT_ANALYSIS_SAMPLE_RATE,
+};
+
+export interface PreparedAudio {
+  /** Mono buffer at the analysis sample rate */
+  readonly buffer: AudioBuffer;
+  readonly channelReport: ChannelReport;
+  /** Sample rate of the input before conversion */
+  readonly sourceSampleRate: number;
+}
+
+/**
+ * Downmix to mono, then resample to the analysis rate
+ * (downmixing first keeps the resampler working on a single channel)
+ */
+export function prepareAudioForAnalysis(
+  buffer: AudioBuffer,
+  options: Partial<AudioPrepOptions> = {}
+): PreparedAudio {
+  const opts = { ...DEFAULT_AUDIO_PREP_OPTIONS, ...options };
+
+  const { buffer: mono, report } = downmixBuffer(buffer, opts.downmix);
+
+  return {
+    buffer: resampleBuffer(mono, opts.sampleRate),
+    channelReport: report,
+    sourceSampleRate: buffer.sampleRate,
+  };
+}
+
+export default prepareAudioForAnalysis;
@@ -0,0 +1,170 @@
+/**
+ * Composable preprocessing chain
+ * DC blocking, high-pass, pre-emphasis and level normalization applied in
+ * a configured order before feature extraction
+ * Pure functions - each stage returns a new sample array
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+
+/**
+ * One preprocessing stage
+ * - dc_block: one-pole DC blocker, y[n] = x[n] - x[n-1] + pole * y[n-1]
+ * - high_pass: second-order (RBJ biquad) high-pass for rumble and handling noise
+ * - pre_emphasis: first-order high-frequency boost, y[n] = x[n] - coefficient * x[n-1]
+ * - normalize: scale to a target peak (linear) or RMS level (dBFS), never past full scale
+ */
+export type PreprocessStage =
+  | { readonly type: 'dc_block'; readonly pole: number }
+  | { readonly type: 'high_pass'; readonly cutoffHz: number; readonly q: number }
+  | { readonly type: 'pre_emphasis'; readonly coefficient: number }
+  | { readonly type: 'normalize'; readonly mode: 'peak' | 'rms'; readonly target: number };
+
+export interface PreprocessorConfig {
+  readonly stages: readonly PreprocessStage[];
+}
+
+/**
+ * Default chain: remove DC offset and sub-voice rumble only.
+ * Pre-emphasis and normalization are available but off, because the
+ * score ranges in ScoreCalculator were tuned on unboosted, unnormalized
+ * levels (normalizing would defeat the too-quiet checks).
+ */
+export const DEFAULT_PREPROCESSOR_CONFIG: PreprocessorConfig = {
+  stages: [
+    { type: 'dc_block', pole: 0.995 },
+    { type: 'high_pass', cutoffHz: 60, q: Math.SQRT1_2 },
+  ],
+};
+
+/**
+ * One-pole DC blocking filter
+ */
+export function dcBlock(samples: Float32Array, pole: number): Float32Array {
+  const output = new Float32Array(samples.length);
+  let prevIn = 0;
+  let prevOut = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const y = samples[i] - prevIn + pole * prevOut;
+    prevIn = samples[i];
+    prevOut = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * Second-order high-pass biquad (Audio EQ Cookbook), direct form I
+ */
+export function highPass(
+  samples: Float32Array,
+  sampleRate: number,
+  cutoffHz: number,
+  q: number
+): Float32Array {
+  const w0 = (2 * Math.PI * cutoffHz) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+
+  const a0 = 1 + alpha;
+  const b0 = (1 + cosW0) / 2 / a0;
+  const b1 = -(1 + cosW0) / a0;
+  const b2 = (1 + cosW0) / 2 / a0;
+  const a1 = (-2 * cosW0) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const output = new Float32Array(samples.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x0 = samples[i];
+    const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1;
+    x1 = x0;
+    y2 = y1;
+    y1 = y0;
+    output[i] = y0;
+  }
+  return output;
+}
+
+/**
+ * First-order pre-emphasis filter
+ */
+export function preEmphasis(samples: Float32Array, coefficient: number): Float32Array {
+  const output = new Float32Array(samples.length);
+  let prev = 0;
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = samples[i] - coefficient * prev;
+    prev = samples[i];
+  }
+  return output;
+}
+
+/**
+ * Scale to a target peak (linear, 0-1) or RMS level (dBFS)
+ * RMS normalization is limited so the peak never exceeds full scale.
+ */
+export function normalizeLevel(
+  samples: Float32Array,
+  mode: 'peak' | 'rms',
+  target: number
+): Float32Array {
+  let peak = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+    sumSquares += samples[i] * samples[i];
+  }
+  if (peak === 0) return samples.slice();
+
+  let gain: number;
+  if (mode === 'peak') {
+    gain = target / peak;
+  } else {
+    const rms = Math.sqrt(sumSquares / samples.length);
+    gain = Math.min(Math.pow(10, target / 20) / rms, 1 / peak);
+  }
+
+  const output = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    output[i] = samples[i] * gain;
+  }
+  return output;
+}
+
+function applyStage(samples: Float32Array, sampleRate: number, stage: PreprocessStage): Float32Array {
+  switch (stage.type) {
+    case 'dc_block':
+      return dcBlock(samples, stage.pole);
+    case 'high_pass':
+      return highPass(samples, sampleRate, stage.cutoffHz, stage.q);
+    case 'pre_emphasis':
+      return preEmphasis(samples, stage.coefficient);
+    case 'normalize':
+      return normalizeLevel(samples, stage.mode, stage.target);
+  }
+}
+
+/**
+ * Run a mono buffer through the configured stages, in order
+ */
+export function preprocessAudio(
+  buffer: AudioBuffer,
+  config: PreprocessorConfig = DEFAULT_PREPROCESSOR_CONFIG
+): AudioBuffer {
+  if (buffer.channels !== 1) {
+    throw new Error(`Preprocessing expects mono audio, got ${buffer.channels} channels`);
+  }
+
+  const samples = config.stages.reduce(
+    (current, stage) => applyStage(current, buffer.sampleRate, stage),
+    buffer.samples
+  );
+
+  return { ...buffer, samples };
+}
+
+export default preprocessAudio;
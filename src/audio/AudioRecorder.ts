@@ -3,11 +3,26 @@
  * Handles recording lifecycle, permissions, and cleanup
  */
 
+import { Platform } from 'react-native';
 import { Audio } from 'expo-av';
 import { AudioBuffer } from '@/analysis/types';
 import { extractAudioBuffer } from './AudioUtils';
+import {
+  LevelReading,
+  LevelState,
+  MeteringKind,
+  INITIAL_LEVEL_STATE,
+  updateLevelState,
+  toLevelReading,
+} from './LevelMeter';
 import Logger from '@/utils/Logger';
 
+// How often the recorder reports status (and metering) while recording
+const STATUS_UPDATE_INTERVAL_MS = 50;
+
+// iOS meters averaged power, Android the peak amplitude since the last reading
+const METERING_KIND: MeteringKind = Platform.OS === 'ios' ? 'average' : 'peak';
+
 // Recording configuration for voice analysis
 const RECORDING_OPTIONS: Audio.RecordingOptions = {
   android: {
@@ -32,13 +47,21 @@ const RECORDING_OPTIONS: Audio.RecordingOptions = {
     mimeType: 'audio/wav',
     bitsPerSecond: 256000,
   },
+  isMeteringEnabled: true,
 };
 
+export type LevelListener = (reading: LevelReading) => void;
+
 export interface RecordingSession {
   readonly recording: Audio.Recording;
   readonly startTime: number;
   stop: () => Promise<AudioBuffer>;
   getElapsedMs: () => number;
+  /**
+   * Receive live input level readings while recording
+   * Returns an unsubscribe function.
+   */
+  subscribeToLevel: (listener: LevelListener) => () => void;
 }
 
 /**
@@ -87,8 +110,23 @@ export async function startRecording(): Promise<RecordingSession> {
     shouldDuckAndroid: true,
   });
 
+  const levelListeners = new Set<LevelListener>();
+  let levelState: LevelState = INITIAL_LEVEL_STATE;
+
+  const onStatusUpdate = (status: Audio.RecordingStatus) => {
+    if (!status.isRecording || status.metering === undefined) return;
+
+    levelState = updateLevelState(levelState, status.metering, Date.now(), METERING_KIND);
+    const reading = toLevelReading(levelState);
+    levelListeners.forEach(listener => listener(reading));
+  };
+
   // Create and start recording
-  const { recording } = await Audio.Recording.createAsync(RECORDING_OPTIONS);
+  const { recording } = await Audio.Recording.createAsync(
+    RECORDING_OPTIONS,
+    onStatusUpdate,
+    STATUS_UPDATE_INTERVAL_MS
+  );
   const startTime = Date.now();
 
   Logger.log('record_started', {
@@ -102,13 +140,17 @@ export async function startRecording(): Promise<RecordingSession> {
 
     stop: async (): Promise<AudioBuffer> => {
       const elapsedMs = Date.now() - startTime;
+      levelListeners.clear();
 
       try {
         await recording.stopAndUnloadAsync();
-        Logger.log('record_completed', { durationMs: elapsedMs });
+        Logger.log('record_completed', {
+          durationMs: elapsedMs,
+          clipCount: levelState.clipCount,
+        });
 
-        // Extract audio buffer from recording
-        const buffer = await extractAudioBuffer(recording, 16000);
+        // Extract audio buffer from recording (format read from the WAV header)
+        const buffer = await extractAudioBuffer(recording);
 
         // Reset audio mode
         await Audio.setAudioModeAsync({
@@ -126,6 +168,13 @@ export async function startRecording(): Promise<RecordingSession> {
     getElapsedMs: (): number => {
       return Date.now() - startTime;
     },
+
+    subscribeToLevel: (listener: LevelListener): (() => void) => {
+      levelListeners.add(listener);
+      return () => {
+        levelListeners.delete(listener);
+      };
+    },
   };
 }
 
@@ -4,6 +4,7 @@
  */
 
 import { AudioBuffer } from '@/analysis/types';
+import { decodeWav, isWav } from './WavDecoder';
 
 /**
  * Convert Int16 PCM array to Float32 normalized array (-1 to 1)
@@ -17,61 +18,49 @@ export function int16ToFloat32(int16Array: Int16Array): Float32Array {
 }
 
 /**
- * Convert base64 audio string to Float32Array
- * Handles WAV and raw PCM formats
+ * Decode a base64 string (optionally a data URL) to bytes
  */
-export function base64ToFloat32(base64String: string): Float32Array {
+export function base64ToBytes(base64String: string): Uint8Array {
   // Remove data URL prefix if present
-  const base64Data = base64String.replace(/^data:audio\/\w+;base64,/, '');
+  const base64Data = base64String.replace(/^data:audio\/[\w.+-]+;base64,/, '');
 
   // Decode base64 to binary string
   const binaryString = atob(base64Data);
 
-  // Create buffer and read as Int16 (standard PCM)
   const bytes = new Uint8Array(binaryString.length);
   for (let i = 0; i < binaryString.length; i++) {
     bytes[i] = binaryString.charCodeAt(i);
   }
+  return bytes;
+}
+
+/**
+ * Convert base64 audio string to Float32Array
+ * Handles WAV (any format supported by the decoder) and raw 16-bit LE PCM.
+ * Multi-channel WAV samples are returned interleaved.
+ */
+export function base64ToFloat32(base64String: string): Float32Array {
+  const bytes = base64ToBytes(base64String);
 
-  // Check for WAV header (RIFF....WAVE)
-  let offset = 0;
-  if (bytes.length > 44 &&
-      bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
-      bytes[8] === 0x57 && bytes[9] === 0x41 && bytes[10] === 0x56 && bytes[11] === 0x45) {
-    // WAV file - skip 44-byte header
-    offset = 44;
+  if (isWav(bytes)) {
+    return decodeWav(bytes).samples;
   }
 
-  // Convert remaining bytes to Int16 samples
-  const sampleCount = Math.floor((bytes.length - offset) / 2);
+  // Headerless data: treat as raw 16-bit little-endian PCM
+  const sampleCount = Math.floor(bytes.length / 2);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, sampleCount * 2);
   const int16Array = new Int16Array(sampleCount);
-
   for (let i = 0; i < sampleCount; i++) {
-    const byteIndex = offset + i * 2;
-    int16Array[i] = bytes[byteIndex] | (bytes[byteIndex + 1] << 8);
+    int16Array[i] = view.getInt16(i * 2, true);
   }
 
   return int16ToFloat32(int16Array);
 }
 
 /**
- * Extract audio buffer from Expo recording URI
- * Note: In production, this would read the file and convert
- * For this MVP, we work with the recording object directly
+ * Read the contents of a local or blob URI as bytes
  */
-export async function extractAudioBuffer(
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  recording: any,
-  sampleRate: number
-): Promise<AudioBuffer> {
-  // Get the recorded URI
-  const uri = recording.getURI();
-
-  if (!uri) {
-    throw new Error('No recording URI available');
-  }
-
-  // For Expo, we need to fetch the audio file
+export async function readUriBytes(uri: string): Promise<Uint8Array> {
   const response = await fetch(uri);
   const blob = await response.blob();
 
@@ -83,57 +72,28 @@ export async function extractAudioBuffer(
     reader.readAsArrayBuffer(blob);
   });
 
-  // Convert to Float32
-  const uint8Array = new Uint8Array(arrayBuffer);
-
-  // Simple WAV parser
-  let dataOffset = 0;
-  if (uint8Array.length > 44 &&
-      uint8Array[0] === 0x52 && uint8Array[1] === 0x49) {
-    // Find 'data' chunk
-    for (let i = 36; i < uint8Array.length - 4; i++) {
-      if (uint8Array[i] === 0x64 && uint8Array[i + 1] === 0x61 &&
-          uint8Array[i + 2] === 0x74 && uint8Array[i + 3] === 0x61) {
-        dataOffset = i + 8;
-        break;
-      }
-    }
-    if (dataOffset === 0) {
-      dataOffset = 44; // Default WAV header size
-    }
-  }
-
-  const sampleCount = Math.floor((uint8Array.length - dataOffset) / 2);
-  const int16Array = new Int16Array(sampleCount);
-
-  for (let i = 0; i < sampleCount; i++) {
-    const idx = dataOffset + i * 2;
-    int16Array[i] = (uint8Array[idx] | (uint8Array[idx + 1] << 8));
-  }
-
-  const samples = int16ToFloat32(int16Array);
-
-  return {
-    samples,
-    sampleRate,
-    channels: 1,
-    durationMs: (samples.length / sampleRate) * 1000,
-  };
+  return new Uint8Array(arrayBuffer);
 }
 
 /**
- * Normalize audio samples to target amplitude range
+ * Extract audio buffer from Expo recording URI
+ * Sample rate, channel count and duration come from the WAV header,
+ * not from the options the recording was requested with.
+ * Throws WavDecodeError if the file is not a supported WAV.
  */
-export function normalizeAudio(samples: Float32Array, targetPeak = 0.95): Float32Array {
-  const maxAmp = Math.max(...Array.from(samples).map(Math.abs));
-  if (maxAmp === 0) return samples;
-
-  const scale = targetPeak / maxAmp;
-  const normalized = new Float32Array(samples.length);
-  for (let i = 0; i < samples.length; i++) {
-    normalized[i] = samples[i] * scale;
+export async function extractAudioBuffer(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  recording: any
+): Promise<AudioBuffer> {
+  // Get the recorded URI
+  const uri = recording.getURI();
+
+  if (!uri) {
+    throw new Error('No recording URI available');
   }
-  return normalized;
+
+  const bytes = await readUriBytes(uri);
+  return decodeWav(bytes);
 }
 
 /**
@@ -0,0 +1,225 @@
+/**
+ * Multi-channel handling
+ * De-interleaves channels, detects dead or phase-cancelled channels
+ * and downmixes to mono with a selectable strategy
+ * Pure functions - no side effects
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+
+/**
+ * How multi-channel input is reduced to mono
+ * - average: mean of all live channels
+ * - best_snr: the single channel with the highest estimated SNR
+ * - channel: a caller-chosen channel index
+ */
+export type DownmixStrategy = 'average' | 'best_snr' | 'channel';
+
+export interface DownmixOptions {
+  readonly strategy: DownmixStrategy;
+  /** Channel to keep when strategy is 'channel' */
+  readonly channelIndex?: number;
+}
+
+export const DEFAULT_DOWNMIX_OPTIONS: DownmixOptions = {
+  strategy: 'average',
+};
+
+/**
+ * Per-channel signal statistics
+ */
+export interface ChannelStats {
+  readonly index: number;
+  readonly rms: number;
+  readonly peak: number;
+  /** Loud-frame to quiet-frame energy ratio in dB (rough SNR estimate) */
+  readonly snrDb: number;
+  /** Channel carries no usable signal */
+  readonly isDead: boolean;
+}
+
+/**
+ * What the downmix step found and did
+ */
+export interface ChannelReport {
+  readonly channelCount: number;
+  readonly channels: readonly ChannelStats[];
+  readonly deadChannels: readonly number[];
+  /** Averaging the live channels would cancel most of the signal */
+  readonly phaseCancelled: boolean;
+  /** Strategy actually applied (may differ from the request, see downmix) */
+  readonly appliedStrategy: DownmixStrategy;
+  /** Channel used for single-channel strategies, -1 when averaging */
+  readonly selectedChannel: number;
+}
+
+// Below this RMS / peak a channel is treated as silent or disconnected
+const DEAD_RMS_THRESHOLD = 1e-4;
+const DEAD_PEAK_THRESHOLD = 1e-3;
+
+// Average-of-channels RMS relative to mean channel RMS below this = cancellation
+const PHASE_CANCEL_RATIO = 0.35;
+
+const SNR_FRAME_SIZE = 512;
+
+/**
+ * Split interleaved samples into one array per channel
+ */
+export function deinterleave(samples: Float32Array, channels: number): Float32Array[] {
+  if (channels <= 1) {
+    return [samples];
+  }
+
+  const frameCount = Math.floor(samples.length / channels);
+  const result = Array.from({ length: channels }, () => new Float32Array(frameCount));
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < channels; ch++) {
+      result[ch][i] = samples[i * channels + ch];
+    }
+  }
+
+  return result;
+}
+
+function rmsOf(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+/**
+ * Rough SNR: energy of the loudest frames over the quietest frames
+ */
+function estimateSnrDb(samples: Float32Array): number {
+  const frameEnergies: number[] = [];
+  for (let start = 0; start + SNR_FRAME_SIZE <= samples.length; start += SNR_FRAME_SIZE) {
+    let sum = 0;
+    for (let i = start; i < start + SNR_FRAME_SIZE; i++) sum += samples[i] * samples[i];
+    frameEnergies.push(sum / SNR_FRAME_SIZE);
+  }
+  if (frameEnergies.length === 0) return 0;
+
+  frameEnergies.sort((a, b) => a - b);
+  const low = frameEnergies[Math.floor(frameEnergies.length * 0.1)];
+  const high = frameEnergies[Math.floor((frameEnergies.length - 1) * 0.9)];
+
+  // Floor the noise estimate so digital silence does not give infinite SNR
+  return 10 * Math.log10((high + 1e-10) / (low + 1e-10));
+}
+
+/**
+ * Compute statistics for each de-interleaved channel
+ */
+export function analyzeChannels(channelData: Float32Array[]): ChannelStats[] {
+  return channelData.map((data, index) => {
+    const rms = rmsOf(data);
+    let peak = 0;
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, Math.abs(data[i]));
+    }
+    return {
+      index,
+      rms,
+      peak,
+      snrDb: estimateSnrDb(data),
+      isDead: rms < DEAD_RMS_THRESHOLD || peak < DEAD_PEAK_THRESHOLD,
+    };
+  });
+}
+
+function averageChannels(channelData: Float32Array[], indices: number[]): Float32Array {
+  const length = channelData[0].length;
+  const mixed = new Float32Array(length);
+  for (const index of indices) {
+    const data = channelData[index];
+    for (let i = 0; i < length; i++) mixed[i] += data[i];
+  }
+  for (let i = 0; i < length; i++) mixed[i] /= indices.length;
+  return mixed;
+}
+
+function bestSnrChannel(stats: ChannelStats[]): number {
+  const live = stats.filter(s => !s.isDead);
+  const candidates = live.length > 0 ? live : stats;
+  return candidates.reduce((best, s) => (s.snrDb > best.snrDb ? s : best)).index;
+}
+
+/**
+ * Downmix a buffer to mono
+ * Dead channels are left out of the average. If averaging the live channels
+ * cancels the signal (polarity-inverted mics), the best-SNR channel is used
+ * instead and the report says so.
+ */
+export function downmixBuffer(
+  buffer: AudioBuffer,
+  options: DownmixOptions = DEFAULT_DOWNMIX_OPTIONS
+): { buffer: AudioBuffer; report: ChannelReport } {
+  const channelData = deinterleave(buffer.samples, buffer.channels);
+  const stats = analyzeChannels(channelData);
+  const deadChannels = stats.filter(s => s.isDead).map(s => s.index);
+
+  if (buffer.channels <= 1) {
+    return {
+      buffer,
+      report: {
+        channelCount: 1,
+        channels: stats,
+        deadChannels,
+        phaseCancelled: false,
+        appliedStrategy: options.strategy,
+        selectedChannel: 0,
+      },
+    };
+  }
+
+  const liveIndices = stats.filter(s => !s.isDead).map(s => s.index);
+  const averageIndices = liveIndices.length > 0 ? liveIndices : stats.map(s => s.index);
+  const averaged = averageChannels(channelData, averageIndices);
+
+  const meanChannelRms =
+    averageIndices.reduce((sum, i) => sum + stats[i].rms, 0) / averageIndices.length;
+  const phaseCancelled =
+    averageIndices.length > 1 &&
+    meanChannelRms > DEAD_RMS_THRESHOLD &&
+    rmsOf(averaged) < meanChannelRms * PHASE_CANCEL_RATIO;
+
+  let appliedStrategy = options.strategy;
+  let selectedChannel = -1;
+  let mono: Float32Array;
+
+  if (options.strategy === 'channel') {
+    const index = options.channelIndex ?? 0;
+    if (index < 0 || index >= buffer.channels) {
+      throw new RangeError(`Channel ${index} out of range for ${buffer.channels}-channel audio`);
+    }
+    selectedChannel = index;
+    mono = channelData[index];
+  } else if (options.strategy === 'best_snr' || phaseCancelled) {
+    appliedStrategy = 'best_snr';
+    selectedChannel = bestSnrChannel(stats);
+    mono = channelData[selectedChannel];
+  } else {
+    mono = averaged;
+  }
+
+  return {
+    buffer: {
+      samples: mono,
+      sampleRate: buffer.sampleRate,
+      channels: 1,
+      durationMs: (mono.length / buffer.sampleRate) * 1000,
+    },
+    report: {
+      channelCount: buffer.channels,
+      channels: stats,
+      deadChannels,
+      phaseCancelled,
+      appliedStrategy,
+      selectedChannel,
+    },
+  };
+}
+
+export default downmixBuffer;
@@ -0,0 +1,199 @@
+/**
+ * Clipping and limiter detection
+ * Finds runs of samples pinned at full scale (clipping) or flattened at a
+ * fixed level below it (hard-limiting AGC). Natural audio never holds an
+ * exact value for long, so flat runs are a reliable distortion marker.
+ * Pure functions - the caller owns the state, so chunks can be scanned
+ * incrementally and give the same report as one pass over the whole clip
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+import { deinterleave } from './ChannelMixer';
+
+export interface ClippingConfig {
+  /** Samples at or above this magnitude count as full scale */
+  readonly fullScaleLevel: number;
+  /** Consecutive full-scale samples needed for a clipped run */
+  readonly minClipRunLength: number;
+  /** Plateaus below full scale are only considered above this magnitude */
+  readonly minPlateauLevel: number;
+  /**
+   * Consecutive identical samples needed for a limiter plateau; longer than
+   * a clip run because quantized natural peaks can repeat a value briefly
+   */
+  readonly minPlateauRunLength: number;
+  /** Largest sample-to-sample change still treated as "identical" */
+  readonly plateauTolerance: number;
+  /** Block length for the distorted-frame ratio, in samples */
+  readonly frameSize: number;
+  /** Plateau runs needed before input is called hard-limited */
+  readonly minLimiterRuns: number;
+  /** Limiter plateaus must sit within this ratio of each other (max / min level) */
+  readonly limiterLevelSpread: number;
+}
+
+export const DEFAULT_CLIPPING_CONFIG: ClippingConfig = {
+  fullScaleLevel: 0.99,
+  minClipRunLength: 3,
+  minPlateauLevel: 0.25,
+  minPlateauRunLength: 6,
+  plateauTolerance: 1e-5, // below one 16-bit step
+  frameSize: 1024,
+  minLimiterRuns: 5,
+  limiterLevelSpread: 1.1,
+};
+
+/**
+ * Running scan state for one channel
+ */
+export interface ClippingState {
+  readonly sampleCount: number;
+  readonly previous: number;
+  /** Length of the flat or full-scale run ending at the previous sample */
+  readonly runLength: number;
+  readonly clippedRuns: number;
+  readonly plateauRuns: number;
+  readonly clippedSamples: number;
+  readonly plateauMinLevel: number;
+  readonly plateauMaxLevel: number;
+  readonly distortedFrames: number;
+  /** The current (possibly partial) frame already contains a run */
+  readonly frameHasRun: boolean;
+}
+
+export const INITIAL_CLIPPING_STATE: ClippingState = {
+  sampleCount: 0,
+  previous: 0,
+  runLength: 0,
+  clippedRuns: 0,
+  plateauRuns: 0,
+  clippedSamples: 0,
+  plateauMinLevel: Infinity,
+  plateauMaxLevel: 0,
+  distortedFrames: 0,
+  frameHasRun: false,
+};
+
+/**
+ * What the detector found
+ */
+export interface ClippingReport {
+  /** Runs pinned at full scale */
+  readonly clippedRunCount: number;
+  /** Flat runs below full scale */
+  readonly plateauRunCount: number;
+  /** Fraction of samples inside any run (0-1) */
+  readonly clippedSampleRatio: number;
+  /** Fraction of frames containing at least one run (0-1) */
+  readonly distortedFrameRatio: number;
+  /** Repeated plateaus at one level below full scale: an AGC or limiter */
+  readonly isHardLimited: boolean;
+}
+
+/**
+ * Scan a chunk of mono samples, continuing from a previous state
+ */
+export function updateClippingState(
+  state: ClippingState,
+  samples: Float32Array,
+  config: ClippingConfig = DEFAULT_CLIPPING_CONFIG
+): ClippingState {
+  let { previous, runLength, clippedRuns, plateauRuns, clippedSamples } = state;
+  let { plateauMinLevel, plateauMaxLevel, distortedFrames, frameHasRun } = state;
+  let position = state.sampleCount;
+
+  for (let i = 0; i < samples.length; i++, position++) {
+    if (position > 0 && position % config.frameSize === 0) {
+      frameHasRun = false;
+    }
+
+    const x = samples[i];
+    const level = Math.abs(x);
+    const atFullScale = level >= config.fullScaleLevel;
+    const continuesClip =
+      position > 0 && atFullScale && Math.abs(previous) >= config.fullScaleLevel && x * previous > 0;
+    const continuesPlateau =
+      position > 0 && level >= config.minPlateauLevel && Math.abs(x - previous) <= config.plateauTolerance;
+
+    runLength = continuesClip || continuesPlateau ? runLength + 1 : 1;
+    const minLength = atFullScale ? config.minClipRunLength : config.minPlateauRunLength;
+
+    if (runLength === minLength && level >= config.minPlateauLevel) {
+      // Run just became long enough: count it once and back-fill its samples
+      if (atFullScale) {
+        clippedRuns++;
+      } else {
+        plateauRuns++;
+        plateauMinLevel = Math.min(plateauMinLevel, level);
+        plateauMaxLevel = Math.max(plateauMaxLevel, level);
+      }
+      clippedSamples += minLength;
+      if (!frameHasRun) {
+        frameHasRun = true;
+        distortedFrames++;
+      }
+    } else if (runLength > minLength) {
+      clippedSamples++;
+    }
+
+    previous = x;
+  }
+
+  return {
+    sampleCount: position,
+    previous,
+    runLength,
+    clippedRuns,
+    plateauRuns,
+    clippedSamples,
+    plateauMinLevel,
+    plateauMaxLevel,
+    distortedFrames,
+    frameHasRun,
+  };
+}
+
+/**
+ * Summarize a scan state
+ */
+export function toClippingReport(
+  state: ClippingState,
+  config: ClippingConfig = DEFAULT_CLIPPING_CONFIG
+): ClippingReport {
+  const frameCount = Math.ceil(state.sampleCount / config.frameSize);
+
+  return {
+    clippedRunCount: state.clippedRuns,
+    plateauRunCount: state.plateauRuns,
+    clippedSampleRatio: state.sampleCount > 0 ? state.clippedSamples / state.sampleCount : 0,
+    distortedFrameRatio: frameCount > 0 ? state.distortedFrames / frameCount : 0,
+    isHardLimited:
+      state.plateauRuns >= config.minLimiterRuns &&
+      state.plateauMaxLevel / state.plateauMinLevel <= config.limiterLevelSpread,
+  };
+}
+
+/**
+ * Detect clipping and limiting in a buffer (interleaved channels allowed)
+ * Channels are scanned separately; the report sums runs and keeps the worst
+ * channel's ratios.
+ */
+export function detectClipping(
+  buffer: AudioBuffer,
+  config: Partial<ClippingConfig> = {}
+): ClippingReport {
+  const cfg = { ...DEFAULT_CLIPPING_CONFIG, ...config };
+  const reports = deinterleave(buffer.samples, buffer.channels).map(channel =>
+    toClippingReport(updateClippingState(INITIAL_CLIPPING_STATE, channel, cfg), cfg)
+  );
+
+  return {
+    clippedRunCount: reports.reduce((sum, r) => sum + r.clippedRunCount, 0),
+    plateauRunCount: reports.reduce((sum, r) => sum + r.plateauRunCount, 0),
+    clippedSampleRatio: Math.max(...reports.map(r => r.clippedSampleRatio)),
+    distortedFrameRatio: Math.max(...reports.map(r => r.distortedFrameRatio)),
+    isHardLimited: reports.some(r => r.isHardLimited),
+  };
+}
+
+export default detectClipping;
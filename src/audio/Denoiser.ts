@@ -0,0 +1,184 @@
+/**
+ * STFT noise reduction
+ * Spectral subtraction or a decision-directed Wiener filter against a
+ * per-bin noise spectrum tracked with minimum statistics
+ * Pure functions - returns a new buffer
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+import { fft, ifft } from '@/analysis/FFT';
+
+export type DenoiseMethod = 'none' | 'spectral_subtraction' | 'wiener';
+
+export interface DenoiseConfig {
+  readonly method: DenoiseMethod;
+  /** Noise over-estimation factor for spectral subtraction (1 = plain subtraction) */
+  readonly overSubtraction: number;
+  /** Minimum gain per bin (0-1); keeps some residual noise to avoid musical noise */
+  readonly spectralFloor: number;
+}
+
+/**
+ * Denoising is off by default: the score ranges were tuned on unprocessed
+ * audio, and the noise fields already let scoring discount a noisy room.
+ */
+export const DEFAULT_DENOISE_CONFIG: DenoiseConfig = {
+  method: 'none',
+  overSubtraction: 2,
+  spectralFloor: 0.05,
+};
+
+/** STFT frame length (32 ms at 16 kHz) */
+const STFT_SIZE = 512;
+/** 50% overlap; a periodic Hann analysis window overlap-adds to exactly 1 */
+const STFT_HOP = 256;
+/** Per-bin power smoothing before minimum tracking */
+const PSD_SMOOTHING = 0.8;
+/** Minimum-tracking block length in frames (~0.5 s at 16 kHz) */
+const MIN_BLOCK_FRAMES = 32;
+/** Bias compensation for minimum statistics */
+const MIN_BIAS = 2;
+/** Power smoothing for spectral subtraction gains, to limit musical noise */
+const GAIN_SMOOTHING = 0.5;
+/** Decision-directed a priori SNR smoothing */
+const DD_ALPHA = 0.98;
+
+const HANN = (() => {
+  const w = new Float32Array(STFT_SIZE);
+  for (let i = 0; i < STFT_SIZE; i++) {
+    w[i] = 0.5 * (1 - Math.cos((2 * Math.PI * i) / STFT_SIZE));
+  }
+  return w;
+})();
+
+/**
+ * Per-bin noise power for every frame
+ * Minimum of the smoothed power over the current and neighbouring blocks,
+ * so the estimate follows slowly changing noise but not speech. Frames that
+ * overlap the zero padding would drag the minimum down and are skipped.
+ */
+function trackNoisePsd(
+  power: readonly Float32Array[],
+  bins: number,
+  firstInterior: number,
+  lastInterior: number
+): Float32Array[] {
+  const frameCount = power.length;
+  const blockCount = Math.ceil(frameCount / MIN_BLOCK_FRAMES);
+  const blockMin = Array.from({ length: blockCount }, () => new Float32Array(bins).fill(Infinity));
+
+  const smoothed = new Float32Array(power[Math.min(firstInterior, frameCount - 1)]);
+  for (let t = firstInterior; t <= lastInterior; t++) {
+    const block = blockMin[Math.floor(t / MIN_BLOCK_FRAMES)];
+    for (let k = 0; k < bins; k++) {
+      smoothed[k] = PSD_SMOOTHING * smoothed[k] + (1 - PSD_SMOOTHING) * power[t][k];
+      block[k] = Math.min(block[k], smoothed[k]);
+    }
+  }
+
+  const noise: Float32Array[] = [];
+  for (let t = 0; t < frameCount; t++) {
+    const b = Math.floor(t / MIN_BLOCK_FRAMES);
+    const psd = new Float32Array(bins);
+    for (let k = 0; k < bins; k++) {
+      let min = blockMin[b][k];
+      if (b > 0) min = Math.min(min, blockMin[b - 1][k]);
+      if (b < blockCount - 1) min = Math.min(min, blockMin[b + 1][k]);
+      // A block with no interior frames (very short input) removes nothing
+      psd[k] = Number.isFinite(min) ? min * MIN_BIAS : 0;
+    }
+    noise.push(psd);
+  }
+  return noise;
+}
+
+/**
+ * Reduce stationary background noise in a mono buffer
+ * Method none returns the input itself.
+ */
+export function denoiseAudio(
+  buffer: AudioBuffer,
+  config: Partial<DenoiseConfig> = {}
+): AudioBuffer {
+  const cfg = { ...DEFAULT_DENOISE_CONFIG, ...config };
+  if (buffer.channels !== 1) {
+    throw new Error(`Denoising expects mono audio, got ${buffer.channels} channels`);
+  }
+  if (cfg.method === 'none') {
+    return buffer;
+  }
+
+  // Pad so every output sample is covered by two full windows
+  const pad = STFT_SIZE - STFT_HOP;
+  const padded = new Float32Array(buffer.samples.length + 2 * pad + STFT_SIZE);
+  padded.set(buffer.samples, pad);
+  const frameCount = Math.floor((padded.length - STFT_SIZE) / STFT_HOP) + 1;
+  const bins = STFT_SIZE / 2 + 1;
+
+  const spectra: { real: Float32Array; imag: Float32Array }[] = [];
+  const power: Float32Array[] = [];
+  for (let t = 0; t < frameCount; t++) {
+    const start = t * STFT_HOP;
+    const real = new Float32Array(STFT_SIZE);
+    const imag = new Float32Array(STFT_SIZE);
+    for (let i = 0; i < STFT_SIZE; i++) {
+      real[i] = padded[start + i] * HANN[i];
+    }
+    fft(real, imag);
+
+    const p = new Float32Array(bins);
+    for (let k = 0; k < bins; k++) {
+      p[k] = real[k] * real[k] + imag[k] * imag[k];
+    }
+    spectra.push({ real, imag });
+    power.push(p);
+  }
+
+  const firstInterior = Math.ceil(pad / STFT_HOP);
+  const lastInterior = Math.floor((pad + buffer.samples.length - STFT_SIZE) / STFT_HOP);
+  const noisePsd = trackNoisePsd(power, bins, firstInterior, lastInterior);
+  const output = new Float32Array(padded.length);
+  const prevCleanPower = new Float32Array(bins);
+  const smoothedPower = new Float32Array(bins);
+
+  for (let t = 0; t < frameCount; t++) {
+    const { real, imag } = spectra[t];
+
+    for (let k = 0; k < bins; k++) {
+      const p = power[t][k];
+      const n = Math.max(noisePsd[t][k], 1e-20);
+      let gain: number;
+
+      if (cfg.method === 'spectral_subtraction') {
+        smoothedPower[k] = GAIN_SMOOTHING * smoothedPower[k] + (1 - GAIN_SMOOTHING) * p;
+        const ps = smoothedPower[k];
+        gain = ps > 0 ? Math.sqrt(Math.max(ps - cfg.overSubtraction * n, 0) / ps) : 0;
+      } else {
+        const snrPost = p / n;
+        const snrPrio =
+          DD_ALPHA * (prevCleanPower[k] / n) + (1 - DD_ALPHA) * Math.max(snrPost - 1, 0);
+        gain = snrPrio / (1 + snrPrio);
+      }
+      gain = Math.max(gain, cfg.spectralFloor);
+      prevCleanPower[k] = gain * gain * p;
+
+      real[k] *= gain;
+      imag[k] *= gain;
+      // Mirror onto the negative frequencies so the frame stays real
+      if (k > 0 && k < STFT_SIZE / 2) {
+        real[STFT_SIZE - k] = real[k];
+        imag[STFT_SIZE - k] = -imag[k];
+      }
+    }
+
+    ifft(real, imag);
+    const start = t * STFT_HOP;
+    for (let i = 0; i < STFT_SIZE; i++) {
+      output[start + i] += real[i];
+    }
+  }
+
+  return { ...buffer, samples: output.slice(pad, pad + buffer.samples.length) };
+}
+
+export default denoiseAudio;
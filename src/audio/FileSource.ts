@@ -0,0 +1,64 @@
+/**
+ * Audio file sources
+ * Where an existing recording comes from: the system document picker in the
+ * app, or a stub in tests. The analyze-file flow only sees this interface.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { readUriBytes } from './AudioUtils';
+
+/**
+ * A file the user selected, not yet read
+ */
+export interface SelectedFile {
+  readonly name: string;
+  /** Size in bytes if the source knows it before reading */
+  readonly size: number | null;
+  readBytes(): Promise<Uint8Array>;
+}
+
+export interface FileSource {
+  /** Let the user choose a file; null if they cancel */
+  pickFile(): Promise<SelectedFile | null>;
+}
+
+const WAV_MIME_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/vnd.wave'];
+
+/**
+ * File source backed by the system document picker
+ * The picker copies the file into its cache so it can be read on every
+ * platform; nothing is written by the app itself.
+ */
+export const documentPickerFileSource: FileSource = {
+  async pickFile() {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: WAV_MIME_TYPES,
+      copyToCacheDirectory: true,
+      multiple: false,
+    });
+
+    if (result.canceled || result.assets.length === 0) {
+      return null;
+    }
+
+    const asset = result.assets[0];
+    return {
+      name: asset.name,
+      size: asset.size ?? null,
+      readBytes: () => readUriBytes(asset.uri),
+    };
+  },
+};
+
+let activeFileSource: FileSource = documentPickerFileSource;
+
+/**
+ * Replace the file source (e.g. with a stub for tests or demos)
+ */
+export function setFileSource(source: FileSource): void {
+  activeFileSource = source;
+}
+
+export function getFileSource(): FileSource {
+  return activeFileSource;
+}
@@ -0,0 +1,129 @@
+/**
+ * Input level metering
+ * Turns the recorder's dBFS metering readings into a display state with
+ * peak-hold, clip detection and a too-quiet flag
+ * Pure functions - the caller owns the state
+ */
+
+/** Floor of the meter scale; Expo reports -160 for digital silence */
+export const METER_FLOOR_DB = -60;
+
+/**
+ * What a metering reading measures
+ * Android's recorder reports the peak amplitude since the last reading;
+ * iOS reports power averaged over a short window, which sits well below
+ * the peaks of clipped speech.
+ */
+export type MeteringKind = 'peak' | 'average';
+
+/**
+ * Reading at or above this is treated as clipping
+ * Speech peaks some 10-15 dB above its average power, so an averaged
+ * reading of -6 dBFS means the peaks are already being flattened.
+ */
+export const CLIP_THRESHOLD_DB: Readonly<Record<MeteringKind, number>> = {
+  peak: -1,
+  average: -6,
+};
+
+/**
+ * Level below which the take will likely trigger the too_quiet insight
+ * (InsightEngine flags rms < 0.015, i.e. about -36.5 dBFS)
+ */
+export const TOO_QUIET_DB = -36;
+
+/** How long the peak marker holds before it starts falling */
+const PEAK_HOLD_MS = 1500;
+/** Peak marker fall rate once the hold expires */
+const PEAK_DECAY_DB_PER_SECOND = 20;
+/** Smoothing for the displayed level (0-1, higher = faster) */
+const LEVEL_SMOOTHING = 0.5;
+/** Clip indicator stays lit this long after the last clipped reading */
+const CLIP_DISPLAY_MS = 2000;
+
+export interface LevelState {
+  /** Smoothed level in dBFS */
+  readonly levelDb: number;
+  /** Held peak in dBFS */
+  readonly peakDb: number;
+  readonly peakTimestamp: number;
+  /** Number of readings at or above the clip threshold */
+  readonly clipCount: number;
+  /** Timestamp of the last clipped reading, -Infinity if none */
+  readonly lastClipTimestamp: number;
+  readonly lastTimestamp: number;
+}
+
+export interface LevelReading {
+  readonly levelDb: number;
+  readonly peakDb: number;
+  /** Level on a 0-1 scale for drawing (METER_FLOOR_DB..0 dBFS) */
+  readonly levelFraction: number;
+  readonly peakFraction: number;
+  /** A clipped reading happened recently */
+  readonly isClipping: boolean;
+  readonly clipCount: number;
+  readonly isTooQuiet: boolean;
+}
+
+export const INITIAL_LEVEL_STATE: LevelState = {
+  levelDb: METER_FLOOR_DB,
+  peakDb: METER_FLOOR_DB,
+  peakTimestamp: 0,
+  clipCount: 0,
+  lastClipTimestamp: -Infinity,
+  lastTimestamp: 0,
+};
+
+/**
+ * Fold a new metering reading into the meter state
+ */
+export function updateLevelState(
+  state: LevelState,
+  meteringDb: number,
+  timestamp: number,
+  kind: MeteringKind = 'peak'
+): LevelState {
+  const clamped = Math.max(METER_FLOOR_DB, Math.min(0, meteringDb));
+  const levelDb = state.levelDb + (clamped - state.levelDb) * LEVEL_SMOOTHING;
+
+  let peakDb = state.peakDb;
+  let peakTimestamp = state.peakTimestamp;
+  if (clamped >= peakDb) {
+    peakDb = clamped;
+    peakTimestamp = timestamp;
+  } else if (timestamp - peakTimestamp > PEAK_HOLD_MS) {
+    const elapsedSeconds = (timestamp - state.lastTimestamp) / 1000;
+    peakDb = Math.max(clamped, peakDb - PEAK_DECAY_DB_PER_SECOND * elapsedSeconds);
+  }
+
+  const clipped = meteringDb >= CLIP_THRESHOLD_DB[kind];
+
+  return {
+    levelDb,
+    peakDb,
+    peakTimestamp,
+    clipCount: state.clipCount + (clipped ? 1 : 0),
+    lastClipTimestamp: clipped ? timestamp : state.lastClipTimestamp,
+    lastTimestamp: timestamp,
+  };
+}
+
+function toFraction(db: number): number {
+  return Math.max(0, Math.min(1, (db - METER_FLOOR_DB) / -METER_FLOOR_DB));
+}
+
+/**
+ * Derive what the meter should display from its state
+ */
+export function toLevelReading(state: LevelState): LevelReading {
+  return {
+    levelDb: state.levelDb,
+    peakDb: state.peakDb,
+    levelFraction: toFraction(state.levelDb),
+    peakFraction: toFraction(state.peakDb),
+    isClipping: state.lastTimestamp - state.lastClipTimestamp <= CLIP_DISPLAY_MS,
+    clipCount: state.clipCount,
+    isTooQuiet: state.levelDb < TOO_QUIET_DB,
+  };
+}
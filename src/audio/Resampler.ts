@@ -0,0 +1,172 @@
+/**
+ * Band-limited sample rate conversion
+ * Polyphase windowed-sinc (Kaiser) resampler with anti-alias filtering
+ * Pure TypeScript - no native dependencies
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+
+/**
+ * Sample rate the analysis pipeline is tuned for
+ * (FeatureExtractor framing and PitchDetector defaults assume it)
+ */
+export const DEFAULT_ANALYSIS_SAMPLE_RATE = 16000;
+
+/**
+ * Resampler configuration
+ */
+export interface ResamplerConfig {
+  /** Zero crossings of the sinc kernel on each side (filter length/quality) */
+  zeroCrossings: number;
+  /** Passband edge as a fraction of the lower Nyquist frequency (0-1) */
+  rolloff: number;
+  /** Kaiser window shape parameter (higher = more stopband attenuation) */
+  kaiserBeta: number;
+}
+
+const DEFAULT_CONFIG: ResamplerConfig = {
+  zeroCrossings: 16,
+  rolloff: 0.94,
+  kaiserBeta: 8.6, // ~ -90 dB stopband
+};
+
+/** Above this many phases coefficients are computed per output sample */
+const MAX_TABLE_PHASES = 4096;
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+/**
+ * Zeroth-order modified Bessel function of the first kind (series expansion)
+ */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const halfX = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * Windowed-sinc low-pass kernel evaluated at t input samples from centre
+ */
+function kernel(t: number, cutoff: number, halfWidth: number, beta: number, i0Beta: number): number {
+  if (Math.abs(t) >= halfWidth) return 0;
+  const x = 2 * cutoff * t;
+  const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+  const r = t / halfWidth;
+  const window = besselI0(beta * Math.sqrt(1 - r * r)) / i0Beta;
+  return 2 * cutoff * sinc * window;
+}
+
+/**
+ * Resample interleaved samples from one rate to another
+ * Every channel is filtered independently; output stays interleaved.
+ */
+export function resample(
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  channels = 1,
+  config: Partial<ResamplerConfig> = {}
+): Float32Array {
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new Error(`Invalid sample rates: ${fromRate} -> ${toRate}`);
+  }
+
+  const frameCount = Math.floor(samples.length / channels);
+  if (fromRate === toRate) {
+    return samples.slice(0, frameCount * channels);
+  }
+
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+
+  // Output sample n sits at input position n * down / up
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+
+  // Cutoff in cycles per input sample, below the lower of the two Nyquist limits
+  const cutoff = 0.5 * Math.min(1, toRate / fromRate) * cfg.rolloff;
+  const halfTaps = Math.ceil(cfg.zeroCrossings / (2 * cutoff));
+  const numTaps = 2 * halfTaps;
+  const i0Beta = besselI0(cfg.kaiserBeta);
+
+  // Coefficients for one fractional phase, normalised to unity DC gain
+  const phaseCoefficients = (phase: number): Float32Array => {
+    const frac = phase / up;
+    const coeffs = new Float32Array(numTaps);
+    let sum = 0;
+    for (let k = 0; k < numTaps; k++) {
+      const t = frac + halfTaps - 1 - k;
+      coeffs[k] = kernel(t, cutoff, halfTaps, cfg.kaiserBeta, i0Beta);
+      sum += coeffs[k];
+    }
+    if (sum !== 0) {
+      for (let k = 0; k < numTaps; k++) coeffs[k] /= sum;
+    }
+    return coeffs;
+  };
+
+  const table = up <= MAX_TABLE_PHASES
+    ? Array.from({ length: up }, (_, p) => phaseCoefficients(p))
+    : null;
+
+  const outFrames = Math.ceil((frameCount * up) / down);
+  const output = new Float32Array(outFrames * channels);
+
+  for (let n = 0; n < outFrames; n++) {
+    const position = n * down;
+    const base = Math.floor(position / up);
+    const phase = position % up;
+    const coeffs = table ? table[phase] : phaseCoefficients(phase);
+    const first = base - halfTaps + 1;
+
+    for (let ch = 0; ch < channels; ch++) {
+      let acc = 0;
+      for (let k = 0; k < numTaps; k++) {
+        const idx = first + k;
+        if (idx >= 0 && idx < frameCount) {
+          acc += samples[idx * channels + ch] * coeffs[k];
+        }
+      }
+      output[n * channels + ch] = acc;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Convert an AudioBuffer to the target rate (default: analysis rate)
+ * Returns the input unchanged if it is already at that rate.
+ */
+export function resampleBuffer(
+  buffer: AudioBuffer,
+  targetRate = DEFAULT_ANALYSIS_SAMPLE_RATE,
+  config: Partial<ResamplerConfig> = {}
+): AudioBuffer {
+  if (buffer.sampleRate === targetRate) {
+    return buffer;
+  }
+
+  const samples = resample(buffer.samples, buffer.sampleRate, targetRate, buffer.channels, config);
+  const frameCount = samples.length / buffer.channels;
+
+  return {
+    samples,
+    sampleRate: targetRate,
+    channels: buffer.channels,
+    durationMs: (frameCount / targetRate) * 1000,
+  };
+}
+
+export default resampleBuffer;
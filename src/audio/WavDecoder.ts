@@ -0,0 +1,355 @@
+/**
+ * RIFF/WAVE decoder
+ * Walks the chunk list, honors the fmt chunk and returns float samples
+ * Pure functions - no I/O, works on an in-memory byte array
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+
+/** WAVE_FORMAT_PCM */
+export const WAVE_FORMAT_PCM = 0x0001;
+/** WAVE_FORMAT_IEEE_FLOAT */
+export const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+/** WAVE_FORMAT_EXTENSIBLE (real format lives in the SubFormat GUID) */
+export const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+
+export type WavErrorCode =
+  | 'not_riff'
+  | 'not_wave'
+  | 'missing_fmt'
+  | 'missing_data'
+  | 'invalid_fmt'
+  | 'unsupported_encoding';
+
+/**
+ * Error raised when a byte array cannot be decoded as WAV audio
+ */
+export class WavDecodeError extends Error {
+  readonly code: WavErrorCode;
+
+  constructor(code: WavErrorCode, message: string) {
+    super(message);
+    this.name = 'WavDecodeError';
+    this.code = code;
+  }
+}
+
+/**
+ * Contents of the fmt chunk, resolved for WAVE_FORMAT_EXTENSIBLE
+ */
+export interface WavFormat {
+  /** Format tag as written in the file (may be WAVE_FORMAT_EXTENSIBLE) */
+  readonly formatTag: number;
+  /** Sample encoding after resolving the extensible sub-format */
+  readonly encoding: 'pcm' | 'float';
+  readonly channels: number;
+  readonly sampleRate: number;
+  readonly byteRate: number;
+  /** Bytes per sample frame (all channels) */
+  readonly blockAlign: number;
+  /** Container size of one sample in bits */
+  readonly bitsPerSample: number;
+  /** Significant bits per sample (equals bitsPerSample unless extensible says otherwise) */
+  readonly validBitsPerSample: number;
+  /** Speaker position mask from WAVE_FORMAT_EXTENSIBLE, 0 if absent */
+  readonly channelMask: number;
+}
+
+/**
+ * A chunk found while walking the RIFF list
+ */
+export interface WavChunk {
+  readonly id: string;
+  /** Offset of the chunk payload (after the 8-byte header) */
+  readonly offset: number;
+  /** Payload size from the header (runs to end of file for streaming data chunks) */
+  readonly size: number;
+}
+
+/**
+ * Full decode result including header details
+ */
+export interface DecodedWav {
+  readonly format: WavFormat;
+  readonly buffer: AudioBuffer;
+  readonly chunks: readonly WavChunk[];
+  /** LIST/INFO entries keyed by four-character ID (empty if none) */
+  readonly info: Readonly<Record<string, string>>;
+  /** True if the data chunk was cut short by the end of the file */
+  readonly truncated: boolean;
+}
+
+/**
+ * Read a four-character code at the given offset
+ */
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(
+    bytes[offset],
+    bytes[offset + 1],
+    bytes[offset + 2],
+    bytes[offset + 3]
+  );
+}
+
+/**
+ * Whether a plausible chunk header starts at offset: a printable ASCII
+ * FourCC and a size that fits in the file
+ */
+function isChunkHeader(bytes: Uint8Array, view: DataView, offset: number): boolean {
+  if (offset + CHUNK_HEADER_SIZE > bytes.length) return false;
+  for (let i = 0; i < 4; i++) {
+    if (bytes[offset + i] < 0x20 || bytes[offset + i] > 0x7e) return false;
+  }
+  return offset + CHUNK_HEADER_SIZE + view.getUint32(offset + 4, true) <= bytes.length;
+}
+
+/**
+ * Check for a RIFF....WAVE signature
+ */
+export function isWav(bytes: Uint8Array): boolean {
+  return (
+    bytes.length >= RIFF_HEADER_SIZE &&
+    readFourCC(bytes, 0) === 'RIFF' &&
+    readFourCC(bytes, 8) === 'WAVE'
+  );
+}
+
+/**
+ * Walk the RIFF chunk list
+ * Chunks are word-aligned: odd-sized payloads are followed by a pad byte.
+ * Streaming writers leave the data size at 0xFFFFFFFF, or at 0 with nothing
+ * after it; such a data chunk is taken to run to the end of the file. A
+ * data chunk of size 0 followed by another chunk is genuinely empty.
+ */
+export function readWavChunks(bytes: Uint8Array): WavChunk[] {
+  if (bytes.length < RIFF_HEADER_SIZE || readFourCC(bytes, 0) !== 'RIFF') {
+    throw new WavDecodeError('not_riff', 'Missing RIFF header');
+  }
+  if (readFourCC(bytes, 8) !== 'WAVE') {
+    throw new WavDecodeError('not_wave', 'RIFF form type is not WAVE');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: WavChunk[] = [];
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + CHUNK_HEADER_SIZE <= bytes.length) {
+    const id = readFourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const payloadOffset = offset + CHUNK_HEADER_SIZE;
+
+    const streaming =
+      size === 0xffffffff || (size === 0 && !isChunkHeader(bytes, view, payloadOffset));
+    if (id === 'data' && streaming) {
+      chunks.push({ id, offset: payloadOffset, size: bytes.length - payloadOffset });
+      break;
+    }
+
+    chunks.push({ id, offset: payloadOffset, size });
+
+    offset = payloadOffset + size + (size % 2);
+  }
+
+  return chunks;
+}
+
+/**
+ * Parse the fmt chunk payload
+ */
+function parseFormat(view: DataView, chunk: WavChunk): WavFormat {
+  if (chunk.size < 16 || chunk.offset + 16 > view.byteLength) {
+    throw new WavDecodeError('invalid_fmt', `fmt chunk too small (${chunk.size} bytes)`);
+  }
+
+  const formatTag = view.getUint16(chunk.offset, true);
+  const channels = view.getUint16(chunk.offset + 2, true);
+  const sampleRate = view.getUint32(chunk.offset + 4, true);
+  const byteRate = view.getUint32(chunk.offset + 8, true);
+  const blockAlign = view.getUint16(chunk.offset + 12, true);
+  const bitsPerSample = view.getUint16(chunk.offset + 14, true);
+
+  let subFormat = formatTag;
+  let validBitsPerSample = bitsPerSample;
+  let channelMask = 0;
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    // cbSize(2) validBits(2) channelMask(4) SubFormat GUID(16)
+    if (chunk.size < 40 || chunk.offset + 40 > view.byteLength) {
+      throw new WavDecodeError('invalid_fmt', 'WAVE_FORMAT_EXTENSIBLE fmt chunk too small');
+    }
+    validBitsPerSample = view.getUint16(chunk.offset + 18, true) || bitsPerSample;
+    channelMask = view.getUint32(chunk.offset + 20, true);
+    // The first two bytes of the SubFormat GUID carry the legacy format tag
+    subFormat = view.getUint16(chunk.offset + 24, true);
+  }
+
+  if (channels === 0 || sampleRate === 0) {
+    throw new WavDecodeError('invalid_fmt', 'fmt chunk declares zero channels or sample rate');
+  }
+
+  let encoding: 'pcm' | 'float';
+  if (subFormat === WAVE_FORMAT_PCM && [8, 16, 24, 32].includes(bitsPerSample)) {
+    encoding = 'pcm';
+  } else if (subFormat === WAVE_FORMAT_IEEE_FLOAT && (bitsPerSample === 32 || bitsPerSample === 64)) {
+    encoding = 'float';
+  } else {
+    throw new WavDecodeError(
+      'unsupported_encoding',
+      `Unsupported WAV encoding (format 0x${subFormat.toString(16)}, ${bitsPerSample}-bit)`
+    );
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  if (blockAlign !== channels * bytesPerSample) {
+    throw new WavDecodeError(
+      'invalid_fmt',
+      `blockAlign ${blockAlign} does not match ${channels} x ${bitsPerSample}-bit samples`
+    );
+  }
+
+  return {
+    formatTag,
+    encoding,
+    channels,
+    sampleRate,
+    byteRate,
+    blockAlign,
+    bitsPerSample,
+    validBitsPerSample,
+    channelMask,
+  };
+}
+
+/**
+ * Convert the interleaved data payload to float samples (-1 to 1)
+ */
+function decodeSamples(
+  view: DataView,
+  offset: number,
+  sampleCount: number,
+  format: WavFormat
+): Float32Array {
+  const samples = new Float32Array(sampleCount);
+  const bytesPerSample = format.bitsPerSample / 8;
+
+  for (let i = 0; i < sampleCount; i++) {
+    const pos = offset + i * bytesPerSample;
+
+    if (format.encoding === 'float') {
+      samples[i] = bytesPerSample === 4
+        ? view.getFloat32(pos, true)
+        : view.getFloat64(pos, true);
+      continue;
+    }
+
+    switch (format.bitsPerSample) {
+      case 8:
+        // 8-bit PCM is unsigned with a 128 midpoint
+        samples[i] = (view.getUint8(pos) - 128) / 128;
+        break;
+      case 16:
+        samples[i] = view.getInt16(pos, true) / 32768;
+        break;
+      case 24: {
+        const value =
+          view.getUint8(pos) |
+          (view.getUint8(pos + 1) << 8) |
+          (view.getInt8(pos + 2) << 16);
+        samples[i] = value / 8388608;
+        break;
+      }
+      default:
+        samples[i] = view.getInt32(pos, true) / 2147483648;
+        break;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * Read LIST/INFO metadata entries
+ * Values are NUL-terminated strings; trailing NULs are stripped.
+ */
+export function readWavInfo(bytes: Uint8Array, chunks: readonly WavChunk[]): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: Record<string, string> = {};
+
+  for (const chunk of chunks) {
+    if (chunk.id !== 'LIST' || chunk.size < 4 || readFourCC(bytes, chunk.offset) !== 'INFO') {
+      continue;
+    }
+
+    const end = Math.min(chunk.offset + chunk.size, bytes.length);
+    let offset = chunk.offset + 4;
+
+    while (offset + CHUNK_HEADER_SIZE <= end) {
+      const id = readFourCC(bytes, offset);
+      const size = view.getUint32(offset + 4, true);
+      const valueEnd = Math.min(offset + CHUNK_HEADER_SIZE + size, end);
+
+      let value = '';
+      for (let i = offset + CHUNK_HEADER_SIZE; i < valueEnd; i++) {
+        value += String.fromCharCode(bytes[i]);
+      }
+      info[id] = value.replace(/\0+$/, '');
+
+      offset += CHUNK_HEADER_SIZE + size + (size % 2);
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Decode a WAV file, returning header details alongside the audio
+ * Multi-channel audio is returned interleaved, as stored in the file.
+ */
+export function parseWav(bytes: Uint8Array): DecodedWav {
+  const chunks = readWavChunks(bytes);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  const fmtChunk = chunks.find(c => c.id === 'fmt ');
+  if (!fmtChunk) {
+    throw new WavDecodeError('missing_fmt', 'No fmt chunk found');
+  }
+  const format = parseFormat(view, fmtChunk);
+
+  const dataChunk = chunks.find(c => c.id === 'data');
+  if (!dataChunk) {
+    throw new WavDecodeError('missing_data', 'No data chunk found');
+  }
+
+  // Recorders killed mid-write leave a size larger than the file; read what is there
+  const available = bytes.length - dataChunk.offset;
+  const truncated = dataChunk.size > available;
+  const dataBytes = Math.min(dataChunk.size, available);
+
+  const frameCount = Math.floor(dataBytes / format.blockAlign);
+  const samples = decodeSamples(view, dataChunk.offset, frameCount * format.channels, format);
+
+  return {
+    format,
+    chunks,
+    info: readWavInfo(bytes, chunks),
+    truncated,
+    buffer: {
+      samples,
+      sampleRate: format.sampleRate,
+      channels: format.channels,
+      durationMs: (frameCount / format.sampleRate) * 1000,
+    },
+  };
+}
+
+/**
+ * Decode a WAV file into an AudioBuffer
+ */
+export function decodeWav(bytes: Uint8Array): AudioBuffer {
+  return parseWav(bytes).buffer;
+}
+
+export default decodeWav;
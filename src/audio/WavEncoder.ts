@@ -0,0 +1,173 @@
+/**
+ * WAV encoder
+ * Writes an AudioBuffer as 16-bit PCM or 32-bit float RIFF/WAVE bytes,
+ * with optional LIST/INFO metadata
+ * Pure functions - returns bytes, never touches the file system
+ */
+
+import { AudioBuffer } from '@/analysis/types';
+import { WAVE_FORMAT_PCM, WAVE_FORMAT_IEEE_FLOAT } from './WavDecoder';
+
+export type WavSampleFormat = 'pcm16' | 'float32';
+
+/**
+ * Common INFO chunk IDs; any four-character ID is accepted
+ */
+export const WAV_INFO_TAGS = {
+  title: 'INAM',
+  comment: 'ICMT',
+  software: 'ISFT',
+  creationDate: 'ICRD',
+  /** Non-standard tag used for the analysis version that produced a clip */
+  analysisVersion: 'IAVR',
+} as const;
+
+export interface WavEncodeOptions {
+  readonly format: WavSampleFormat;
+  /** INFO entries keyed by four-character chunk ID (see WAV_INFO_TAGS) */
+  readonly info?: Readonly<Record<string, string>>;
+}
+
+const DEFAULT_OPTIONS: WavEncodeOptions = {
+  format: 'pcm16',
+};
+
+class ByteWriter {
+  private readonly view: DataView;
+  readonly bytes: Uint8Array;
+  offset = 0;
+
+  constructor(size: number) {
+    this.bytes = new Uint8Array(size);
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  fourCC(id: string): void {
+    for (let i = 0; i < 4; i++) {
+      this.bytes[this.offset + i] = id.charCodeAt(i);
+    }
+    this.offset += 4;
+  }
+
+  uint16(value: number): void {
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  uint32(value: number): void {
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  int16(value: number): void {
+    this.view.setInt16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  float32(value: number): void {
+    this.view.setFloat32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  byte(value: number): void {
+    this.bytes[this.offset] = value;
+    this.offset += 1;
+  }
+}
+
+/**
+ * INFO values are stored NUL-terminated; non-Latin-1 characters become '?'
+ */
+function encodeInfoValue(value: string): number[] {
+  const codes = Array.from(value, c => {
+    const code = c.charCodeAt(0);
+    return code > 0xff ? 0x3f : code;
+  });
+  codes.push(0);
+  return codes;
+}
+
+function buildInfoEntries(info: Readonly<Record<string, string>>): { id: string; data: number[] }[] {
+  return Object.entries(info).map(([id, value]) => {
+    if (!/^[\x20-\x7e]{4}$/.test(id)) {
+      throw new Error(`Invalid INFO chunk ID "${id}" (must be four printable ASCII characters)`);
+    }
+    return { id, data: encodeInfoValue(value) };
+  });
+}
+
+/**
+ * Encode an AudioBuffer as WAV bytes
+ * Interleaved multi-channel buffers are written as-is.
+ */
+export function encodeWav(
+  buffer: AudioBuffer,
+  options: Partial<WavEncodeOptions> = {}
+): Uint8Array {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const isFloat = opts.format === 'float32';
+  const bitsPerSample = isFloat ? 32 : 16;
+  const bytesPerSample = bitsPerSample / 8;
+  const channels = buffer.channels;
+  const blockAlign = channels * bytesPerSample;
+
+  const frameCount = Math.floor(buffer.samples.length / channels);
+  const sampleCount = frameCount * channels;
+  const dataSize = sampleCount * bytesPerSample;
+
+  const infoEntries = opts.info ? buildInfoEntries(opts.info) : [];
+  // 'INFO' form type + each sub-chunk header, payload and pad byte
+  const listSize = infoEntries.length === 0
+    ? 0
+    : 4 + infoEntries.reduce((sum, e) => sum + 8 + e.data.length + (e.data.length % 2), 0);
+
+  const fmtSize = 16;
+  const riffSize =
+    4 +
+    (8 + fmtSize) +
+    (listSize > 0 ? 8 + listSize : 0) +
+    (8 + dataSize + (dataSize % 2));
+
+  const writer = new ByteWriter(8 + riffSize);
+
+  writer.fourCC('RIFF');
+  writer.uint32(riffSize);
+  writer.fourCC('WAVE');
+
+  writer.fourCC('fmt ');
+  writer.uint32(fmtSize);
+  writer.uint16(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM);
+  writer.uint16(channels);
+  writer.uint32(buffer.sampleRate);
+  writer.uint32(buffer.sampleRate * blockAlign);
+  writer.uint16(blockAlign);
+  writer.uint16(bitsPerSample);
+
+  if (listSize > 0) {
+    writer.fourCC('LIST');
+    writer.uint32(listSize);
+    writer.fourCC('INFO');
+    for (const entry of infoEntries) {
+      writer.fourCC(entry.id);
+      writer.uint32(entry.data.length);
+      entry.data.forEach(b => writer.byte(b));
+      if (entry.data.length % 2 === 1) writer.byte(0);
+    }
+  }
+
+  writer.fourCC('data');
+  writer.uint32(dataSize);
+  for (let i = 0; i < sampleCount; i++) {
+    const sample = buffer.samples[i];
+    if (isFloat) {
+      writer.float32(sample);
+    } else {
+      // Matches the decoder's /32768 scaling so 16-bit values round-trip exactly
+      writer.int16(Math.max(-32768, Math.min(32767, Math.round(sample * 32768))));
+    }
+  }
+
+  return writer.bytes;
+}
+
+export default encodeWav;
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for AudioFileLoader
+ * Decoding and validation of picked files through a stub file source
+ */
+
+import { loadAudioFile, pickAudioFile, AudioFileError } from '../AudioFileLoader';
+import { FileSource, SelectedFile } from '../FileSource';
+import { encodeWav } from '../WavEncoder';
+
+const sampleRate = 16000;
+
+function toneWav(seconds: number, channels = 1): Uint8Array {
+  const length = Math.round(sampleRate * seconds) * channels;
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = 0.3 * Math.sin((2 * Math.PI * 200 * Math.floor(i / channels)) / sampleRate);
+  }
+  return encodeWav({ samples, sampleRate, channels, durationMs: seconds * 1000 });
+}
+
+function stubFile(bytes: Uint8Array, name = 'clip.wav', size: number | null = bytes.length): SelectedFile {
+  return { name, size, readBytes: jest.fn(async () => bytes) };
+}
+
+async function expectFileError(promise: Promise<unknown>, code: string): Promise<void> {
+  await expect(promise).rejects.toBeInstanceOf(AudioFileError);
+  await expect(promise).rejects.toMatchObject({ code });
+}
+
+describe('AudioFileLoader', () => {
+  it('should decode a valid WAV file', async () => {
+    const buffer = await loadAudioFile(stubFile(toneWav(5, 2)));
+
+    expect(buffer.sampleRate).toBe(sampleRate);
+    expect(buffer.channels).toBe(2);
+    expect(buffer.durationMs).toBeCloseTo(5000, 0);
+  });
+
+  it('should reject files that are not WAV', async () => {
+    const bytes = new TextEncoder().encode('ID3 this is an mp3, honestly');
+    await expectFileError(loadAudioFile(stubFile(bytes, 'clip.mp3')), 'not_wav');
+  });
+
+  it('should reject WAV files the decoder cannot read', async () => {
+    const bytes = toneWav(5);
+    // Corrupt the fmt chunk id so the decoder cannot find the format
+    bytes.set([0x78, 0x78, 0x78, 0x78], 12);
+    await expectFileError(loadAudioFile(stubFile(bytes)), 'unsupported_format');
+  });
+
+  it('should reject clips outside the duration limits', async () => {
+    await expectFileError(loadAudioFile(stubFile(toneWav(1))), 'too_short');
+    await expectFileError(
+      loadAudioFile(stubFile(toneWav(5)), { maxDurationMs: 4000 }),
+      'too_long'
+    );
+  });
+
+  it('should reject oversized files before reading them', async () => {
+    const file = stubFile(toneWav(5), 'big.wav', 10 * 1024 * 1024);
+
+    await expectFileError(loadAudioFile(file, { maxBytes: 1024 * 1024 }), 'too_large');
+    expect(file.readBytes).not.toHaveBeenCalled();
+  });
+
+  it('should return null when the user cancels the picker', async () => {
+    const source: FileSource = { pickFile: async () => null };
+    await expect(pickAudioFile(source)).resolves.toBeNull();
+  });
+
+  it('should load the file a source returns', async () => {
+    const source: FileSource = { pickFile: async () => stubFile(toneWav(4)) };
+    const buffer = await pickAudioFile(source);
+
+    expect(buffer?.durationMs).toBeCloseTo(4000, 0);
+  });
+});
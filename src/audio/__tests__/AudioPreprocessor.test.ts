@@ -0,0 +1,104 @@
+/**
+ * Unit tests for AudioPreprocessor
+ * Individual stages and chain composition
+ */
+
+import {
+  dcBlock,
+  highPass,
+  preEmphasis,
+  normalizeLevel,
+  preprocessAudio,
+  DEFAULT_PREPROCESSOR_CONFIG,
+} from '../AudioPreprocessor';
+import { AudioBuffer } from '@/analysis/types';
+
+const sampleRate = 16000;
+
+function sine(frequency: number, length: number, amplitude = 0.5, offset = 0): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = offset + amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+function tailRms(samples: Float32Array, skip = 4000): number {
+  let sum = 0;
+  for (let i = skip; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (samples.length - skip));
+}
+
+function tailMean(samples: Float32Array, skip = 4000): number {
+  let sum = 0;
+  for (let i = skip; i < samples.length; i++) sum += samples[i];
+  return sum / (samples.length - skip);
+}
+
+describe('AudioPreprocessor', () => {
+  it('should remove a DC offset', () => {
+    const output = dcBlock(sine(220, sampleRate, 0.3, 0.2), 0.995);
+    expect(Math.abs(tailMean(output))).toBeLessThan(0.001);
+    expect(tailRms(output)).toBeCloseTo(0.3 / Math.SQRT2, 2);
+  });
+
+  it('should attenuate rumble below the high-pass cutoff and pass voice', () => {
+    const rumble = highPass(sine(20, sampleRate), sampleRate, 60, Math.SQRT1_2);
+    const voice = highPass(sine(1000, sampleRate), sampleRate, 60, Math.SQRT1_2);
+
+    // 2nd-order: about -19 dB at one-third of the cutoff
+    expect(tailRms(rumble)).toBeLessThan(0.5 / Math.SQRT2 / 8);
+    expect(tailRms(voice)).toBeCloseTo(0.5 / Math.SQRT2, 2);
+  });
+
+  it('should apply first-order pre-emphasis', () => {
+    const output = preEmphasis(new Float32Array([1, 1, 0, 0.5]), 0.97);
+    expect(Array.from(output).map(v => Number(v.toFixed(4)))).toEqual([1, 0.03, -0.97, 0.5]);
+  });
+
+  it('should normalize to a target peak', () => {
+    const output = normalizeLevel(sine(220, 1600, 0.1), 'peak', 0.9);
+    expect(Math.max(...Array.from(output).map(Math.abs))).toBeCloseTo(0.9, 3);
+  });
+
+  it('should normalize RMS without exceeding full scale', () => {
+    const quiet = normalizeLevel(sine(220, 1600, 0.01), 'rms', -20);
+    expect(20 * Math.log10(tailRms(quiet, 0))).toBeCloseTo(-20, 1);
+
+    const hot = normalizeLevel(sine(220, 1600, 0.01), 'rms', 0);
+    expect(Math.max(...Array.from(hot).map(Math.abs))).toBeLessThanOrEqual(1 + 1e-6);
+  });
+
+  it('should apply stages in the configured order', () => {
+    const buffer: AudioBuffer = {
+      samples: sine(220, sampleRate, 0.3, 0.2),
+      sampleRate,
+      channels: 1,
+      durationMs: 1000,
+    };
+
+    const defaultOutput = preprocessAudio(buffer);
+    expect(Math.abs(tailMean(defaultOutput.samples))).toBeLessThan(0.001);
+    expect(defaultOutput.durationMs).toBe(1000);
+    expect(DEFAULT_PREPROCESSOR_CONFIG.stages.map(s => s.type)).toEqual(['dc_block', 'high_pass']);
+
+    const normalizedFirst = preprocessAudio(buffer, {
+      stages: [
+        { type: 'normalize', mode: 'peak', target: 1 },
+        { type: 'dc_block', pole: 0.995 },
+      ],
+    });
+    const normalizedLast = preprocessAudio(buffer, {
+      stages: [
+        { type: 'dc_block', pole: 0.995 },
+        { type: 'normalize', mode: 'peak', target: 1 },
+      ],
+    });
+    expect(tailRms(normalizedFirst.samples)).not.toBeCloseTo(tailRms(normalizedLast.samples), 2);
+  });
+
+  it('should reject multi-channel input', () => {
+    const stereo: AudioBuffer = { samples: new Float32Array(4), sampleRate, channels: 2, durationMs: 0 };
+    expect(() => preprocessAudio(stereo)).toThrow();
+  });
+});
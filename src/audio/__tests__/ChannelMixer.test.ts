@@ -0,0 +1,122 @@
+/**
+ * Unit tests for ChannelMixer and the audio-prep step
+ * Covers de-interleaving, downmix strategies and channel fault detection
+ */
+
+import { deinterleave, downmixBuffer } from '../ChannelMixer';
+import { prepareAudioForAnalysis } from '../AudioPrep';
+import { AudioBuffer } from '@/analysis/types';
+
+const sampleRate = 16000;
+
+function sine(frequency: number, length: number, amplitude: number): Float32Array {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+  return samples;
+}
+
+function interleave(channels: Float32Array[], rate = sampleRate): AudioBuffer {
+  const frames = channels[0].length;
+  const samples = new Float32Array(frames * channels.length);
+  for (let i = 0; i < frames; i++) {
+    channels.forEach((data, ch) => {
+      samples[i * channels.length + ch] = data[i];
+    });
+  }
+  return {
+    samples,
+    sampleRate: rate,
+    channels: channels.length,
+    durationMs: (frames / rate) * 1000,
+  };
+}
+
+describe('ChannelMixer', () => {
+  describe('deinterleave', () => {
+    it('should split interleaved frames into channels', () => {
+      const result = deinterleave(new Float32Array([1, 2, 3, 4, 5, 6]), 3);
+      expect(result.map(c => Array.from(c))).toEqual([[1, 4], [2, 5], [3, 6]]);
+    });
+  });
+
+  describe('downmixBuffer', () => {
+    it('should average live channels by default', () => {
+      const left = sine(220, 4096, 0.4);
+      const right = sine(220, 4096, 0.2);
+      const { buffer, report } = downmixBuffer(interleave([left, right]));
+
+      expect(buffer.channels).toBe(1);
+      expect(buffer.samples.length).toBe(4096);
+      expect(buffer.samples[100]).toBeCloseTo((left[100] + right[100]) / 2, 6);
+      expect(report.appliedStrategy).toBe('average');
+      expect(report.phaseCancelled).toBe(false);
+    });
+
+    it('should leave dead channels out of the average', () => {
+      const left = sine(220, 4096, 0.4);
+      const { buffer, report } = downmixBuffer(interleave([left, new Float32Array(4096)]));
+
+      expect(report.deadChannels).toEqual([1]);
+      expect(buffer.samples[100]).toBeCloseTo(left[100], 6);
+    });
+
+    it('should fall back to a single channel when averaging cancels the signal', () => {
+      const left = sine(220, 4096, 0.4);
+      const right = left.map(s => -s);
+      const { buffer, report } = downmixBuffer(interleave([left, right]));
+
+      expect(report.phaseCancelled).toBe(true);
+      expect(report.appliedStrategy).toBe('best_snr');
+      expect(report.selectedChannel).toBeGreaterThanOrEqual(0);
+      expect(Math.abs(buffer.samples[100])).toBeCloseTo(Math.abs(left[100]), 6);
+    });
+
+    it('should pick the channel with the best SNR', () => {
+      const clean = sine(220, 8192, 0.3);
+      // Same tone, but with a constant noise floor that never goes quiet
+      const noisy = clean.map((s, i) => s + 0.2 * Math.sin(i * 1.7) * Math.sin(i * 0.31));
+      // Make the clean channel intermittent so its quiet frames are truly quiet
+      for (let i = 0; i < 4096; i++) clean[i] = 0;
+
+      const { report } = downmixBuffer(interleave([noisy, clean]), { strategy: 'best_snr' });
+
+      expect(report.selectedChannel).toBe(1);
+    });
+
+    it('should return a requested channel index', () => {
+      const left = sine(220, 2048, 0.4);
+      const right = sine(440, 2048, 0.4);
+      const { buffer } = downmixBuffer(interleave([left, right]), {
+        strategy: 'channel',
+        channelIndex: 1,
+      });
+
+      expect(Array.from(buffer.samples)).toEqual(Array.from(right));
+    });
+
+    it('should reject an out-of-range channel index', () => {
+      const stereo = interleave([sine(220, 512, 0.4), sine(220, 512, 0.4)]);
+      expect(() => downmixBuffer(stereo, { strategy: 'channel', channelIndex: 2 })).toThrow(RangeError);
+    });
+  });
+
+  describe('prepareAudioForAnalysis', () => {
+    it('should produce mono audio at the analysis rate', () => {
+      const rate = 48000;
+      const stereo = interleave(
+        [new Float32Array(rate / 2).fill(0.25), new Float32Array(rate / 2).fill(0.25)],
+        rate
+      );
+
+      const prepared = prepareAudioForAnalysis(stereo);
+
+      expect(prepared.sourceSampleRate).toBe(48000);
+      expect(prepared.buffer.channels).toBe(1);
+      expect(prepared.buffer.sampleRate).toBe(16000);
+      expect(prepared.buffer.samples.length).toBe(8000);
+      expect(prepared.channelReport.channelCount).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for ClippingDetector
+ * Clipped runs, limiter plateaus, chunked scanning and clean-signal behavior
+ */
+
+import {
+  detectClipping,
+  updateClippingState,
+  toClippingReport,
+  INITIAL_CLIPPING_STATE,
+} from '../ClippingDetector';
+import { AudioBuffer } from '@/analysis/types';
+
+const sampleRate = 16000;
+
+/**
+ * Voice-like tone at a given amplitude, hard-clamped at a ceiling
+ */
+function clampedTone(amplitude: number, ceiling: number, seconds = 1): Float32Array {
+  const samples = new Float32Array(sampleRate * seconds);
+  for (let i = 0; i < samples.length; i++) {
+    const phase = (2 * Math.PI * 150 * i) / sampleRate;
+    const x = amplitude * (Math.sin(phase) + 0.3 * Math.sin(2 * phase));
+    samples[i] = Math.max(-ceiling, Math.min(ceiling, x));
+  }
+  return samples;
+}
+
+function mono(samples: Float32Array): AudioBuffer {
+  return { samples, sampleRate, channels: 1, durationMs: (samples.length / sampleRate) * 1000 };
+}
+
+/**
+ * Round to 16-bit steps, as a decoded WAV would be
+ */
+function quantize(samples: Float32Array): Float32Array {
+  return samples.map(s => Math.round(s * 32767) / 32767);
+}
+
+describe('ClippingDetector', () => {
+  it('should find no runs in a clean, quantized signal', () => {
+    const report = detectClipping(mono(quantize(clampedTone(0.6, 1))));
+
+    expect(report.clippedRunCount).toBe(0);
+    expect(report.plateauRunCount).toBe(0);
+    expect(report.distortedFrameRatio).toBe(0);
+    expect(report.isHardLimited).toBe(false);
+  });
+
+  it('should count full-scale runs and distorted frames when overdriven', () => {
+    const report = detectClipping(mono(clampedTone(1.5, 1)));
+
+    // 150 Hz: one positive and one negative clipped run per period
+    expect(report.clippedRunCount).toBeGreaterThan(250);
+    expect(report.distortedFrameRatio).toBe(1);
+    expect(report.clippedSampleRatio).toBeGreaterThan(0.2);
+    expect(report.isHardLimited).toBe(false);
+  });
+
+  it('should flag repeated plateaus below full scale as hard limiting', () => {
+    const report = detectClipping(mono(clampedTone(0.9, 0.5)));
+
+    expect(report.clippedRunCount).toBe(0);
+    expect(report.plateauRunCount).toBeGreaterThan(100);
+    expect(report.isHardLimited).toBe(true);
+  });
+
+  it('should report only the affected fraction of frames', () => {
+    const samples = clampedTone(0.5, 1, 2);
+    samples.set(clampedTone(2, 1, 0.5).subarray(0, sampleRate / 2));
+    const report = detectClipping(mono(samples));
+
+    expect(report.distortedFrameRatio).toBeGreaterThan(0.2);
+    expect(report.distortedFrameRatio).toBeLessThan(0.3);
+  });
+
+  it('should give the same report when scanned in chunks', () => {
+    const samples = clampedTone(1.5, 1);
+    let state = INITIAL_CLIPPING_STATE;
+    for (let start = 0; start < samples.length; start += 333) {
+      state = updateClippingState(state, samples.subarray(start, start + 333));
+    }
+
+    expect(toClippingReport(state)).toEqual(detectClipping(mono(samples)));
+  });
+
+  it('should scan interleaved channels separately', () => {
+    const left = clampedTone(1.5, 1);
+    const right = clampedTone(0.5, 1);
+    const interleaved = new Float32Array(left.length * 2);
+    for (let i = 0; i < left.length; i++) {
+      interleaved[2 * i] = left[i];
+      interleaved[2 * i + 1] = right[i];
+    }
+    const report = detectClipping({ samples: interleaved, sampleRate, channels: 2, durationMs: 1000 });
+
+    expect(report.clippedRunCount).toBe(detectClipping(mono(left)).clippedRunCount);
+    expect(report.distortedFrameRatio).toBe(1);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Unit tests for Denoiser
+ * Noise reduction strength, speech preservation and pass-through
+ */
+
+import { denoiseAudio } from '../Denoiser';
+import { AudioBuffer } from '@/analysis/types';
+
+const sampleRate = 16000;
+
+function noise(length: number, amplitude: number, seed = 7): Float32Array {
+  const samples = new Float32Array(length);
+  let state = seed;
+  for (let i = 0; i < length; i++) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    samples[i] = amplitude * ((state / 0xffffffff) * 2 - 1);
+  }
+  return samples;
+}
+
+function rms(samples: Float32Array, start = 0, end = samples.length): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (end - start));
+}
+
+/**
+ * One second of noise, one second of tone plus noise, one second of noise
+ */
+function toneInNoise(): { buffer: AudioBuffer; tone: Float32Array } {
+  const length = sampleRate * 3;
+  const tone = new Float32Array(length);
+  for (let i = sampleRate; i < 2 * sampleRate; i++) {
+    tone[i] = 0.2 * Math.sin((2 * Math.PI * 220 * i) / sampleRate);
+  }
+  const samples = noise(length, 0.05);
+  for (let i = 0; i < length; i++) samples[i] += tone[i];
+  return { buffer: { samples, sampleRate, channels: 1, durationMs: 3000 }, tone };
+}
+
+describe('Denoiser', () => {
+  const { buffer, tone } = toneInNoise();
+
+  it.each([
+    ['spectral_subtraction', -6],
+    ['wiener', -10],
+  ] as const)('%s should attenuate noise-only regions by at least %i dB', (method, maxDb) => {
+    const out = denoiseAudio(buffer, { method });
+    const before = rms(buffer.samples, 0, sampleRate);
+    const after = rms(out.samples, 0, sampleRate);
+    expect(20 * Math.log10(after / before)).toBeLessThan(maxDb);
+  });
+
+  it.each(['spectral_subtraction', 'wiener'] as const)(
+    '%s should keep the tone and improve its SNR',
+    method => {
+      const out = denoiseAudio(buffer, { method });
+      const start = sampleRate + 2048;
+      const end = 2 * sampleRate - 2048;
+
+      const error = (samples: Float32Array): number => {
+        const diff = new Float32Array(end - start);
+        for (let i = start; i < end; i++) diff[i - start] = samples[i] - tone[i];
+        return rms(diff);
+      };
+
+      expect(rms(out.samples, start, end)).toBeGreaterThan(0.8 * rms(tone, start, end));
+      expect(error(out.samples)).toBeLessThan(error(buffer.samples) * 0.7);
+    }
+  );
+
+  it('should reconstruct the input exactly when nothing is removed', () => {
+    const out = denoiseAudio(buffer, { method: 'spectral_subtraction', overSubtraction: 0 });
+    for (let i = 0; i < buffer.samples.length; i += 997) {
+      expect(out.samples[i]).toBeCloseTo(buffer.samples[i], 4);
+    }
+  });
+
+  it('should return the input untouched with method none', () => {
+    expect(denoiseAudio(buffer, { method: 'none' })).toBe(buffer);
+  });
+
+  it('should reject multi-channel input', () => {
+    expect(() => denoiseAudio({ ...buffer, channels: 2 })).toThrow('mono');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for LevelMeter
+ * Peak-hold, clip and too-quiet behavior of the meter state
+ */
+
+import {
+  INITIAL_LEVEL_STATE,
+  updateLevelState,
+  toLevelReading,
+  LevelState,
+  METER_FLOOR_DB,
+  CLIP_THRESHOLD_DB,
+  MeteringKind,
+} from '../LevelMeter';
+
+function feed(
+  readings: [number, number][],
+  state: LevelState = INITIAL_LEVEL_STATE,
+  kind: MeteringKind = 'peak'
+): LevelState {
+  return readings.reduce((s, [db, t]) => updateLevelState(s, db, t, kind), state);
+}
+
+describe('LevelMeter', () => {
+  it('should clamp digital silence to the meter floor', () => {
+    const reading = toLevelReading(feed([[-160, 0]]));
+
+    expect(reading.levelDb).toBe(METER_FLOOR_DB);
+    expect(reading.levelFraction).toBe(0);
+    expect(reading.isTooQuiet).toBe(true);
+  });
+
+  it('should converge on a steady level', () => {
+    const steady: [number, number][] = Array.from({ length: 20 }, (_, i) => [-20, i * 50]);
+    const reading = toLevelReading(feed(steady));
+
+    expect(reading.levelDb).toBeCloseTo(-20, 3);
+    expect(reading.isTooQuiet).toBe(false);
+    expect(reading.isClipping).toBe(false);
+  });
+
+  it('should hold the peak, then let it fall', () => {
+    const afterPeak = feed([[-6, 0], [-30, 50]]);
+    expect(toLevelReading(afterPeak).peakDb).toBe(-6);
+
+    const held = feed([[-30, 1000]], afterPeak);
+    expect(toLevelReading(held).peakDb).toBe(-6);
+
+    const falling = feed([[-30, 2000]], held);
+    expect(toLevelReading(falling).peakDb).toBeLessThan(-6);
+    expect(toLevelReading(falling).peakDb).toBeGreaterThanOrEqual(-30);
+  });
+
+  it('should flag clipping and keep the warning lit briefly', () => {
+    const clipped = feed([[-20, 0], [0, 50], [-0.2, 100]]);
+    expect(toLevelReading(clipped).isClipping).toBe(true);
+    expect(toLevelReading(clipped).clipCount).toBe(2);
+
+    const recovered = feed([[-20, 3000]], clipped);
+    expect(toLevelReading(recovered).isClipping).toBe(false);
+    expect(toLevelReading(recovered).clipCount).toBe(2);
+  });
+
+  it.each(['peak', 'average'] as const)('should clip at the %s metering threshold', kind => {
+    const threshold = CLIP_THRESHOLD_DB[kind];
+    expect(toLevelReading(feed([[threshold, 0]], INITIAL_LEVEL_STATE, kind)).clipCount).toBe(1);
+    expect(toLevelReading(feed([[threshold - 0.1, 0]], INITIAL_LEVEL_STATE, kind)).clipCount).toBe(0);
+  });
+
+  it('should flag averaged readings that peak metering would pass', () => {
+    const readings: [number, number][] = [[-5, 0], [-4, 50]];
+    expect(toLevelReading(feed(readings, INITIAL_LEVEL_STATE, 'peak')).isClipping).toBe(false);
+    expect(toLevelReading(feed(readings, INITIAL_LEVEL_STATE, 'average')).isClipping).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit tests for Resampler
+ * Checks that pitch and spectral centroid survive conversion to the analysis rate
+ */
+
+import { resample, resampleBuffer, DEFAULT_ANALYSIS_SAMPLE_RATE } from '../Resampler';
+import extractFeatures from '@/analysis/FeatureExtractor';
+import { AudioBuffer } from '@/analysis/types';
+
+const DURATION_SECONDS = 0.5;
+
+/**
+ * Voice-like harmonic tone, all partials below 4 kHz so an 8 kHz input can carry it
+ */
+function generateHarmonicTone(rate: number, f0 = 220): AudioBuffer {
+  const length = Math.round(rate * DURATION_SECONDS);
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const t = i / rate;
+    samples[i] =
+      0.4 * Math.sin(2 * Math.PI * f0 * t) +
+      0.2 * Math.sin(2 * Math.PI * 3 * f0 * t) +
+      0.1 * Math.sin(2 * Math.PI * 7 * f0 * t);
+  }
+  return {
+    samples,
+    sampleRate: rate,
+    channels: 1,
+    durationMs: (length / rate) * 1000,
+  };
+}
+
+function rms(samples: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+describe('Resampler', () => {
+  describe('resampleBuffer', () => {
+    const reference = extractFeatures(generateHarmonicTone(DEFAULT_ANALYSIS_SAMPLE_RATE));
+
+    it.each([8000, 22050, 44100, 48000])(
+      'should preserve pitch and centroid for %i Hz input',
+      (rate) => {
+        const converted = resampleBuffer(generateHarmonicTone(rate));
+
+        expect(converted.sampleRate).toBe(DEFAULT_ANALYSIS_SAMPLE_RATE);
+        expect(converted.durationMs).toBeCloseTo(DURATION_SECONDS * 1000, 0);
+
+        const features = extractFeatures(converted);
+        expect(features.pitchMean).toBeCloseTo(reference.pitchMean, 0);
+        expect(Math.abs(features.spectralCentroid - reference.spectralCentroid))
+          .toBeLessThan(reference.spectralCentroid * 0.02);
+        expect(features.rms).toBeCloseTo(reference.rms, 2);
+      }
+    );
+
+    it('should return the same buffer when already at the target rate', () => {
+      const buffer = generateHarmonicTone(DEFAULT_ANALYSIS_SAMPLE_RATE);
+      expect(resampleBuffer(buffer)).toBe(buffer);
+    });
+
+    it('should resample each interleaved channel independently', () => {
+      const frames = 4410;
+      const stereo = new Float32Array(frames * 2);
+      for (let i = 0; i < frames; i++) {
+        stereo[i * 2] = 0.5;
+        stereo[i * 2 + 1] = -0.25;
+      }
+
+      const converted = resampleBuffer({
+        samples: stereo,
+        sampleRate: 44100,
+        channels: 2,
+        durationMs: 100,
+      });
+
+      expect(converted.channels).toBe(2);
+      expect(converted.samples.length).toBe(1600 * 2);
+      // Away from the edges the DC level of each channel is untouched
+      expect(converted.samples[800 * 2]).toBeCloseTo(0.5, 4);
+      expect(converted.samples[800 * 2 + 1]).toBeCloseTo(-0.25, 4);
+    });
+  });
+
+  describe('resample', () => {
+    it('should remove content above the target Nyquist frequency', () => {
+      const rate = 44100;
+      const tone = new Float32Array(rate / 4);
+      for (let i = 0; i < tone.length; i++) {
+        tone[i] = 0.5 * Math.sin((2 * Math.PI * 10000 * i) / rate);
+      }
+
+      const converted = resample(tone, rate, 16000);
+      // Ignore filter edge effects
+      const body = converted.subarray(200, converted.length - 200);
+
+      expect(rms(body)).toBeLessThan(0.001);
+    });
+
+    it('should keep in-band tones at their original level', () => {
+      const rate = 48000;
+      const tone = new Float32Array(rate / 4);
+      for (let i = 0; i < tone.length; i++) {
+        tone[i] = 0.5 * Math.sin((2 * Math.PI * 1000 * i) / rate);
+      }
+
+      const converted = resample(tone, rate, 16000);
+      const body = converted.subarray(200, converted.length - 200);
+
+      expect(rms(body)).toBeCloseTo(0.5 / Math.SQRT2, 3);
+    });
+  });
+});
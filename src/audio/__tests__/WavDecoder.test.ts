@@ -0,0 +1,273 @@
+/**
+ * Unit tests for WavDecoder
+ * Builds WAV byte arrays by hand and checks chunk walking and sample decoding
+ */
+
+import {
+  decodeWav,
+  parseWav,
+  readWavChunks,
+  isWav,
+  WavDecodeError,
+  WAVE_FORMAT_PCM,
+  WAVE_FORMAT_IEEE_FLOAT,
+  WAVE_FORMAT_EXTENSIBLE,
+} from '../WavDecoder';
+import { base64ToFloat32 } from '../AudioUtils';
+
+interface TestChunk {
+  id: string;
+  payload: Uint8Array;
+  /** Override the size written in the chunk header */
+  declaredSize?: number;
+}
+
+function fourCC(id: string): number[] {
+  return Array.from(id).map(c => c.charCodeAt(0));
+}
+
+function buildRiff(chunks: TestChunk[]): Uint8Array {
+  const parts: number[] = [];
+  for (const chunk of chunks) {
+    const size = chunk.declaredSize ?? chunk.payload.length;
+    parts.push(...fourCC(chunk.id));
+    parts.push(size & 0xff, (size >> 8) & 0xff, (size >> 16) & 0xff, (size >>> 24) & 0xff);
+    parts.push(...Array.from(chunk.payload));
+    if (chunk.payload.length % 2 === 1) parts.push(0);
+  }
+  const riffSize = parts.length + 4;
+  return new Uint8Array([
+    ...fourCC('RIFF'),
+    riffSize & 0xff, (riffSize >> 8) & 0xff, (riffSize >> 16) & 0xff, (riffSize >>> 24) & 0xff,
+    ...fourCC('WAVE'),
+    ...parts,
+  ]);
+}
+
+function fmtPayload(
+  formatTag: number,
+  channels: number,
+  sampleRate: number,
+  bitsPerSample: number,
+  subFormat?: number
+): Uint8Array {
+  const blockAlign = channels * (bitsPerSample / 8);
+  const size = formatTag === WAVE_FORMAT_EXTENSIBLE ? 40 : 16;
+  const payload = new Uint8Array(size);
+  const view = new DataView(payload.buffer);
+  view.setUint16(0, formatTag, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * blockAlign, true);
+  view.setUint16(12, blockAlign, true);
+  view.setUint16(14, bitsPerSample, true);
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    view.setUint16(16, 22, true);
+    view.setUint16(18, bitsPerSample, true);
+    view.setUint32(20, 0x3, true);
+    view.setUint16(24, subFormat ?? WAVE_FORMAT_PCM, true);
+  }
+  return payload;
+}
+
+function int16Payload(values: number[]): Uint8Array {
+  const payload = new Uint8Array(values.length * 2);
+  const view = new DataView(payload.buffer);
+  values.forEach((v, i) => view.setInt16(i * 2, v, true));
+  return payload;
+}
+
+describe('WavDecoder', () => {
+  describe('readWavChunks', () => {
+    it('should skip pad bytes after odd-sized chunks', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'LIST', payload: new Uint8Array(5) },
+        { id: 'JUNK', payload: new Uint8Array(3) },
+        { id: 'data', payload: int16Payload([1, 2]) },
+      ]);
+
+      const chunks = readWavChunks(bytes);
+
+      expect(chunks.map(c => c.id)).toEqual(['fmt ', 'LIST', 'JUNK', 'data']);
+      expect(chunks[3].size).toBe(4);
+    });
+
+    it('should reject non-RIFF input', () => {
+      expect(() => readWavChunks(new Uint8Array(64))).toThrow(WavDecodeError);
+      expect(isWav(new Uint8Array(64))).toBe(false);
+    });
+  });
+
+  describe('parseWav', () => {
+    it('should decode 16-bit PCM and use the header sample rate', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 44100, 16) },
+        { id: 'data', payload: int16Payload([0, 16384, -32768, 32767]) },
+      ]);
+
+      const { buffer, format, truncated } = parseWav(bytes);
+
+      expect(format.sampleRate).toBe(44100);
+      expect(buffer.sampleRate).toBe(44100);
+      expect(buffer.channels).toBe(1);
+      expect(truncated).toBe(false);
+      expect(Array.from(buffer.samples)).toEqual([0, 0.5, -1, 32767 / 32768]);
+      expect(buffer.durationMs).toBeCloseTo((4 / 44100) * 1000, 9);
+    });
+
+    it('should decode 8-bit unsigned PCM', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 8000, 8) },
+        { id: 'data', payload: new Uint8Array([128, 192, 0]) },
+      ]);
+
+      expect(Array.from(decodeWav(bytes).samples)).toEqual([0, 0.5, -1]);
+    });
+
+    it('should decode 24-bit and 32-bit signed PCM', () => {
+      const pcm24 = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 24) },
+        { id: 'data', payload: new Uint8Array([0x00, 0x00, 0x40, 0x00, 0x00, 0xc0]) },
+      ]);
+      expect(Array.from(decodeWav(pcm24).samples)).toEqual([0.5, -0.5]);
+
+      const data32 = new Uint8Array(8);
+      new DataView(data32.buffer).setInt32(0, 0x40000000, true);
+      new DataView(data32.buffer).setInt32(4, -0x80000000, true);
+      const pcm32 = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 32) },
+        { id: 'data', payload: data32 },
+      ]);
+      expect(Array.from(decodeWav(pcm32).samples)).toEqual([0.5, -1]);
+    });
+
+    it('should decode 32-bit and 64-bit float', () => {
+      const data32 = new Uint8Array(new Float32Array([0.25, -0.75]).buffer);
+      const float32 = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_IEEE_FLOAT, 1, 16000, 32) },
+        { id: 'data', payload: data32 },
+      ]);
+      expect(Array.from(decodeWav(float32).samples)).toEqual([0.25, -0.75]);
+
+      const data64 = new Uint8Array(new Float64Array([0.125, -0.5]).buffer);
+      const float64 = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_IEEE_FLOAT, 1, 16000, 64) },
+        { id: 'data', payload: data64 },
+      ]);
+      expect(Array.from(decodeWav(float64).samples)).toEqual([0.125, -0.5]);
+    });
+
+    it('should resolve WAVE_FORMAT_EXTENSIBLE sub-format and keep channels interleaved', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_EXTENSIBLE, 2, 48000, 16, WAVE_FORMAT_PCM) },
+        { id: 'data', payload: int16Payload([16384, -16384, 8192, -8192]) },
+      ]);
+
+      const { buffer, format } = parseWav(bytes);
+
+      expect(format.encoding).toBe('pcm');
+      expect(format.channelMask).toBe(0x3);
+      expect(buffer.channels).toBe(2);
+      expect(Array.from(buffer.samples)).toEqual([0.5, -0.5, 0.25, -0.25]);
+      expect(buffer.durationMs).toBeCloseTo((2 / 48000) * 1000, 9);
+    });
+
+    it('should read a data chunk that follows LIST metadata', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'LIST', payload: new Uint8Array([...fourCC('INFO'), 1, 2, 3]) },
+        { id: 'data', payload: int16Payload([16384]) },
+      ]);
+
+      expect(Array.from(decodeWav(bytes).samples)).toEqual([0.5]);
+    });
+
+    it('should read what is available from a truncated data chunk', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'data', payload: int16Payload([16384, 16384, 16384]), declaredSize: 1000 },
+      ]);
+
+      const { buffer, truncated } = parseWav(bytes);
+
+      expect(truncated).toBe(true);
+      expect(buffer.samples.length).toBe(3);
+    });
+
+    it('should treat a streaming data size as running to end of file', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'data', payload: int16Payload([16384, -16384]), declaredSize: 0xffffffff },
+      ]);
+
+      expect(Array.from(decodeWav(bytes).samples)).toEqual([0.5, -0.5]);
+    });
+
+    it('should treat a zero data size with nothing after it as streaming', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'data', payload: int16Payload([16384, -16384]), declaredSize: 0 },
+      ]);
+
+      expect(Array.from(decodeWav(bytes).samples)).toEqual([0.5, -0.5]);
+    });
+
+    it('should keep an empty data chunk empty when metadata follows it', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'data', payload: new Uint8Array(0) },
+        { id: 'LIST', payload: new Uint8Array([...fourCC('INFO'), ...fourCC('INAM'), 2, 0, 0, 0, 65, 0]) },
+      ]);
+
+      const chunks = readWavChunks(bytes);
+
+      expect(chunks.map(c => c.id)).toEqual(['fmt ', 'data', 'LIST']);
+      expect(chunks[1].size).toBe(0);
+      expect(decodeWav(bytes).samples.length).toBe(0);
+    });
+
+    it('should throw typed errors for unsupported or malformed files', () => {
+      const muLaw = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(0x0007, 1, 8000, 8) },
+        { id: 'data', payload: new Uint8Array(4) },
+      ]);
+      const noFmt = buildRiff([{ id: 'data', payload: int16Payload([0]) }]);
+      const noData = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+      ]);
+
+      const codeOf = (bytes: Uint8Array) => {
+        try {
+          decodeWav(bytes);
+        } catch (error) {
+          return (error as WavDecodeError).code;
+        }
+        return null;
+      };
+
+      expect(codeOf(muLaw)).toBe('unsupported_encoding');
+      expect(codeOf(noFmt)).toBe('missing_fmt');
+      expect(codeOf(noData)).toBe('missing_data');
+    });
+  });
+
+  describe('base64ToFloat32', () => {
+    it('should decode WAV content through the chunk parser', () => {
+      const bytes = buildRiff([
+        { id: 'fmt ', payload: fmtPayload(WAVE_FORMAT_PCM, 1, 16000, 16) },
+        { id: 'LIST', payload: new Uint8Array(9) },
+        { id: 'data', payload: int16Payload([16384, -16384]) },
+      ]);
+      const base64 = btoa(String.fromCharCode(...Array.from(bytes)));
+
+      expect(Array.from(base64ToFloat32(`data:audio/wav;base64,${base64}`))).toEqual([0.5, -0.5]);
+    });
+
+    it('should treat headerless data as raw 16-bit PCM', () => {
+      const base64 = btoa(String.fromCharCode(...Array.from(int16Payload([16384, -32768]))));
+
+      expect(Array.from(base64ToFloat32(base64))).toEqual([0.5, -1]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for WavEncoder
+ * Round-trips buffers through the decoder
+ */
+
+import { encodeWav, WAV_INFO_TAGS } from '../WavEncoder';
+import { parseWav, readWavChunks } from '../WavDecoder';
+import { AudioBuffer } from '@/analysis/types';
+
+function makeBuffer(samples: number[], channels = 1, sampleRate = 16000): AudioBuffer {
+  return {
+    samples: new Float32Array(samples),
+    sampleRate,
+    channels,
+    durationMs: (samples.length / channels / sampleRate) * 1000,
+  };
+}
+
+describe('WavEncoder', () => {
+  it('should write a well-formed RIFF header', () => {
+    const bytes = encodeWav(makeBuffer([0, 0.5, -0.5]));
+    const view = new DataView(bytes.buffer);
+
+    expect(String.fromCharCode(...Array.from(bytes.subarray(0, 4)))).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(bytes.length - 8);
+    expect(String.fromCharCode(...Array.from(bytes.subarray(8, 12)))).toBe('WAVE');
+    expect(readWavChunks(bytes).map(c => c.id)).toEqual(['fmt ', 'data']);
+  });
+
+  it('should round-trip 16-bit PCM exactly', () => {
+    const values = [0, 0.5, -0.5, -1, 32767 / 32768, 1 / 32768];
+    const { buffer, format } = parseWav(encodeWav(makeBuffer(values, 1, 22050)));
+
+    expect(format.encoding).toBe('pcm');
+    expect(format.bitsPerSample).toBe(16);
+    expect(buffer.sampleRate).toBe(22050);
+    expect(Array.from(buffer.samples)).toEqual(values);
+  });
+
+  it('should clamp out-of-range samples in 16-bit output', () => {
+    const { buffer } = parseWav(encodeWav(makeBuffer([1.5, -1.5])));
+    expect(Array.from(buffer.samples)).toEqual([32767 / 32768, -1]);
+  });
+
+  it('should round-trip 32-bit float exactly, including stereo', () => {
+    const source = makeBuffer([0.1, -0.2, 0.3, -0.4, 1.25, -1.25], 2, 48000);
+    const { buffer, format } = parseWav(encodeWav(source, { format: 'float32' }));
+
+    expect(format.encoding).toBe('float');
+    expect(buffer.channels).toBe(2);
+    expect(buffer.durationMs).toBeCloseTo(source.durationMs, 9);
+    expect(Array.from(buffer.samples)).toEqual(Array.from(source.samples));
+  });
+
+  it('should write LIST/INFO metadata that the decoder reads back', () => {
+    const bytes = encodeWav(makeBuffer([0.25, -0.25]), {
+      info: {
+        [WAV_INFO_TAGS.software]: 'Sonic State',
+        [WAV_INFO_TAGS.analysisVersion]: '1.0.0',
+        [WAV_INFO_TAGS.comment]: 'odd',
+      },
+    });
+
+    const { info, buffer, chunks } = parseWav(bytes);
+
+    expect(chunks.map(c => c.id)).toEqual(['fmt ', 'LIST', 'data']);
+    expect(info).toEqual({ ISFT: 'Sonic State', IAVR: '1.0.0', ICMT: 'odd' });
+    expect(Array.from(buffer.samples)).toEqual([0.25, -0.25]);
+  });
+
+  it('should reject invalid INFO IDs', () => {
+    expect(() => encodeWav(makeBuffer([0]), { info: { TOOLONG: 'x' } })).toThrow();
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Batch analysis for the command line
+ * Argument parsing, per-file analysis rows and JSON/CSV formatting.
+ * No file system access here - the entry point (analyze.ts) does the I/O,
+ * so everything in this module runs under Jest as well as Node.
+ */
+
+import { analyzeAudio, AnalysisConfig, ANALYSIS_VERSION } from '@/analysis/AnalysisPipeline';
+import { AcousticFeatures, VoiceScores } from '@/analysis/types';
+import { FeatureExtractionOptions } from '@/analysis/FeatureExtractor';
+import { decodeWav } from '@/audio/WavDecoder';
+import { AudioPrepOptions } from '@/audio/AudioPrep';
+import { DownmixOptions } from '@/audio/ChannelMixer';
+import { PreprocessorConfig, PreprocessStage } from '@/audio/AudioPreprocessor';
+import { DenoiseConfig, DenoiseMethod } from '@/audio/Denoiser';
+import { PitchTrackerId, PitchTrackingConfig, listPitchTrackers } from '@/analysis/PitchTracking';
+
+export type OutputFormat = 'json' | 'csv';
+
+/**
+ * Partial analysis config, as given in a --config file or built from flags
+ * Each section is merged into the base config field by field.
+ */
+export interface AnalysisConfigOverrides {
+  readonly prep?: Partial<AudioPrepOptions>;
+  readonly preprocessing?: PreprocessorConfig;
+  readonly denoise?: Partial<DenoiseConfig>;
+  readonly features?: Partial<FeatureExtractionOptions>;
+}
+
+export interface CliOptions {
+  readonly inputs: readonly string[];
+  readonly format: OutputFormat;
+  /** Output file; null writes to stdout */
+  readonly output: string | null;
+  readonly recursive: boolean;
+  /** JSON file with a partial AnalysisConfig, applied before the other flags */
+  readonly configFile: string | null;
+  /** Config changes from individual flags */
+  readonly overrides: AnalysisConfigOverrides;
+  readonly help: boolean;
+}
+
+/**
+ * Error raised for invalid command-line arguments
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run analyze -- [options] <file.wav | directory>...
+
+Analyzes WAV files with the app's pipeline and prints one row per file.
+
+Options:
+  --format <json|csv>        Output format (default: csv)
+  --out <file>               Write to a file instead of stdout
+  -r, --recursive            Descend into subdirectories
+  --config <file.json>       Partial analysis config to start from
+  --sample-rate <hz>         Analysis sample rate (default: 16000)
+  --downmix <strategy>       average | best_snr | channel:<index>
+  --preprocess <stages>      none, or a comma list of dc_block[:pole],
+                             high_pass[:cutoffHz[:q]], pre_emphasis[:coefficient],
+                             normalize:<peak|rms>[:target]
+  --denoise <method>         none | spectral_subtraction | wiener
+  --all-frames               Use every frame, not just speech (no VAD gating)
+  --pitch-tracker <id>       yin | autocorrelation | mpm | cepstral | pyin (default: yin)
+  --pitch-fallback <id>      Retry low-confidence frames with this tracker, or none
+  -h, --help                 Show this help
+`;
+
+const DENOISE_METHODS: readonly DenoiseMethod[] = ['none', 'spectral_subtraction', 'wiener'];
+
+function parsePitchTracker(flag: string, value: string): PitchTrackerId {
+  if (!(listPitchTrackers() as string[]).includes(value)) {
+    throw new CliUsageError(`${flag}: unknown pitch tracker "${value}" (${listPitchTrackers().join(', ')})`);
+  }
+  return value as PitchTrackerId;
+}
+
+function parseNumber(flag: string, value: string): number {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number)) {
+    throw new CliUsageError(`${flag} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseDownmix(value: string): DownmixOptions {
+  if (value === 'average' || value === 'best_snr') {
+    return { strategy: value };
+  }
+  const match = /^channel:(\d+)$/.exec(value);
+  if (match) {
+    return { strategy: 'channel', channelIndex: Number(match[1]) };
+  }
+  throw new CliUsageError(`Unknown downmix "${value}" (average, best_snr or channel:<index>)`);
+}
+
+/**
+ * Parse one --preprocess stage, filling unspecified parameters from defaults
+ */
+function parseStage(spec: string): PreprocessStage {
+  const [type, ...params] = spec.split(':');
+  const number = (index: number, fallback: number): number =>
+    params[index] !== undefined ? parseNumber('--preprocess', params[index]) : fallback;
+
+  switch (type) {
+    case 'dc_block':
+      return { type, pole: number(0, 0.995) };
+    case 'high_pass':
+      return { type, cutoffHz: number(0, 60), q: number(1, Math.SQRT1_2) };
+    case 'pre_emphasis':
+      return { type, coefficient: number(0, 0.97) };
+    case 'normalize': {
+      const mode = params[0];
+      if (mode !== 'peak' && mode !== 'rms') {
+        throw new CliUsageError('normalize needs a mode: normalize:peak or normalize:rms');
+      }
+      return { type, mode, target: number(1, mode === 'peak' ? 0.9 : -20) };
+    }
+    default:
+      throw new CliUsageError(`Unknown preprocessing stage "${type}"`);
+  }
+}
+
+function withPitchOverride(
+  overrides: AnalysisConfigOverrides,
+  pitch: Partial<PitchTrackingConfig>
+): AnalysisConfigOverrides {
+  const features = overrides.features ?? {};
+  return { ...overrides, features: { ...features, pitch: { ...features.pitch, ...pitch } } };
+}
+
+/**
+ * Parse command-line arguments (without the node/script prefix)
+ */
+export function parseCliArgs(argv: readonly string[]): CliOptions {
+  const inputs: string[] = [];
+  let format: OutputFormat = 'csv';
+  let output: string | null = null;
+  let recursive = false;
+  let configFile: string | null = null;
+  let help = false;
+  let overrides: AnalysisConfigOverrides = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = (): string => {
+      if (i + 1 >= argv.length) {
+        throw new CliUsageError(`${arg} expects a value`);
+      }
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        help = true;
+        break;
+      case '-r':
+      case '--recursive':
+        recursive = true;
+        break;
+      case '--format': {
+        const value = next();
+        if (value !== 'json' && value !== 'csv') {
+          throw new CliUsageError(`Unknown format "${value}" (json or csv)`);
+        }
+        format = value;
+        break;
+      }
+      case '--out':
+        output = next();
+        break;
+      case '--config':
+        configFile = next();
+        break;
+      case '--sample-rate':
+        overrides = {
+          ...overrides,
+          prep: { ...overrides.prep, sampleRate: parseNumber(arg, next()) },
+        };
+        break;
+      case '--downmix':
+        overrides = {
+          ...overrides,
+          prep: { ...overrides.prep, downmix: parseDownmix(next()) },
+        };
+        break;
+      case '--preprocess': {
+        const value = next();
+        const stages = value === 'none' ? [] : value.split(',').map(parseStage);
+        overrides = { ...overrides, preprocessing: { stages } };
+        break;
+      }
+      case '--denoise': {
+        const method = next() as DenoiseMethod;
+        if (!DENOISE_METHODS.includes(method)) {
+          throw new CliUsageError(`Unknown denoise method "${method}"`);
+        }
+        overrides = { ...overrides, denoise: { ...overrides.denoise, method } };
+        break;
+      }
+      case '--all-frames':
+        overrides = { ...overrides, features: { ...overrides.features, speechOnly: false } };
+        break;
+      case '--pitch-tracker': {
+        const tracker = parsePitchTracker(arg, next());
+        overrides = withPitchOverride(overrides, { tracker });
+        break;
+      }
+      case '--pitch-fallback': {
+        const value = next();
+        const fallback = value === 'none' ? null : parsePitchTracker(arg, value);
+        overrides = withPitchOverride(overrides, { fallback });
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) {
+          throw new CliUsageError(`Unknown option "${arg}"`);
+        }
+        inputs.push(arg);
+    }
+  }
+
+  if (!help && inputs.length === 0) {
+    throw new CliUsageError('No input files or directories given');
+  }
+
+  return { inputs, format, output, recursive, configFile, overrides, help };
+}
+
+/**
+ * Apply overrides on top of a full config, field by field within each section
+ * (preprocessing stages are replaced as a whole list)
+ */
+export function mergeAnalysisConfig(
+  base: AnalysisConfig,
+  partial: AnalysisConfigOverrides
+): AnalysisConfig {
+  return {
+    prep: { ...base.prep, ...partial.prep },
+    preprocessing: { ...base.preprocessing, ...partial.preprocessing },
+    denoise: { ...base.denoise, ...partial.denoise },
+    features: {
+      ...base.features,
+      ...partial.features,
+      vad: { ...base.features.vad, ...partial.features?.vad },
+      pitch: { ...base.features.pitch, ...partial.features?.pitch },
+      contour: { ...base.features.contour, ...partial.features?.contour },
+    },
+  };
+}
+
+/**
+ * Analysis of one file; failures become rows with an error and no results
+ */
+export interface BatchRow {
+  readonly file: string;
+  readonly analysisVersion: string;
+  readonly confidence: 'high' | 'medium' | 'low' | null;
+  readonly insightId: string | null;
+  readonly scores: VoiceScores | null;
+  readonly features: AcousticFeatures | null;
+  readonly error: string | null;
+}
+
+/**
+ * Decode and analyze one WAV file
+ */
+export function analyzeWavBytes(file: string, bytes: Uint8Array, config: AnalysisConfig): BatchRow {
+  try {
+    const { result } = analyzeAudio(decodeWav(bytes), config);
+    return {
+      file,
+      analysisVersion: result.analysisVersion,
+      confidence: result.confidence,
+      insightId: result.insightId,
+      scores: result.scores,
+      features: result.features,
+      error: null,
+    };
+  } catch (error) {
+    return {
+      file,
+      analysisVersion: ANALYSIS_VERSION,
+      confidence: null,
+      insightId: null,
+      scores: null,
+      features: null,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+const SCORE_COLUMNS: readonly (keyof VoiceScores)[] = ['energy', 'tension', 'clarity'];
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV, one header row plus one row per file
+ * Feature columns follow the AcousticFeatures field order.
+ */
+export function rowsToCsv(rows: readonly BatchRow[]): string {
+  const featureColumns = Object.keys(
+    rows.find(row => row.features)?.features ?? {}
+  ) as (keyof AcousticFeatures)[];
+
+  const header = [
+    'file',
+    'analysisVersion',
+    'confidence',
+    'insightId',
+    ...SCORE_COLUMNS,
+    ...featureColumns,
+    'error',
+  ];
+
+  const lines = rows.map(row =>
+    [
+      row.file,
+      row.analysisVersion,
+      row.confidence,
+      row.insightId,
+      ...SCORE_COLUMNS.map(key => row.scores?.[key]),
+      ...featureColumns.map(key => row.features?.[key]),
+      row.error,
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+
+  return [header.join(','), ...lines].join('\n') + '\n';
+}
+
+/**
+ * Format rows as JSON, together with the config that produced them
+ */
+export function rowsToJson(rows: readonly BatchRow[], config: AnalysisConfig): string {
+  return JSON.stringify({ analysisVersion: ANALYSIS_VERSION, config, rows }, null, 2) + '\n';
+}
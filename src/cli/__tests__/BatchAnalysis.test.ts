@@ -0,0 +1,144 @@
+/**
+ * Unit tests for BatchAnalysis
+ * Argument parsing, config merging and JSON/CSV row output
+ */
+
+import {
+  parseCliArgs,
+  mergeAnalysisConfig,
+  analyzeWavBytes,
+  rowsToCsv,
+  rowsToJson,
+  CliUsageError,
+} from '../BatchAnalysis';
+import { DEFAULT_ANALYSIS_CONFIG, ANALYSIS_VERSION } from '@/analysis/AnalysisPipeline';
+import { encodeWav } from '@/audio/WavEncoder';
+
+function toneWav(seconds: number): Uint8Array {
+  const sampleRate = 16000;
+  const samples = new Float32Array(sampleRate * seconds);
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = 0.2 * Math.sin((2 * Math.PI * 180 * i) / sampleRate);
+  }
+  return encodeWav({ samples, sampleRate, channels: 1, durationMs: seconds * 1000 });
+}
+
+describe('BatchAnalysis', () => {
+  describe('parseCliArgs', () => {
+    it('should default to CSV on stdout', () => {
+      const options = parseCliArgs(['clips/']);
+
+      expect(options.inputs).toEqual(['clips/']);
+      expect(options.format).toBe('csv');
+      expect(options.output).toBeNull();
+      expect(options.recursive).toBe(false);
+      expect(options.overrides).toEqual({});
+    });
+
+    it('should parse pipeline flags into config overrides', () => {
+      const options = parseCliArgs([
+        '--sample-rate', '22050',
+        '--downmix', 'channel:1',
+        '--preprocess', 'dc_block,high_pass:80,normalize:rms:-18',
+        '--denoise', 'wiener',
+        '--all-frames',
+        'a.wav',
+      ]);
+
+      expect(options.overrides.prep).toEqual({
+        sampleRate: 22050,
+        downmix: { strategy: 'channel', channelIndex: 1 },
+      });
+      expect(options.overrides.preprocessing?.stages).toEqual([
+        { type: 'dc_block', pole: 0.995 },
+        { type: 'high_pass', cutoffHz: 80, q: Math.SQRT1_2 },
+        { type: 'normalize', mode: 'rms', target: -18 },
+      ]);
+      expect(options.overrides.denoise).toEqual({ method: 'wiener' });
+      expect(options.overrides.features).toEqual({ speechOnly: false });
+    });
+
+    it('should parse pitch tracker flags', () => {
+      const options = parseCliArgs(['--pitch-tracker', 'mpm', '--pitch-fallback', 'cepstral', 'a.wav']);
+
+      expect(options.overrides.features).toEqual({ pitch: { tracker: 'mpm', fallback: 'cepstral' } });
+      expect(parseCliArgs(['--pitch-fallback', 'none', 'a.wav']).overrides.features?.pitch).toEqual({
+        fallback: null,
+      });
+      expect(() => parseCliArgs(['--pitch-tracker', 'crepe', 'a.wav'])).toThrow('unknown pitch tracker');
+    });
+
+    it('should accept an empty preprocessing chain', () => {
+      expect(parseCliArgs(['--preprocess', 'none', 'a.wav']).overrides.preprocessing).toEqual({
+        stages: [],
+      });
+    });
+
+    it('should reject bad usage', () => {
+      expect(() => parseCliArgs([])).toThrow(CliUsageError);
+      expect(() => parseCliArgs(['--format', 'xml', 'a.wav'])).toThrow('Unknown format');
+      expect(() => parseCliArgs(['--sample-rate', 'fast', 'a.wav'])).toThrow('expects a number');
+      expect(() => parseCliArgs(['--preprocess', 'reverb', 'a.wav'])).toThrow('Unknown preprocessing');
+      expect(() => parseCliArgs(['--out'])).toThrow('expects a value');
+      expect(() => parseCliArgs(['--verbose', 'a.wav'])).toThrow('Unknown option');
+    });
+
+    it('should not require inputs for --help', () => {
+      expect(parseCliArgs(['--help']).help).toBe(true);
+    });
+  });
+
+  describe('mergeAnalysisConfig', () => {
+    it('should merge field by field within sections', () => {
+      const fromFile = mergeAnalysisConfig(DEFAULT_ANALYSIS_CONFIG, {
+        prep: { downmix: { strategy: 'best_snr' } },
+        features: { vad: { hangoverFrames: 2 } },
+      });
+      const config = mergeAnalysisConfig(fromFile, { prep: { sampleRate: 8000 } });
+
+      expect(config.prep).toEqual({ downmix: { strategy: 'best_snr' }, sampleRate: 8000 });
+      expect(config.features.speechOnly).toBe(true);
+      expect(config.features.vad).toEqual({ hangoverFrames: 2 });
+      expect(config.denoise).toEqual(DEFAULT_ANALYSIS_CONFIG.denoise);
+    });
+  });
+
+  describe('rows', () => {
+    const good = analyzeWavBytes('good.wav', toneWav(4), DEFAULT_ANALYSIS_CONFIG);
+    const bad = analyzeWavBytes('bad, "old".wav', new Uint8Array(16), DEFAULT_ANALYSIS_CONFIG);
+
+    it('should carry results for a decodable file', () => {
+      expect(good.error).toBeNull();
+      expect(good.analysisVersion).toBe(ANALYSIS_VERSION);
+      expect(good.insightId).toEqual(expect.any(String));
+      expect(good.features?.durationSeconds).toBeCloseTo(4, 3);
+    });
+
+    it('should turn failures into error rows', () => {
+      expect(bad.error).toMatch(/RIFF/);
+      expect(bad.features).toBeNull();
+      expect(bad.scores).toBeNull();
+    });
+
+    it('should format CSV with one column per feature and quoted cells', () => {
+      const lines = rowsToCsv([good, bad]).trim().split('\n');
+      const header = lines[0].split(',');
+
+      expect(header.slice(0, 7)).toEqual([
+        'file', 'analysisVersion', 'confidence', 'insightId', 'energy', 'tension', 'clarity',
+      ]);
+      expect(header).toContain('snrDb');
+      expect(header[header.length - 1]).toBe('error');
+      expect(lines[1].split(',')).toHaveLength(header.length);
+      expect(lines[2].startsWith('"bad, ""old"".wav",')).toBe(true);
+    });
+
+    it('should format JSON with the config that produced the rows', () => {
+      const parsed = JSON.parse(rowsToJson([good], DEFAULT_ANALYSIS_CONFIG));
+
+      expect(parsed.analysisVersion).toBe(ANALYSIS_VERSION);
+      expect(parsed.config).toEqual(DEFAULT_ANALYSIS_CONFIG);
+      expect(parsed.rows[0].scores).toEqual(good.scores);
+    });
+  });
+});
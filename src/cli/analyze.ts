@@ -0,0 +1,94 @@
+/**
+ * Command-line entry point for batch analysis
+ * Node only - reads WAV files from disk and writes JSON or CSV rows.
+ * Run with: npm run analyze -- [options] <file.wav | directory>...
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_ANALYSIS_CONFIG } from '@/analysis/AnalysisPipeline';
+import {
+  parseCliArgs,
+  mergeAnalysisConfig,
+  analyzeWavBytes,
+  rowsToCsv,
+  rowsToJson,
+  CliUsageError,
+  USAGE,
+  AnalysisConfigOverrides,
+  BatchRow,
+} from './BatchAnalysis';
+
+/**
+ * Expand inputs into a sorted list of .wav files
+ */
+function collectWavFiles(inputs: readonly string[], recursive: boolean): string[] {
+  const files: string[] = [];
+
+  const visit = (target: string, isTopLevel: boolean): void => {
+    const stat = fs.statSync(target);
+    if (stat.isDirectory()) {
+      if (!isTopLevel && !recursive) return;
+      for (const entry of fs.readdirSync(target).sort()) {
+        visit(path.join(target, entry), false);
+      }
+    } else if (isTopLevel || /\.wav$/i.test(target)) {
+      files.push(target);
+    }
+  };
+
+  for (const input of inputs) {
+    if (!fs.existsSync(input)) {
+      throw new CliUsageError(`No such file or directory: ${input}`);
+    }
+    visit(input, true);
+  }
+  return files;
+}
+
+function main(argv: readonly string[]): number {
+  const options = parseCliArgs(argv);
+  if (options.help) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  const fileConfig: AnalysisConfigOverrides = options.configFile
+    ? JSON.parse(fs.readFileSync(options.configFile, 'utf8'))
+    : {};
+  const config = mergeAnalysisConfig(
+    mergeAnalysisConfig(DEFAULT_ANALYSIS_CONFIG, fileConfig),
+    options.overrides
+  );
+
+  const files = collectWavFiles(options.inputs, options.recursive);
+  const rows: BatchRow[] = [];
+  files.forEach((file, index) => {
+    process.stderr.write(`[${index + 1}/${files.length}] ${file}\n`);
+    rows.push(analyzeWavBytes(file, new Uint8Array(fs.readFileSync(file)), config));
+  });
+
+  const text = options.format === 'json' ? rowsToJson(rows, config) : rowsToCsv(rows);
+  if (options.output) {
+    fs.writeFileSync(options.output, text);
+  } else {
+    process.stdout.write(text);
+  }
+
+  const failed = rows.filter(row => row.error !== null);
+  for (const row of failed) {
+    process.stderr.write(`Failed: ${row.file}: ${row.error}\n`);
+  }
+  return failed.length > 0 ? 1 : 0;
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  if (error instanceof CliUsageError) {
+    process.stderr.write(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    throw error;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Benchmark for the YIN difference function
+ * Node only - times the direct O(N * lags) reference against the FFT
+ * version on a 30 s synthetic voice and checks both give the same values.
+ * Run with: npm run bench:pitch
+ */
+
+import { yinDifference, yinDifferenceDirect } from '@/analysis/PitchDetector';
+import { synthesizeVoice } from '@/analysis/SyntheticVoice';
+
+const FRAME_SIZE = 1024;
+const HOP_SIZE = 512;
+const SAMPLE_RATE = 16000;
+/** Lags YIN searches at 16 kHz with its 50 Hz floor, plus one for interpolation */
+const LAG_COUNT = Math.ceil(SAMPLE_RATE / 50) + 1;
+/** Largest allowed difference, relative to the frame's energy */
+const EQUIVALENCE_TOLERANCE = 1e-9;
+
+type DifferenceFunction = (frame: Float32Array, frameSize: number, lagCount: number) => Float64Array;
+
+function time(frames: readonly Float32Array[], difference: DifferenceFunction, lagCount: number): number {
+  // Warm up the JIT and the scratch buffers
+  for (const frame of frames.slice(0, 20)) difference(frame, FRAME_SIZE, lagCount);
+
+  const start = performance.now();
+  for (const frame of frames) difference(frame, FRAME_SIZE, lagCount);
+  return performance.now() - start;
+}
+
+function main(): number {
+  const buffer = synthesizeVoice({
+    durationSeconds: 30,
+    f0Contour: [
+      { timeSeconds: 0, hz: 110 },
+      { timeSeconds: 15, hz: 180 },
+      { timeSeconds: 30, hz: 120 },
+    ],
+    jitter: 0.01,
+    shimmer: 0.05,
+    aspirationNoise: 0.2,
+    backgroundNoiseDb: -50,
+  });
+
+  const frames: Float32Array[] = [];
+  for (let start = 0; start + FRAME_SIZE <= buffer.samples.length; start += HOP_SIZE) {
+    frames.push(buffer.samples.subarray(start, start + FRAME_SIZE));
+  }
+
+  let worst = 0;
+  for (const frame of frames) {
+    const direct = yinDifferenceDirect(frame, FRAME_SIZE, LAG_COUNT);
+    const viaFft = yinDifference(frame, FRAME_SIZE, LAG_COUNT);
+    const energy = 2 * frame.reduce((sum, s) => sum + s * s, 0) || 1;
+    for (let tau = 0; tau < direct.length; tau++) {
+      worst = Math.max(worst, Math.abs(direct[tau] - viaFft[tau]) / energy);
+    }
+  }
+
+  const allLags = time(frames, yinDifferenceDirect, FRAME_SIZE);
+  const directLimited = time(frames, yinDifferenceDirect, LAG_COUNT);
+  const fftLimited = time(frames, yinDifference, LAG_COUNT);
+
+  const row = (label: string, ms: number) =>
+    `  ${label.padEnd(26)}${ms.toFixed(1).padStart(9)} ms  ${(allLags / ms).toFixed(1).padStart(6)}x\n`;
+  process.stdout.write(
+    `YIN difference function, ${frames.length} frames of ${FRAME_SIZE} samples (30 s at ${SAMPLE_RATE} Hz)\n` +
+      row('direct, all lags (before)', allLags) +
+      row(`direct, ${LAG_COUNT} lags`, directLimited) +
+      row(`FFT, ${LAG_COUNT} lags`, fftLimited) +
+      `  max |difference| / energy ${worst.toExponential(2)} (tolerance ${EQUIVALENCE_TOLERANCE})\n`
+  );
+
+  if (worst > EQUIVALENCE_TOLERANCE) {
+    process.stderr.write('FFT difference function does not match the direct one\n');
+    return 1;
+  }
+  if (fftLimited >= directLimited) {
+    process.stderr.write('FFT difference function is not faster than the direct one\n');
+    return 1;
+  }
+  return 0;
+}
+
+process.exitCode = main();
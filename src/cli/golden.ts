@@ -0,0 +1,37 @@
+/**
+ * Command-line entry point for the golden regression corpus
+ * Node only - compares the current pipeline with the stored golden file,
+ * or rewrites it with --update.
+ * Run with: npm run golden [-- --update]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { GOLDEN_CORPUS } from '@/regression/GoldenCorpus';
+import { runGoldenCorpus, compareWithGolden, formatDriftReport, GoldenFile } from '@/regression/GoldenHarness';
+
+const GOLDEN_PATH = path.join(__dirname, '..', 'regression', 'golden', 'golden-corpus.json');
+
+function main(argv: readonly string[]): number {
+  const update = argv.includes('--update');
+  const unknown = argv.filter(arg => arg !== '--update');
+  if (unknown.length > 0) {
+    process.stderr.write(`Unknown arguments: ${unknown.join(' ')}\nUsage: npm run golden [-- --update]\n`);
+    return 2;
+  }
+
+  const current = runGoldenCorpus(GOLDEN_CORPUS);
+
+  if (update) {
+    fs.writeFileSync(GOLDEN_PATH, JSON.stringify(current, null, 2) + '\n');
+    process.stdout.write(`Wrote ${current.records.length} records to ${GOLDEN_PATH}\n`);
+    return 0;
+  }
+
+  const golden: GoldenFile = JSON.parse(fs.readFileSync(GOLDEN_PATH, 'utf8'));
+  const drifts = compareWithGolden(current, golden);
+  process.stdout.write(formatDriftReport(drifts));
+  return drifts.length > 0 ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,104 @@
+/**
+ * InputLevelMeter component
+ * Live dBFS bar with peak-hold marker and clip / too-quiet warnings
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { LevelReading } from '@/audio/LevelMeter';
+
+interface InputLevelMeterProps {
+  reading: LevelReading | null;
+}
+
+const getLevelColor = (reading: LevelReading): string => {
+  if (reading.isClipping) return '#EF4444'; // Red (clipping)
+  if (reading.isTooQuiet) return '#6B7280'; // Gray (too quiet)
+  if (reading.levelFraction > 0.85) return '#FBBF24'; // Yellow (hot)
+  return '#4ADE80'; // Green (good)
+};
+
+const getStatusText = (reading: LevelReading): string => {
+  if (reading.isClipping) return 'Too loud — move back from the microphone';
+  if (reading.isTooQuiet) return 'Too quiet — speak up or move closer';
+  return 'Good level';
+};
+
+const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ reading }) => {
+  if (!reading) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.barBackground} />
+        <Text style={styles.statusText}>Waiting for input…</Text>
+      </View>
+    );
+  }
+
+  const color = getLevelColor(reading);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.barBackground}>
+        <View
+          style={[
+            styles.barFill,
+            {
+              width: `${reading.levelFraction * 100}%`,
+              backgroundColor: color,
+            },
+          ]}
+        />
+        <View style={[styles.peakMarker, { left: `${reading.peakFraction * 100}%` }]} />
+      </View>
+      <View style={styles.labelRow}>
+        <Text style={[styles.statusText, { color }]}>{getStatusText(reading)}</Text>
+        <Text style={styles.dbText}>{Math.round(reading.levelDb)} dBFS</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    marginTop: 24,
+  },
+  barBackground: {
+    height: 10,
+    backgroundColor: '#374151',
+    borderRadius: 5,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 5,
+  },
+  peakMarker: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    width: 2,
+    marginLeft: -1,
+    backgroundColor: '#FFFFFF',
+  },
+  labelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  statusText: {
+    fontSize: 13,
+    color: '#9CA3AF',
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  dbText: {
+    fontSize: 12,
+    color: '#6B7280',
+    fontVariant: ['tabular-nums'],
+    marginTop: 8,
+  },
+});
+
+export default InputLevelMeter;
@@ -9,6 +9,7 @@ import { createStackNavigator } from '@react-navigation/stack';
 
 import HomeScreen from '@/screens/HomeScreen';
 import RecordingScreen from '@/screens/RecordingScreen';
+import AnalyzeFileScreen from '@/screens/AnalyzeFileScreen';
 import ProcessingScreen from '@/screens/ProcessingScreen';
 import ResultsScreen from '@/screens/ResultsScreen';
 import PrivacyScreen from '@/screens/PrivacyScreen';
@@ -19,6 +20,7 @@ import { AnalysisResult } from '@/analysis/types';
 export type RootStackParamList = {
   Home: undefined;
   Recording: undefined;
+  AnalyzeFile: undefined;
   Processing: undefined;
   Results: { result: AnalysisResult };
   Privacy: undefined;
@@ -40,6 +42,7 @@ const AppNavigator: React.FC = () => {
       >
         <Stack.Screen name="Home" component={HomeScreen} />
         <Stack.Screen name="Recording" component={RecordingScreen} />
+        <Stack.Screen name="AnalyzeFile" component={AnalyzeFileScreen} />
         <Stack.Screen name="Processing" component={ProcessingScreen} />
         <Stack.Screen name="Results" component={ResultsScreen} />
         <Stack.Screen name="Privacy" component={PrivacyScreen} />
@@ -0,0 +1,260 @@
+/**
+ * Golden regression harness
+ * Runs the corpus through the full pipeline and compares features, scores,
+ * confidence and insight ids with the stored golden file. Numeric fields
+ * may drift within a per-field tolerance; everything else must match.
+ */
+
+import { analyzeAudio, AnalysisConfig, DEFAULT_ANALYSIS_CONFIG, ANALYSIS_VERSION } from '@/analysis/AnalysisPipeline';
+import { AcousticFeatures, VoiceScores } from '@/analysis/types';
+import { decodeWav } from '@/audio/WavDecoder';
+import { GoldenCase, renderGoldenCase } from './GoldenCorpus';
+
+/**
+ * Stored outputs for one corpus case
+ */
+export interface GoldenRecord {
+  readonly id: string;
+  readonly insightId: string;
+  readonly confidence: 'high' | 'medium' | 'low';
+  readonly scores: VoiceScores;
+  readonly features: AcousticFeatures;
+}
+
+export interface GoldenFile {
+  /** Analysis version the records were produced with (informational) */
+  readonly analysisVersion: string;
+  readonly records: readonly GoldenRecord[];
+}
+
+/**
+ * Allowed absolute difference per numeric field, keyed by path
+ * ('scores.tension', 'features.rms'). Unlisted numeric fields use
+ * DEFAULT_TOLERANCE; strings and booleans always match exactly.
+ */
+export type GoldenTolerances = Readonly<Record<string, number>>;
+
+const DEFAULT_TOLERANCE = 1e-6;
+
+export const DEFAULT_GOLDEN_TOLERANCES: GoldenTolerances = {
+  // Scores are rounded integers; allow a rounding flip
+  'scores.energy': 1,
+  'scores.tension': 1,
+  'scores.clarity': 1,
+  'features.rms': 1e-3,
+  'features.pitchMean': 0.5,
+  'features.pitchVariance': 0.005,
+  'features.correctedPitchFrames': 1,
+  'features.spectralCentroid': 5,
+  'features.spectralCentroidCv': 0.005,
+  'features.spectralBandwidth': 10,
+  'features.spectralRolloff': 20,
+  'features.spectralFlatness': 0.002,
+  'features.spectralEntropy': 0.002,
+  'features.spectralSlope': 0.1,
+  'features.spectralFlux': 0.005,
+  'features.alphaRatio': 0.1,
+  'features.hammarbergIndex': 0.2,
+  'features.zeroCrossingRate': 0.002,
+  'features.voicedRatio': 0.01,
+  'features.jitterProxy': 0.002,
+  'features.jitterLocal': 0.0005,
+  'features.jitterLocalAbsolute': 5e-6,
+  'features.jitterRap': 0.0005,
+  'features.jitterPpq5': 0.0005,
+  'features.jitterDdp': 0.0015,
+  'features.shimmerProxy': 0.002,
+  'features.shimmerLocal': 0.002,
+  'features.shimmerDb': 0.02,
+  'features.shimmerApq3': 0.002,
+  'features.shimmerApq5': 0.002,
+  'features.shimmerApq11': 0.002,
+  'features.shimmerDda': 0.006,
+  'features.hnrDb': 0.2,
+  'features.hnrP10Db': 0.3,
+  'features.hnrMedianDb': 0.3,
+  'features.hnrP90Db': 0.3,
+  'features.cppDb': 0.3,
+  'features.cppsDb': 0.3,
+  'features.f1Mean': 10,
+  'features.f1Std': 10,
+  'features.f1Bandwidth': 10,
+  'features.f2Mean': 15,
+  'features.f2Std': 15,
+  'features.f2Bandwidth': 15,
+  'features.f3Mean': 25,
+  'features.f3Std': 25,
+  'features.f3Bandwidth': 25,
+  'features.durationSeconds': 1e-3,
+  'features.speechDurationSeconds': 0.05,
+  'features.noiseFloorDb': 0.5,
+  'features.snrDb': 0.5,
+  'features.clippedRunCount': 0,
+  'features.distortedFrameRatio': 0.01,
+};
+
+/**
+ * One field (or whole case) that no longer matches the golden file
+ */
+export interface GoldenDrift {
+  readonly caseId: string;
+  /** Field path, or null when the whole case is new or missing */
+  readonly field: string | null;
+  /** Golden value; undefined if the golden file lacks it */
+  readonly expected: unknown;
+  /** Current value; undefined if the current run lacks it */
+  readonly actual: unknown;
+  /** Tolerance applied (numeric fields only) */
+  readonly tolerance: number | null;
+}
+
+/**
+ * Analyze one case through the decode → pipeline path
+ */
+export function runGoldenCase(
+  goldenCase: GoldenCase,
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): GoldenRecord {
+  const { result } = analyzeAudio(decodeWav(renderGoldenCase(goldenCase)), config);
+  return {
+    id: goldenCase.id,
+    insightId: result.insightId,
+    confidence: result.confidence,
+    scores: result.scores,
+    features: result.features,
+  };
+}
+
+/**
+ * Analyze the whole corpus into a golden file
+ */
+export function runGoldenCorpus(
+  corpus: readonly GoldenCase[],
+  config: AnalysisConfig = DEFAULT_ANALYSIS_CONFIG
+): GoldenFile {
+  return {
+    analysisVersion: ANALYSIS_VERSION,
+    records: corpus.map(goldenCase => runGoldenCase(goldenCase, config)),
+  };
+}
+
+/**
+ * Record fields as path → value, in a stable order
+ */
+function flattenRecord(record: GoldenRecord): Map<string, unknown> {
+  const fields = new Map<string, unknown>([
+    ['insightId', record.insightId],
+    ['confidence', record.confidence],
+  ]);
+  for (const [key, value] of Object.entries(record.scores)) {
+    fields.set(`scores.${key}`, value);
+  }
+  for (const [key, value] of Object.entries(record.features)) {
+    fields.set(`features.${key}`, value);
+  }
+  return fields;
+}
+
+function compareRecord(
+  actual: GoldenRecord,
+  expected: GoldenRecord,
+  tolerances: GoldenTolerances
+): GoldenDrift[] {
+  const actualFields = flattenRecord(actual);
+  const expectedFields = flattenRecord(expected);
+  const paths = [...actualFields.keys(), ...[...expectedFields.keys()].filter(p => !actualFields.has(p))];
+  const drifts: GoldenDrift[] = [];
+
+  for (const field of paths) {
+    const a = actualFields.get(field);
+    const e = expectedFields.get(field);
+
+    if (typeof a === 'number' && typeof e === 'number') {
+      const tolerance = tolerances[field] ?? DEFAULT_TOLERANCE;
+      if (!(Math.abs(a - e) <= tolerance)) {
+        drifts.push({ caseId: actual.id, field, expected: e, actual: a, tolerance });
+      }
+    } else if (a !== e) {
+      drifts.push({ caseId: actual.id, field, expected: e, actual: a, tolerance: null });
+    }
+  }
+  return drifts;
+}
+
+/**
+ * Compare a run with the golden file; an empty list means no drift
+ */
+export function compareWithGolden(
+  actual: GoldenFile,
+  golden: GoldenFile,
+  tolerances: GoldenTolerances = DEFAULT_GOLDEN_TOLERANCES
+): GoldenDrift[] {
+  const goldenById = new Map(golden.records.map(record => [record.id, record]));
+  const actualIds = new Set(actual.records.map(record => record.id));
+  const drifts: GoldenDrift[] = [];
+
+  for (const record of actual.records) {
+    const expected = goldenById.get(record.id);
+    if (expected) {
+      drifts.push(...compareRecord(record, expected, tolerances));
+    } else {
+      drifts.push({ caseId: record.id, field: null, expected: undefined, actual: record, tolerance: null });
+    }
+  }
+  for (const record of golden.records) {
+    if (!actualIds.has(record.id)) {
+      drifts.push({ caseId: record.id, field: null, expected: record, actual: undefined, tolerance: null });
+    }
+  }
+  return drifts;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+  }
+  return JSON.stringify(value);
+}
+
+function formatFieldDrift(drift: GoldenDrift, width: number): string {
+  const change = `${formatValue(drift.expected)} → ${formatValue(drift.actual)}`;
+  let detail = '';
+  if (typeof drift.expected === 'number' && typeof drift.actual === 'number') {
+    const delta = drift.actual - drift.expected;
+    detail = `  (Δ ${delta >= 0 ? '+' : ''}${formatValue(delta)}, tolerance ±${formatValue(drift.tolerance)})`;
+  }
+  return `  ${(drift.field ?? '').padEnd(width)}  ${change}${detail}`;
+}
+
+/**
+ * Human-readable report, grouped by case
+ */
+export function formatDriftReport(drifts: readonly GoldenDrift[]): string {
+  if (drifts.length === 0) {
+    return 'Golden corpus: no drift.\n';
+  }
+
+  const caseIds = [...new Set(drifts.map(drift => drift.caseId))];
+  const lines = [`Golden corpus drift: ${drifts.length} difference(s) in ${caseIds.length} case(s)`, ''];
+
+  for (const caseId of caseIds) {
+    const caseDrifts = drifts.filter(drift => drift.caseId === caseId);
+    const whole = caseDrifts.find(drift => drift.field === null);
+    if (whole) {
+      lines.push(
+        whole.expected === undefined
+          ? `${caseId}: new case, not in the golden file`
+          : `${caseId}: in the golden file but no longer in the corpus`
+      );
+      continue;
+    }
+
+    const width = Math.max(...caseDrifts.map(drift => (drift.field ?? '').length));
+    lines.push(caseId);
+    lines.push(...caseDrifts.map(drift => formatFieldDrift(drift, width)));
+  }
+
+  lines.push('', 'If the change is intended, run `npm run golden -- --update` and commit the new golden file.');
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for GoldenHarness
+ * The corpus must match the stored golden file; comparison and report
+ * behavior are checked on hand-made records
+ */
+
+import {
+  runGoldenCorpus,
+  compareWithGolden,
+  formatDriftReport,
+  GoldenFile,
+  GoldenRecord,
+} from '../GoldenHarness';
+import { GOLDEN_CORPUS } from '../GoldenCorpus';
+import goldenJson from '../golden/golden-corpus.json';
+
+const golden = goldenJson as GoldenFile;
+
+function makeRecord(overrides: Partial<GoldenRecord> = {}): GoldenRecord {
+  return {
+    id: 'case',
+    insightId: 'balanced',
+    confidence: 'high',
+    scores: { energy: 50, tension: 40, clarity: 60 },
+    features: {
+      rms: 0.1,
+      pitchMean: 150,
+      pitchVariance: 0.1,
+      correctedPitchFrames: 0,
+      spectralCentroid: 1500,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
+      zeroCrossingRate: 0.08,
+      voicedRatio: 0.8,
+      jitterProxy: 0.02,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
+      shimmerProxy: 0.1,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
+      durationSeconds: 6,
+      speechDurationSeconds: 5,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
+    },
+    ...overrides,
+  };
+}
+
+function fileOf(...records: GoldenRecord[]): GoldenFile {
+  return { analysisVersion: 'test', records };
+}
+
+describe('GoldenHarness', () => {
+  describe('golden corpus', () => {
+    it('should cover every corpus case exactly once', () => {
+      expect(golden.records.map(record => record.id)).toEqual(GOLDEN_CORPUS.map(c => c.id));
+    });
+
+    it('should match the golden file', () => {
+      const drifts = compareWithGolden(runGoldenCorpus(GOLDEN_CORPUS), golden);
+
+      if (drifts.length > 0) {
+        throw new Error(formatDriftReport(drifts));
+      }
+    });
+  });
+
+  describe('compareWithGolden', () => {
+    const base = makeRecord();
+
+    it('should accept changes within tolerance', () => {
+      const nudged = makeRecord({
+        scores: { ...base.scores, tension: 41 },
+        features: { ...base.features, snrDb: 30.4 },
+      });
+
+      expect(compareWithGolden(fileOf(nudged), fileOf(base))).toEqual([]);
+    });
+
+    it('should report numeric fields beyond tolerance', () => {
+      const drifted = makeRecord({
+        scores: { ...base.scores, tension: 45 },
+        features: { ...base.features, pitchMean: 151 },
+      });
+
+      expect(compareWithGolden(fileOf(drifted), fileOf(base))).toEqual([
+        { caseId: 'case', field: 'scores.tension', expected: 40, actual: 45, tolerance: 1 },
+        { caseId: 'case', field: 'features.pitchMean', expected: 150, actual: 151, tolerance: 0.5 },
+      ]);
+    });
+
+    it('should require exact matches for ids and flags', () => {
+      const drifted = makeRecord({
+        insightId: 'high_tension',
+        features: { ...base.features, isHardLimited: true },
+      });
+      const fields = compareWithGolden(fileOf(drifted), fileOf(base)).map(d => d.field);
+
+      expect(fields).toEqual(['insightId', 'features.isHardLimited']);
+    });
+
+    it('should apply custom tolerances and a tight default for unlisted fields', () => {
+      const drifted = makeRecord({ features: { ...base.features, rms: 0.105 } });
+
+      expect(compareWithGolden(fileOf(drifted), fileOf(base), {})).toHaveLength(1);
+      expect(compareWithGolden(fileOf(drifted), fileOf(base), { 'features.rms': 0.01 })).toEqual([]);
+    });
+
+    it('should report new and missing cases', () => {
+      const drifts = compareWithGolden(fileOf(makeRecord({ id: 'added' })), fileOf(base));
+
+      expect(drifts.map(d => [d.caseId, d.field])).toEqual([
+        ['added', null],
+        ['case', null],
+      ]);
+    });
+  });
+
+  describe('formatDriftReport', () => {
+    it('should say when nothing drifted', () => {
+      expect(formatDriftReport([])).toBe('Golden corpus: no drift.\n');
+    });
+
+    it('should group drifts by case with deltas and tolerances', () => {
+      const base = makeRecord();
+      const drifted = makeRecord({
+        insightId: 'high_tension',
+        scores: { ...base.scores, tension: 78 },
+      });
+      const report = formatDriftReport(
+        compareWithGolden(fileOf(drifted, makeRecord({ id: 'added' })), fileOf(base))
+      );
+
+      expect(report).toContain('Golden corpus drift: 3 difference(s) in 2 case(s)');
+      expect(report).toContain('case\n');
+      expect(report).toContain('  insightId       "balanced" → "high_tension"');
+      expect(report).toContain('  scores.tension  40 → 78  (Δ +38, tolerance ±1)');
+      expect(report).toContain('added: new case, not in the golden file');
+      expect(report).toContain('npm run golden -- --update');
+    });
+  });
+});
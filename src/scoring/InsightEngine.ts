@@ -29,6 +29,19 @@ export const INSIGHT_RULES: readonly InsightRule[] = [
     condition: (features) => features.durationSeconds < 5,
     message: 'Recording was very short — results may be less reliable.',
   },
+  {
+    id: 'distorted',
+    priority: 87,
+    condition: (features) => features.distortedFrameRatio > 0.05 || features.isHardLimited,
+    message: 'Input is clipping or heavily limited — move back from the microphone.',
+  },
+  {
+    id: 'noisy_room',
+    priority: 85,
+    // Unknown SNR (no pauses to measure the room) is not evidence of noise
+    condition: (features) => features.snrDb !== null && features.snrDb < 10,
+    message: 'Background noise is high — try a quieter room for more reliable results.',
+  },
   {
     id: 'high_tension',
     priority: 80,
@@ -47,6 +60,21 @@ export const INSIGHT_RULES: readonly InsightRule[] = [
     condition: (_, scores) => scores.energy < 25,
     message: 'Lower energy signal — voice may sound subdued.',
   },
+  {
+    id: 'breathy_voice',
+    priority: 66,
+    // Weak harmonics by both cepstral peak and autocorrelation; room noise is caught above by noisy_room
+    condition: (features) => features.cppsDb < 12 && features.hnrDb < 12,
+    message: 'Breathy voice quality — more air than tone in this sample.',
+  },
+  {
+    id: 'rough_voice',
+    priority: 65,
+    // Praat's pathology thresholds are 1.04% jitter and 3.81% shimmer; connected speech often
+    // exceeds the latter, so shimmer uses the top of the clarity range instead
+    condition: (features) => features.jitterLocal > 0.0104 || features.shimmerLocal > 0.08,
+    message: 'Uneven cycle-to-cycle pitch and loudness — the voice may sound rough.',
+  },
   {
     id: 'low_clarity',
     priority: 60,
@@ -59,6 +87,20 @@ export const INSIGHT_RULES: readonly InsightRule[] = [
     condition: (_, scores) => scores.clarity > 80 && scores.energy > 50,
     message: 'Clear, well-projected voice signal detected.',
   },
+  {
+    id: 'wide_vowel_space',
+    priority: 45,
+    // F1 tracks vowel height and F2 frontness; both move a lot in well-articulated speech
+    condition: (features) => features.f1Std > 100 && features.f2Std > 350,
+    message: 'Wide vowel range — speech sounds clearly articulated.',
+  },
+  {
+    id: 'damped_resonance',
+    priority: 40,
+    // Broad F1/F2 bandwidths: energy is absorbed rather than resonating (nasal or muffled voice)
+    condition: (features) => features.f2Mean > 0 && (features.f1Bandwidth + features.f2Bandwidth) / 2 > 250,
+    message: 'Vocal resonances sound damped — the voice may come across as muffled.',
+  },
   {
     id: 'balanced',
     priority: 10,
@@ -67,6 +109,20 @@ export const INSIGHT_RULES: readonly InsightRule[] = [
   },
 ] as const;
 
+/**
+ * Find the highest-priority rule that matches
+ * Returns null only if no rule matches (the 'balanced' catch-all prevents this)
+ */
+export function matchInsightRule(
+  features: AcousticFeatures,
+  scores: VoiceScores
+): InsightRule | null {
+  // Sort rules by priority (highest first)
+  const sortedRules = [...INSIGHT_RULES].sort((a, b) => b.priority - a.priority);
+
+  return sortedRules.find(rule => rule.condition(features, scores)) ?? null;
+}
+
 /**
  * Generate insight based on features and scores
  * Deterministic: same inputs always produce same output
@@ -75,18 +131,10 @@ export function generateInsight(
   features: AcousticFeatures,
   scores: VoiceScores
 ): string {
-  // Sort rules by priority (highest first)
-  const sortedRules = [...INSIGHT_RULES].sort((a, b) => b.priority - a.priority);
-
-  // Find first matching rule
-  for (const rule of sortedRules) {
-    if (rule.condition(features, scores)) {
-      return rule.message;
-    }
-  }
+  const rule = matchInsightRule(features, scores);
 
   // Fallback (should never reach here due to 'balanced' rule)
-  return 'Voice signal analyzed.';
+  return rule ? rule.message : 'Voice signal analyzed.';
 }
 
 /**
@@ -111,7 +159,14 @@ export function getInsightCategory(
   scores: VoiceScores
 ): 'warning' | 'positive' | 'neutral' {
   // Warning conditions
-  if (features.rms < 0.015 || features.voicedRatio < 0.1 || features.durationSeconds < 5) {
+  if (
+    features.rms < 0.015 ||
+    features.voicedRatio < 0.1 ||
+    features.durationSeconds < 5 ||
+    (features.snrDb !== null && features.snrDb < 10) ||
+    features.distortedFrameRatio > 0.05 ||
+    features.isHardLimited
+  ) {
     return 'warning';
   }
 
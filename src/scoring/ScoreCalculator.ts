@@ -49,6 +49,17 @@ function signalQuality(features: AcousticFeatures): number {
   return rmsQuality * voicedQuality;
 }
 
+/**
+ * How much of the clip's noisiness comes from the room (0-1)
+ * SNR 20 dB and above: none; 5 dB and below: fully attributed to the room.
+ * Used to discount ZCR and HNR, which respond to background noise as well as breathiness.
+ * Unknown SNR (no pauses to measure the room) discounts nothing.
+ */
+function roomNoiseWeight(features: AcousticFeatures): number {
+  if (features.snrDb === null) return 0;
+  return clamp(lerp(features.snrDb, 20, 5, 0, 1), 0, 1);
+}
+
 /**
  * Calculate Energy score from features
  * Based on: RMS energy (70%) + Spectral centroid (30%)
@@ -69,35 +80,45 @@ export function calculateEnergy(features: AcousticFeatures): number {
 
 /**
  * Calculate Tension score from features
- * Based on: Pitch variance (60%) + Jitter proxy (20%) + ZCR (20%)
+ * Based on: Pitch variance (60%) + Local jitter (20%) + Shimmer dB (10%) + ZCR (10%)
  * Higher pitch variation and instability = tension signal
  */
 export function calculateTension(features: AcousticFeatures): number {
   // Pitch variance (CV): typical range 0.05 (stable) to 0.3 (very variable)
   const pitchVarScore = normalizeToScore(features.pitchVariance, 0.05, 0.25);
 
-  // Jitter proxy: typical range 0.01 (stable) to 0.1 (unstable)
-  const jitterScore = normalizeToScore(features.jitterProxy, 0.01, 0.08);
+  // Local jitter (Praat): 0.5% (steady) to 2% (unstable); Praat's
+  // pathology threshold of 1.04% sits mid-range
+  const jitterScore = normalizeToScore(features.jitterLocal, 0.005, 0.02);
+
+  // Shimmer (Praat dB): 0.2 dB (steady) to 0.6 dB (unsteady); Praat's
+  // pathology threshold of 0.35 dB sits mid-range
+  const shimmerScore = normalizeToScore(features.shimmerDb, 0.2, 0.6);
 
   // ZCR: higher ZCR can indicate tension/noisiness
   // Typical range 0.05 (smooth) to 0.2 (noisy)
-  const zcrScore = normalizeToScore(features.zeroCrossingRate, 0.05, 0.18);
+  // Halved at most in a noisy room, where ZCR tracks the background instead
+  const zcrScore =
+    normalizeToScore(features.zeroCrossingRate, 0.05, 0.18) * (1 - 0.5 * roomNoiseWeight(features));
 
   // Weighted combination
-  const tension = pitchVarScore * 0.6 + jitterScore * 0.2 + zcrScore * 0.2;
+  const tension = pitchVarScore * 0.6 + jitterScore * 0.2 + shimmerScore * 0.1 + zcrScore * 0.1;
 
   return Math.round(clamp(tension, 0, 100));
 }
 
 /**
  * Calculate Clarity score from features
- * Based on: Inverse ZCR (50%) + Centroid stability proxy (50%)
- * Lower noise and stable spectrum = higher clarity
+ * Based on: HNR (35%) + Voiced ratio (25%) + Centroid range (15%) +
+ * Inverse local shimmer (15%) + Spectral stability (10%)
+ * More periodic energy, steady amplitude and timbre, and a voice-range
+ * spectrum = higher clarity
  */
 export function calculateClarity(features: AcousticFeatures): number {
-  // Inverse ZCR: lower ZCR = higher clarity
-  // Typical ZCR 0.05 (clear) to 0.2 (noisy)
-  const zcrClarity = 100 - normalizeToScore(features.zeroCrossingRate, 0.05, 0.2);
+  // Mean HNR: 5 dB (breathy/hoarse) to 20 dB (clear sustained voice)
+  // Room noise lowers HNR too, so the shortfall is halved at most in a noisy room
+  const hnrShortfall = 100 - normalizeToScore(features.hnrDb, 5, 20);
+  const hnrClarity = 100 - hnrShortfall * (1 - 0.5 * roomNoiseWeight(features));
 
   // Voiced ratio: more voiced frames = clearer speech
   const voicedScore = features.voicedRatio * 100;
@@ -107,8 +128,21 @@ export function calculateClarity(features: AcousticFeatures): number {
   const centroidDeviation = Math.abs(features.spectralCentroid - 1800) / 1800;
   const centroidScore = clamp(100 - centroidDeviation * 50, 0, 100);
 
+  // Local shimmer (Praat): 2% (steady) to 8% (rough); Praat's pathology
+  // threshold of 3.81% sits in the lower half
+  const shimmerClarity = 100 - normalizeToScore(features.shimmerLocal, 0.02, 0.08);
+
+  // Spectral stability: centroid variation across voiced frames, 0.2 (vowel
+  // changes in connected speech) to 0.6 (erratic timbre)
+  const stabilityScore = 100 - normalizeToScore(features.spectralCentroidCv, 0.2, 0.6);
+
   // Weighted combination
-  const clarity = zcrClarity * 0.5 + voicedScore * 0.3 + centroidScore * 0.2;
+  const clarity =
+    hnrClarity * 0.35 +
+    voicedScore * 0.25 +
+    centroidScore * 0.15 +
+    shimmerClarity * 0.15 +
+    stabilityScore * 0.1;
 
   return Math.round(clamp(clarity, 0, 100));
 }
@@ -155,8 +189,22 @@ export function calculateConfidence(features: AcousticFeatures): 'high' | 'mediu
     return 'low';
   }
 
-  // Moderate issues = medium confidence
-  if (features.rms < 0.03 || features.voicedRatio < 0.3) {
+  // Heavily clipped = low confidence (distortion inflates ZCR and centroid)
+  if (features.distortedFrameRatio > 0.2) {
+    return 'low';
+  }
+
+  // Some clipping or a hard limiter = medium confidence
+  if (features.distortedFrameRatio > 0.05 || features.isHardLimited) {
+    return 'medium';
+  }
+
+  // Moderate issues (including a noisy room) = medium confidence
+  if (
+    features.rms < 0.03 ||
+    features.voicedRatio < 0.3 ||
+    (features.snrDb !== null && features.snrDb < 10)
+  ) {
     return 'medium';
   }
 
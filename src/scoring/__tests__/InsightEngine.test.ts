@@ -5,6 +5,7 @@
 
 import {
   generateInsight,
+  matchInsightRule,
   getAllMatchingInsights,
   getInsightCategory,
   INSIGHT_RULES,
@@ -16,12 +17,54 @@ describe('InsightEngine', () => {
     rms: 0.1,
     pitchMean: 150,
     pitchVariance: 0.1,
+    correctedPitchFrames: 0,
     spectralCentroid: 2000,
+    spectralCentroidCv: 0.3,
+    spectralBandwidth: 1200,
+    spectralRolloff: 3000,
+    spectralFlatness: 0.1,
+    spectralEntropy: 0.5,
+    spectralSlope: -8,
+    spectralFlux: 0.3,
+    alphaRatio: 15,
+    hammarbergIndex: 20,
     zeroCrossingRate: 0.1,
     voicedRatio: 0.7,
     jitterProxy: 0.03,
+    jitterLocal: 0.01,
+    jitterLocalAbsolute: 0.00007,
+    jitterRap: 0.005,
+    jitterPpq5: 0.006,
+    jitterDdp: 0.015,
     shimmerProxy: 0.05,
+    shimmerLocal: 0.035,
+    shimmerDb: 0.3,
+    shimmerApq3: 0.02,
+    shimmerApq5: 0.022,
+    shimmerApq11: 0.025,
+    shimmerDda: 0.06,
+    hnrDb: 17,
+    hnrP10Db: 12,
+    hnrMedianDb: 18,
+    hnrP90Db: 22,
+    cppDb: 14,
+    cppsDb: 8,
+    f1Mean: 600,
+    f1Std: 100,
+    f1Bandwidth: 120,
+    f2Mean: 1500,
+    f2Std: 300,
+    f2Bandwidth: 150,
+    f3Mean: 2600,
+    f3Std: 200,
+    f3Bandwidth: 250,
     durationSeconds: 30,
+    speechDurationSeconds: 24,
+    noiseFloorDb: -60,
+    snrDb: 30,
+    clippedRunCount: 0,
+    distortedFrameRatio: 0,
+    isHardLimited: false,
   };
 
   const baseScores: VoiceScores = {
@@ -63,6 +106,24 @@ describe('InsightEngine', () => {
       expect(insight).toBe('Recording was very short — results may be less reliable.');
     });
 
+    it('should detect clipped or limited input', () => {
+      const features = { ...baseFeatures, distortedFrameRatio: 0.3 };
+      const insight = generateInsight(features, baseScores);
+      expect(insight).toBe('Input is clipping or heavily limited — move back from the microphone.');
+      expect(generateInsight({ ...baseFeatures, isHardLimited: true }, baseScores)).toBe(insight);
+    });
+
+    it('should detect a noisy room', () => {
+      const features = { ...baseFeatures, snrDb: 4 };
+      const insight = generateInsight(features, baseScores);
+      expect(insight).toBe('Background noise is high — try a quieter room for more reliable results.');
+    });
+
+    it('should not report a noisy room when the SNR is unknown', () => {
+      const features = { ...baseFeatures, snrDb: null, noiseFloorDb: null };
+      expect(matchInsightRule(features, baseScores)?.id).not.toBe('noisy_room');
+    });
+
     it('should detect high tension', () => {
       const scores = { ...baseScores, tension: 80 };
       const insight = generateInsight(baseFeatures, scores);
@@ -81,6 +142,16 @@ describe('InsightEngine', () => {
       expect(insight).toBe('Lower energy signal — voice may sound subdued.');
     });
 
+    it('should detect a breathy voice', () => {
+      const features = { ...baseFeatures, hnrDb: 9, cppsDb: 10 };
+      expect(matchInsightRule(features, baseScores)?.id).toBe('breathy_voice');
+    });
+
+    it('should detect a rough voice', () => {
+      expect(matchInsightRule({ ...baseFeatures, shimmerLocal: 0.12 }, baseScores)?.id).toBe('rough_voice');
+      expect(matchInsightRule({ ...baseFeatures, jitterLocal: 0.02 }, baseScores)?.id).toBe('rough_voice');
+    });
+
     it('should detect low clarity', () => {
       const scores = { ...baseScores, clarity: 30 };
       const insight = generateInsight(baseFeatures, scores);
@@ -93,6 +164,28 @@ describe('InsightEngine', () => {
       expect(insight).toBe('Clear, well-projected voice signal detected.');
     });
 
+    it('should detect a wide vowel space', () => {
+      const features = { ...baseFeatures, f1Std: 150, f2Std: 450 };
+      const insight = generateInsight(features, baseScores);
+      expect(insight).toBe('Wide vowel range — speech sounds clearly articulated.');
+    });
+
+    it('should need both F1 and F2 to vary for a wide vowel space', () => {
+      const features = { ...baseFeatures, f1Std: 10, f2Std: 600 };
+      expect(matchInsightRule(features, baseScores)?.id).toBe('balanced');
+    });
+
+    it('should detect damped resonances', () => {
+      const features = { ...baseFeatures, f1Bandwidth: 280, f2Bandwidth: 320 };
+      const insight = generateInsight(features, baseScores);
+      expect(insight).toBe('Vocal resonances sound damped — the voice may come across as muffled.');
+    });
+
+    it('should ignore bandwidths when F2 was not found', () => {
+      const features = { ...baseFeatures, f1Bandwidth: 360, f2Mean: 0, f2Bandwidth: 0 };
+      expect(matchInsightRule(features, baseScores)?.id).toBe('balanced');
+    });
+
     it('should return default for typical signal', () => {
       const insight = generateInsight(baseFeatures, baseScores);
       expect(insight).toBe('Voice signal detected within typical range.');
@@ -114,6 +207,19 @@ describe('InsightEngine', () => {
     });
   });
 
+  describe('matchInsightRule', () => {
+    it('should return the rule behind the generated insight', () => {
+      const features = { ...baseFeatures, rms: 0.01 };
+      const rule = matchInsightRule(features, baseScores);
+      expect(rule?.id).toBe('too_quiet');
+      expect(rule?.message).toBe(generateInsight(features, baseScores));
+    });
+
+    it('should fall through to the balanced rule', () => {
+      expect(matchInsightRule(baseFeatures, baseScores)?.id).toBe('balanced');
+    });
+  });
+
   describe('getAllMatchingInsights', () => {
     it('should return all matching insights', () => {
       const scores = { ...baseScores, tension: 80, energy: 85 };
@@ -146,6 +252,22 @@ describe('InsightEngine', () => {
       expect(getInsightCategory(features, baseScores)).toBe('warning');
     });
 
+    it('should return warning for distorted input', () => {
+      const features = { ...baseFeatures, isHardLimited: true };
+      expect(getInsightCategory(features, baseScores)).toBe('warning');
+    });
+
+    it('should return warning for a noisy room', () => {
+      const features = { ...baseFeatures, snrDb: 5 };
+      expect(getInsightCategory(features, baseScores)).toBe('warning');
+    });
+
+    it('should not warn about the room when the SNR is unknown', () => {
+      const features = { ...baseFeatures, snrDb: null, noiseFloorDb: null };
+      const scores = { energy: 60, tension: 40, clarity: 80 };
+      expect(getInsightCategory(features, scores)).toBe('positive');
+    });
+
     it('should return positive for clear, well-projected voice', () => {
       const scores = { energy: 60, tension: 40, clarity: 80 };
       expect(getInsightCategory(baseFeatures, scores)).toBe('positive');
@@ -46,12 +46,54 @@ describe('ScoreCalculator', () => {
       rms: 0.1,
       pitchMean: 150,
       pitchVariance: 0.1,
+      correctedPitchFrames: 0,
       spectralCentroid: 2000,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
       zeroCrossingRate: 0.1,
       voicedRatio: 0.7,
       jitterProxy: 0.03,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
       shimmerProxy: 0.05,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
       durationSeconds: 30,
+      speechDurationSeconds: 24,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
     };
 
     it('should return high energy for loud, bright sound', () => {
@@ -78,12 +120,54 @@ describe('ScoreCalculator', () => {
       rms: 0.1,
       pitchMean: 150,
       pitchVariance: 0.1,
+      correctedPitchFrames: 0,
       spectralCentroid: 2000,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
       zeroCrossingRate: 0.1,
       voicedRatio: 0.7,
       jitterProxy: 0.03,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
       shimmerProxy: 0.05,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
       durationSeconds: 30,
+      speechDurationSeconds: 24,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
     };
 
     it('should return high tension for variable pitch', () => {
@@ -92,8 +176,14 @@ describe('ScoreCalculator', () => {
       expect(tension).toBeGreaterThan(70);
     });
 
+    it('should raise tension with shimmer', () => {
+      const steady = { ...baseFeatures, shimmerDb: 0.2 };
+      const unsteady = { ...baseFeatures, shimmerDb: 0.6 };
+      expect(calculateTension(unsteady) - calculateTension(steady)).toBe(10);
+    });
+
     it('should return low tension for stable pitch', () => {
-      const features = { ...baseFeatures, pitchVariance: 0.02, jitterProxy: 0.01 };
+      const features = { ...baseFeatures, pitchVariance: 0.02, jitterLocal: 0.005 };
       const tension = calculateTension(features);
       expect(tension).toBeLessThan(40);
     });
@@ -110,18 +200,60 @@ describe('ScoreCalculator', () => {
       rms: 0.1,
       pitchMean: 150,
       pitchVariance: 0.1,
+      correctedPitchFrames: 0,
       spectralCentroid: 2000,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
       zeroCrossingRate: 0.1,
       voicedRatio: 0.7,
       jitterProxy: 0.03,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
       shimmerProxy: 0.05,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
       durationSeconds: 30,
+      speechDurationSeconds: 24,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
     };
 
     it('should return high clarity for clean voice', () => {
       const features = {
         ...baseFeatures,
-        zeroCrossingRate: 0.05,
+        hnrDb: 22,
         voicedRatio: 0.9,
       };
       const clarity = calculateClarity(features);
@@ -131,13 +263,42 @@ describe('ScoreCalculator', () => {
     it('should return low clarity for noisy signal', () => {
       const features = {
         ...baseFeatures,
-        zeroCrossingRate: 0.2,
+        hnrDb: 3,
         voicedRatio: 0.2,
       };
       const clarity = calculateClarity(features);
       expect(clarity).toBeLessThan(50);
     });
 
+    it('should ignore zero crossings', () => {
+      const noisy = { ...baseFeatures, zeroCrossingRate: 0.2 };
+      expect(calculateClarity(noisy)).toBe(calculateClarity(baseFeatures));
+    });
+
+    it('should penalize low HNR less when the room is noisy', () => {
+      const noisyVoice = { ...baseFeatures, hnrDb: 3 };
+      const noisyRoom = { ...noisyVoice, snrDb: 5 };
+      expect(calculateClarity(noisyRoom)).toBeGreaterThan(calculateClarity(noisyVoice));
+    });
+
+    it('should not discount low HNR when the SNR is unknown', () => {
+      const noisyVoice = { ...baseFeatures, hnrDb: 3 };
+      const unknownRoom = { ...noisyVoice, snrDb: null, noiseFloorDb: null };
+      expect(calculateClarity(unknownRoom)).toBe(calculateClarity(noisyVoice));
+    });
+
+    it('should lower clarity for unsteady timbre', () => {
+      const steady = { ...baseFeatures, spectralCentroidCv: 0.2 };
+      const erratic = { ...baseFeatures, spectralCentroidCv: 0.6 };
+      expect(calculateClarity(steady) - calculateClarity(erratic)).toBe(10);
+    });
+
+    it('should lower clarity for unsteady cycle amplitudes', () => {
+      const steady = { ...baseFeatures, shimmerLocal: 0.02 };
+      const rough = { ...baseFeatures, shimmerLocal: 0.08 };
+      expect(calculateClarity(steady) - calculateClarity(rough)).toBe(15);
+    });
+
     it('should return score between 0 and 100', () => {
       const clarity = calculateClarity(baseFeatures);
       expect(clarity).toBeGreaterThanOrEqual(0);
@@ -150,12 +311,54 @@ describe('ScoreCalculator', () => {
       rms: 0.1,
       pitchMean: 150,
       pitchVariance: 0.1,
+      correctedPitchFrames: 0,
       spectralCentroid: 2000,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
       zeroCrossingRate: 0.1,
       voicedRatio: 0.7,
       jitterProxy: 0.03,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
       shimmerProxy: 0.05,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
       durationSeconds: 30,
+      speechDurationSeconds: 24,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
     };
 
     it('should return all scores in valid range', () => {
@@ -202,12 +405,54 @@ describe('ScoreCalculator', () => {
       rms: 0.1,
       pitchMean: 150,
       pitchVariance: 0.1,
+      correctedPitchFrames: 0,
       spectralCentroid: 2000,
+      spectralCentroidCv: 0.3,
+      spectralBandwidth: 1200,
+      spectralRolloff: 3000,
+      spectralFlatness: 0.1,
+      spectralEntropy: 0.5,
+      spectralSlope: -8,
+      spectralFlux: 0.3,
+      alphaRatio: 15,
+      hammarbergIndex: 20,
       zeroCrossingRate: 0.1,
       voicedRatio: 0.7,
       jitterProxy: 0.03,
+      jitterLocal: 0.01,
+      jitterLocalAbsolute: 0.00007,
+      jitterRap: 0.005,
+      jitterPpq5: 0.006,
+      jitterDdp: 0.015,
       shimmerProxy: 0.05,
+      shimmerLocal: 0.035,
+      shimmerDb: 0.3,
+      shimmerApq3: 0.02,
+      shimmerApq5: 0.022,
+      shimmerApq11: 0.025,
+      shimmerDda: 0.06,
+      hnrDb: 17,
+      hnrP10Db: 12,
+      hnrMedianDb: 18,
+      hnrP90Db: 22,
+      cppDb: 14,
+      cppsDb: 8,
+      f1Mean: 600,
+      f1Std: 100,
+      f1Bandwidth: 120,
+      f2Mean: 1500,
+      f2Std: 300,
+      f2Bandwidth: 150,
+      f3Mean: 2600,
+      f3Std: 200,
+      f3Bandwidth: 250,
       durationSeconds: 30,
+      speechDurationSeconds: 24,
+      noiseFloorDb: -60,
+      snrDb: 30,
+      clippedRunCount: 0,
+      distortedFrameRatio: 0,
+      isHardLimited: false,
     };
 
     it('should return low confidence for quiet signal', () => {
@@ -230,6 +475,25 @@ describe('ScoreCalculator', () => {
       expect(calculateConfidence(features)).toBe('medium');
     });
 
+    it('should return low confidence for heavily clipped input', () => {
+      const features = { ...baseFeatures, clippedRunCount: 400, distortedFrameRatio: 0.5 };
+      expect(calculateConfidence(features)).toBe('low');
+    });
+
+    it('should return medium confidence for hard-limited input', () => {
+      const features = { ...baseFeatures, isHardLimited: true };
+      expect(calculateConfidence(features)).toBe('medium');
+    });
+
+    it('should return medium confidence for a noisy room', () => {
+      const features = { ...baseFeatures, snrDb: 6 };
+      expect(calculateConfidence(features)).toBe('medium');
+    });
+
+    it('should keep high confidence when the SNR is unknown', () => {
+      expect(calculateConfidence({ ...baseFeatures, snrDb: null, noiseFloorDb: null })).toBe('high');
+    });
+
     it('should return high confidence for good signal', () => {
       expect(calculateConfidence(baseFeatures)).toBe('high');
     });
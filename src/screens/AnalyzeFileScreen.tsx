@@ -0,0 +1,179 @@
+/**
+ * Analyze File Screen
+ * Pick an existing WAV clip and send it through the same processing flow
+ * as a recording
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { pickAudioFile, AudioFileError, DEFAULT_AUDIO_FILE_LIMITS } from '@/audio/AudioFileLoader';
+import { getFileSource } from '@/audio/FileSource';
+import { setPendingAudioBuffer } from '@/audio/AudioBufferStore';
+import Logger from '@/utils/Logger';
+
+type RootStackParamList = {
+  Home: undefined;
+  AnalyzeFile: undefined;
+  Processing: undefined;
+};
+
+type AnalyzeFileScreenProps = {
+  navigation: StackNavigationProp<RootStackParamList, 'AnalyzeFile'>;
+};
+
+const AnalyzeFileScreen: React.FC<AnalyzeFileScreenProps> = ({ navigation }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handlePickFile = async () => {
+    setErrorMessage(null);
+    setIsLoading(true);
+
+    try {
+      const audioBuffer = await pickAudioFile(getFileSource());
+      if (!audioBuffer) {
+        setIsLoading(false);
+        return;
+      }
+
+      Logger.log('file_loaded', {
+        durationMs: audioBuffer.durationMs,
+        sampleRate: audioBuffer.sampleRate,
+        channels: audioBuffer.channels,
+      });
+
+      setPendingAudioBuffer(audioBuffer);
+      navigation.replace('Processing');
+    } catch (error) {
+      if (error instanceof AudioFileError) {
+        Logger.warn('File rejected', { code: error.code });
+        setErrorMessage(error.message);
+      } else {
+        Logger.error('Failed to load file', error);
+        setErrorMessage('The file could not be opened. Please try another one.');
+      }
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="#0A0A0F" />
+
+      <View style={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.headerText}>Analyze a file</Text>
+        </View>
+
+        <View style={styles.body}>
+          <Text style={styles.description}>
+            Choose a WAV recording of your voice.{'\n'}
+            {DEFAULT_AUDIO_FILE_LIMITS.minDurationMs / 1000}–
+            {DEFAULT_AUDIO_FILE_LIMITS.maxDurationMs / 1000} seconds works best.
+          </Text>
+
+          {isLoading ? (
+            <ActivityIndicator size="large" color="#3B82F6" />
+          ) : (
+            <TouchableOpacity
+              style={styles.pickButton}
+              onPress={handlePickFile}
+              activeOpacity={0.8}
+            >
+              <Text style={styles.pickButtonText}>Choose WAV file</Text>
+            </TouchableOpacity>
+          )}
+
+          {errorMessage && <Text style={styles.errorText}>{errorMessage}</Text>}
+        </View>
+
+        <View style={styles.footer}>
+          <TouchableOpacity style={styles.cancelButton} onPress={() => navigation.goBack()}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.privacyText}>🔒 The file is analyzed on your device</Text>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#0A0A0F',
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 24,
+    paddingVertical: 20,
+    justifyContent: 'space-between',
+  },
+  header: {
+    alignItems: 'center',
+    paddingTop: 20,
+  },
+  headerText: {
+    fontSize: 18,
+    color: '#9CA3AF',
+    fontWeight: '500',
+  },
+  body: {
+    alignItems: 'center',
+  },
+  description: {
+    fontSize: 16,
+    color: '#D1D5DB',
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 32,
+  },
+  pickButton: {
+    backgroundColor: '#3B82F6',
+    paddingVertical: 18,
+    paddingHorizontal: 48,
+    borderRadius: 30,
+  },
+  pickButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  errorText: {
+    color: '#EF4444',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 24,
+    lineHeight: 20,
+  },
+  footer: {
+    alignItems: 'center',
+    paddingBottom: 20,
+  },
+  cancelButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    marginBottom: 12,
+  },
+  cancelButtonText: {
+    color: '#6B7280',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  privacyText: {
+    color: '#10B981',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+});
+
+export default AnalyzeFileScreen;
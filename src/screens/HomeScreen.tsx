@@ -20,6 +20,7 @@ import Logger from '@/utils/Logger';
 type RootStackParamList = {
   Home: undefined;
   Recording: undefined;
+  AnalyzeFile: undefined;
   Privacy: undefined;
   Upgrade: undefined;
 };
@@ -43,6 +44,11 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     }
   };
 
+  const handleAnalyzeFilePress = () => {
+    Logger.log('analyze_file_opened');
+    navigation.navigate('AnalyzeFile');
+  };
+
   const handlePrivacyPress = () => {
     Logger.log('privacy_screen_viewed');
     navigation.navigate('Privacy');
@@ -83,6 +89,10 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
             <Text style={styles.recordButtonText}>Record 30 seconds</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity onPress={handleAnalyzeFilePress} style={styles.fileLinkContainer}>
+            <Text style={styles.fileLink}>Analyze a WAV file instead ›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity onPress={handlePrivacyPress}>
             <PrivacyBadge showArrow />
           </TouchableOpacity>
@@ -167,6 +177,15 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: '700',
   },
+  fileLinkContainer: {
+    paddingVertical: 8,
+    marginBottom: 16,
+  },
+  fileLink: {
+    color: '#9CA3AF',
+    fontSize: 15,
+    fontWeight: '500',
+  },
   footer: {
     alignItems: 'center',
     paddingBottom: 20,
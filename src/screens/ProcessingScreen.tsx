@@ -13,9 +13,11 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
-import { extractFeatures } from '@/analysis/FeatureExtractor';
-import { calculateScores, calculateConfidence } from '@/scoring/ScoreCalculator';
-import { generateInsight } from '@/scoring/InsightEngine';
+import {
+  analyzeAudio,
+  ANALYSIS_VERSION,
+  DEFAULT_ANALYSIS_CONFIG,
+} from '@/analysis/AnalysisPipeline';
 import { AnalysisResult } from '@/analysis/types';
 import { consumePendingAudioBuffer } from '@/audio/AudioBufferStore';
 import Logger from '@/utils/Logger';
@@ -49,31 +51,27 @@ const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ navigation }) => {
         Logger.log('analysis_started', {
           durationMs: audioBuffer.durationMs,
           sampleRate: audioBuffer.sampleRate,
+          channels: audioBuffer.channels,
         });
 
-        // Step 1: Extract features
-        const features = extractFeatures(audioBuffer);
-
-        // Step 2: Calculate scores
-        const scores = calculateScores(features);
-
-        // Step 3: Generate insight
-        const insight = generateInsight(features, scores);
-        const confidence = calculateConfidence(features);
+        // Prep, preprocessing, features, scores and insight in one pure pass
+        const { result, channelReport } = analyzeAudio(audioBuffer, DEFAULT_ANALYSIS_CONFIG);
+        const { scores, confidence } = result;
 
-        // Step 4: Build result
-        const result: AnalysisResult = {
-          scores,
-          insight,
-          confidence,
-          features,
-        };
+        if (channelReport.deadChannels.length > 0 || channelReport.phaseCancelled) {
+          Logger.warn('Channel issues detected', {
+            deadChannels: channelReport.deadChannels,
+            phaseCancelled: channelReport.phaseCancelled,
+            appliedStrategy: channelReport.appliedStrategy,
+          });
+        }
 
         Logger.log('analysis_completed', {
           energy: scores.energy,
           tension: scores.tension,
           clarity: scores.clarity,
           confidence,
+          analysisVersion: result.analysisVersion,
         });
 
         // Clear audio buffer from memory (immediate cleanup)
@@ -88,18 +86,63 @@ const ProcessingScreen: React.FC<ProcessingScreenProps> = ({ navigation }) => {
         const fallbackResult: AnalysisResult = {
           scores: { energy: 50, tension: 50, clarity: 50 },
           insight: 'Analysis could not be completed. Please try again.',
+          insightId: 'analysis_failed',
           confidence: 'low',
           features: {
             rms: 0,
             pitchMean: 0,
             pitchVariance: 0,
+            correctedPitchFrames: 0,
             spectralCentroid: 0,
+            spectralCentroidCv: 0,
+            spectralBandwidth: 0,
+            spectralRolloff: 0,
+            spectralFlatness: 0,
+            spectralEntropy: 0,
+            spectralSlope: 0,
+            spectralFlux: 0,
+            alphaRatio: 0,
+            hammarbergIndex: 0,
             zeroCrossingRate: 0,
             voicedRatio: 0,
             jitterProxy: 0,
+            jitterLocal: 0,
+            jitterLocalAbsolute: 0,
+            jitterRap: 0,
+            jitterPpq5: 0,
+            jitterDdp: 0,
             shimmerProxy: 0,
+            shimmerLocal: 0,
+            shimmerDb: 0,
+            shimmerApq3: 0,
+            shimmerApq5: 0,
+            shimmerApq11: 0,
+            shimmerDda: 0,
+            hnrDb: 0,
+            hnrP10Db: 0,
+            hnrMedianDb: 0,
+            hnrP90Db: 0,
+            cppDb: 0,
+            cppsDb: 0,
+            f1Mean: 0,
+            f1Std: 0,
+            f1Bandwidth: 0,
+            f2Mean: 0,
+            f2Std: 0,
+            f2Bandwidth: 0,
+            f3Mean: 0,
+            f3Std: 0,
+            f3Bandwidth: 0,
             durationSeconds: 0,
+            speechDurationSeconds: 0,
+            noiseFloorDb: 0,
+            snrDb: 0,
+            clippedRunCount: 0,
+            distortedFrameRatio: 0,
+            isHardLimited: false,
           },
+          analysisVersion: ANALYSIS_VERSION,
+          config: DEFAULT_ANALYSIS_CONFIG,
         };
 
         navigation.replace('Results', { result: fallbackResult });
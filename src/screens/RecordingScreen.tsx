@@ -15,8 +15,10 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Audio } from 'expo-av';
-import { startRecording, cleanupRecording } from '@/audio/AudioRecorder';
+import { startRecording, cleanupRecording, RecordingSession } from '@/audio/AudioRecorder';
 import { setPendingAudioBuffer } from '@/audio/AudioBufferStore';
+import { LevelReading } from '@/audio/LevelMeter';
+import InputLevelMeter from '@/components/InputLevelMeter';
 import Logger from '@/utils/Logger';
 
 type RootStackParamList = {
@@ -36,15 +38,9 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [elapsedMs, setElapsedMs] = useState(0);
   const [permissionDenied, setPermissionDenied] = useState(false);
-  const recordingRef = useRef<{
-    stop: () => Promise<{
-      samples: Float32Array;
-      sampleRate: number;
-      channels: number;
-      durationMs: number;
-    }>;
-    getElapsedMs: () => number;
-  } | null>(null);
+  const [level, setLevel] = useState<LevelReading | null>(null);
+  const recordingRef = useRef<RecordingSession | null>(null);
+  const unsubscribeLevelRef = useRef<(() => void) | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
 
   // Format time display (MM:SS)
@@ -72,6 +68,7 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
         // Start recording
         const session = await startRecording();
         recordingRef.current = session;
+        unsubscribeLevelRef.current = session.subscribeToLevel(setLevel);
         setIsRecording(true);
 
         // Start timer
@@ -101,9 +98,10 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
+      unsubscribeLevelRef.current?.();
       if (recordingRef.current) {
         // Don't await - just fire and forget cleanup
-        cleanupRecording(recordingRef.current as unknown as Audio.Recording);
+        cleanupRecording(recordingRef.current.recording);
       }
     };
   }, [navigation]);
@@ -136,6 +134,8 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
     }
 
     setIsRecording(false);
+    unsubscribeLevelRef.current?.();
+    unsubscribeLevelRef.current = null;
 
     try {
       // Stop recording and get buffer
@@ -160,8 +160,11 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
       clearInterval(timerRef.current);
     }
 
+    unsubscribeLevelRef.current?.();
+    unsubscribeLevelRef.current = null;
+
     if (recordingRef.current) {
-      await cleanupRecording(recordingRef.current as unknown as Audio.Recording);
+      await cleanupRecording(recordingRef.current.recording);
       recordingRef.current = null;
     }
 
@@ -220,6 +223,9 @@ const RecordingScreen: React.FC<RecordingScreenProps> = ({ navigation }) => {
           <Text style={styles.remainingText}>
             {remainingMs > 0 ? `${Math.ceil(remainingMs / 1000)}s remaining` : 'Finishing...'}
           </Text>
+
+          {/* Live Input Level */}
+          <InputLevelMeter reading={level} />
         </View>
 
         {/* Controls */}
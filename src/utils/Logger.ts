@@ -9,6 +9,8 @@ export type LogEvent =
   | 'record_started'
   | 'record_completed'
   | 'record_stopped_early'
+  | 'analyze_file_opened'
+  | 'file_loaded'
   | 'analysis_started'
   | 'analysis_completed'
   | 'analysis_failed'